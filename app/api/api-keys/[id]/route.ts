@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { revokeApiKey } from "@/lib/api-keys"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+// DELETE /api/api-keys/[id] - Revoke an API key; requests with it fail from then on
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid API key ID" }, { status: 400 })
+    }
+
+    if (!(await revokeApiKey(access, id))) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 })
+    }
+
+    await recordAudit({ request, access, action: "apiKey.revoke", targets: { type: "apiKey", id } })
+
+    return NextResponse.json({ message: "API key revoked" })
+  } catch (error) {
+    console.error("Error revoking API key:", error)
+    return NextResponse.json({ error: "Failed to revoke API key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { createApiKey, createApiKeySchema, listApiKeys } from "@/lib/api-keys"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+// GET /api/api-keys - List the current workspace's API keys (owners see everyone's, others their own)
+export async function GET() {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    return NextResponse.json(await listApiKeys(access))
+  } catch (error) {
+    console.error("Error fetching API keys:", error)
+    return NextResponse.json({ error: "Failed to fetch API keys" }, { status: 500 })
+  }
+}
+
+// POST /api/api-keys - Create an API key for the current workspace; the response is the only time the key is shown
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const parsed = createApiKeySchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid API key" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const key = await createApiKey(access, parsed.data)
+
+    await recordAudit({
+      request,
+      access,
+      action: "apiKey.create",
+      targets: { type: "apiKey", id: key._id },
+      details: { name: key.name, scopes: key.scopes },
+    })
+
+    return NextResponse.json(key, { status: 201 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating API key:", error)
+    return NextResponse.json({ error: "Failed to create API key" }, { status: 500 })
+  }
+}
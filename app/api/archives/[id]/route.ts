@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Archive, type IArchive } from "@/lib/models/Archive"
+import { archiveEntries, isArchiveExpired } from "@/lib/archives"
+import { toReadableStream, zipEntries, zipLength } from "@/lib/zip-stream"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { scopeError } from "@/lib/api-keys"
+
+// GET /api/archives/[id] - Stream the recordings of a prepared download as a ZIP, with a metadata.json manifest
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid archive ID" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    // getAccess only resolves workspaces the user is still a member of, so
+    // someone who has left the workspace can no longer fetch its archives
+    const archive = await Archive.findOne({ _id: id, owner: access.userId, workspaceId: access.workspaceId })
+    if (!archive || isArchiveExpired(archive as IArchive)) {
+      return NextResponse.json({ error: "Download link not found or expired" }, { status: 404 })
+    }
+
+    const { entries, recordingIds } = await archiveEntries(db, archive as IArchive)
+    if (entries.length === 0) {
+      return NextResponse.json({ error: "None of the recordings are available anymore" }, { status: 410 })
+    }
+
+    await recordAudit({
+      request,
+      access: { ...access, workspaceId: String(archive.workspaceId) },
+      action: "recording.download",
+      // Only what actually goes into the ZIP, not everything originally selected
+      targets: recordingIds.map((recordingId) => ({ type: "recording" as const, id: recordingId })),
+      details: { archiveId: id },
+    })
+
+    const date = new Date().toISOString().slice(0, 10)
+    return new Response(toReadableStream(zipEntries(entries)), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Length": zipLength(entries).toString(),
+        "Content-Disposition": `attachment; filename="recordings-${date}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error creating archive:", error)
+    return NextResponse.json({ error: "Failed to create archive" }, { status: 500 })
+  }
+}
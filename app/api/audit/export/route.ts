@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { auditCsv, parseAuditQuery, recordAudit } from "@/lib/audit"
+import { toReadableStream } from "@/lib/zip-stream"
+import { getAccess } from "@/lib/auth"
+import { roleError } from "@/lib/workspaces"
+
+// GET /api/audit/export - Download the current workspace's audit log as CSV, with the same filters as
+// GET /api/audit (owners only)
+export async function GET(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const parsed = parseAuditQuery(request.nextUrl.searchParams)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    // Logged before any rows are read, so an unfiltered export includes it
+    await recordAudit({
+      request,
+      access,
+      action: "audit.export",
+      targets: { type: "workspace", id: access.workspaceId },
+      details: { filters: request.nextUrl.search },
+    })
+
+    const date = new Date().toISOString().slice(0, 10)
+    return new Response(toReadableStream(auditCsv(access.workspaceId, parsed.query)), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting audit log:", error)
+    return NextResponse.json({ error: "Failed to export audit log" }, { status: 500 })
+  }
+}
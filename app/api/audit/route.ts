@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listAuditEvents, parseAuditQuery } from "@/lib/audit"
+import { getAccess } from "@/lib/auth"
+import { roleError } from "@/lib/workspaces"
+
+// GET /api/audit - The current workspace's audit log, newest first, one page at a time (owners only)
+export async function GET(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const parsed = parseAuditQuery(request.nextUrl.searchParams)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    return NextResponse.json(await listAuditEvents(access.workspaceId, parsed.query))
+  } catch (error) {
+    console.error("Error fetching audit log:", error)
+    return NextResponse.json({ error: "Failed to fetch audit log" }, { status: 500 })
+  }
+}
@@ -0,0 +1,7 @@
+import NextAuth from "next-auth"
+import { authOptions } from "@/lib/auth"
+
+// GET/POST /api/auth/* - NextAuth sign-in, sign-out and session endpoints
+const handler = NextAuth(authOptions)
+
+export { handler as GET, handler as POST }
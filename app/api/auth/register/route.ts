@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { registerUser, registrationSchema } from "@/lib/users"
+import { RequestError } from "@/lib/request-error"
+
+// POST /api/auth/register - Create an account (JSON: email, password, name); sign in afterwards
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = registrationSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request body" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const user = await registerUser(parsed.data)
+
+    return NextResponse.json(user, { status: 201 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating account:", error)
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 })
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+
+// GET /api/config - Public limits the client needs to validate recordings and uploads
+export async function GET() {
+  return NextResponse.json({ limits: config.limits })
+}
@@ -0,0 +1,114 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Folder } from "@/lib/models/Folder"
+import { RequestError } from "@/lib/request-error"
+import { deleteFolder, folderIdSchema, folderNameSchema, updateFolder } from "@/lib/folders"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError } from "@/lib/workspaces"
+
+const updateFolderSchema = z
+  .object({ name: folderNameSchema, parentId: folderIdSchema })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, "No editable fields provided")
+
+// PATCH /api/folders/[id] - Rename a folder or move it under another (parentId null for top level)
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid folder ID" }, { status: 400 })
+    }
+
+    const parsed = updateFolderSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid update" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const folder = await Folder.findOne({ _id: id, workspaceId: access.workspaceId })
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 })
+    }
+
+    const previousName = folder.name
+    const updated = await updateFolder(folder, parsed.data)
+
+    await recordAudit({
+      request,
+      access,
+      action: "folder.update",
+      targets: { type: "folder", id },
+      details: { name: updated.name, previousName, parentId: updated.parentId ? String(updated.parentId) : null },
+    })
+    return NextResponse.json({
+      _id: id,
+      name: updated.name,
+      parentId: updated.parentId ? String(updated.parentId) : null,
+    })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating folder:", error)
+    return NextResponse.json({ error: "Failed to update folder" }, { status: 500 })
+  }
+}
+
+// DELETE /api/folders/[id] - Delete a folder; its recordings and subfolders move up to its parent
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid folder ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const folder = await Folder.findOne({ _id: id, workspaceId: access.workspaceId })
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 })
+    }
+
+    await deleteFolder(folder)
+
+    await recordAudit({
+      request,
+      access,
+      action: "folder.delete",
+      targets: { type: "folder", id },
+      details: { name: folder.name },
+    })
+    return NextResponse.json({ message: "Folder deleted successfully" })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting folder:", error)
+    return NextResponse.json({ error: "Failed to delete folder" }, { status: 500 })
+  }
+}
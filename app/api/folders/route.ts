@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { createFolder, folderIdSchema, folderNameSchema, listFolders } from "@/lib/folders"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError } from "@/lib/workspaces"
+
+const createFolderSchema = z.object({ name: folderNameSchema, parentId: folderIdSchema.default(null) }).strict()
+
+// GET /api/folders - List all folders (flat, linked by parentId) with recording counts
+export async function GET() {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    return NextResponse.json(await listFolders(access.workspaceId))
+  } catch (error) {
+    console.error("Error fetching folders:", error)
+    return NextResponse.json({ error: "Failed to fetch folders" }, { status: 500 })
+  }
+}
+
+// POST /api/folders - Create a folder, optionally inside another
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const parsed = createFolderSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid folder" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const folder = await createFolder(access.workspaceId, parsed.data.name, parsed.data.parentId)
+
+    await recordAudit({
+      request,
+      access,
+      action: "folder.create",
+      targets: { type: "folder", id: String(folder._id) },
+      details: { name: folder.name, parentId: parsed.data.parentId },
+    })
+    return NextResponse.json(
+      { _id: String(folder._id), name: folder.name, parentId: parsed.data.parentId, count: 0 },
+      { status: 201 },
+    )
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating folder:", error)
+    return NextResponse.json({ error: "Failed to create folder" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { WORKSPACE_COOKIE, WORKSPACE_COOKIE_OPTIONS, acceptInvite, describeInvite } from "@/lib/workspaces"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+// GET /api/invites/[token] - The workspace and role an invite is for
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    return NextResponse.json(await describeInvite(params.token, userId))
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error reading invite:", error)
+    return NextResponse.json({ error: "Failed to read invite" }, { status: 500 })
+  }
+}
+
+// POST /api/invites/[token] - Join the invite's workspace and switch to it; the invite can't be used again
+export async function POST(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const { workspaceId, joined } = await acceptInvite(params.token, userId)
+
+    if (joined) {
+      await recordAudit({
+        request,
+        access: { workspaceId, userId },
+        action: "member.join",
+        targets: { type: "user", id: userId },
+        details: joined,
+      })
+    }
+
+    const response = NextResponse.json({ workspaceId })
+    response.cookies.set(WORKSPACE_COOKIE, workspaceId, WORKSPACE_COOKIE_OPTIONS)
+    return response
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error accepting invite:", error)
+    return NextResponse.json({ error: "Failed to accept invite" }, { status: 500 })
+  }
+}
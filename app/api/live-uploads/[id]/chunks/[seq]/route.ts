@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { LiveUpload } from "@/lib/models/LiveUpload"
+import { RequestError } from "@/lib/request-error"
+import { storeLiveChunk } from "@/lib/live-uploads"
+import { config } from "@/lib/config"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+
+// PUT /api/live-uploads/[id]/chunks/[seq] - Store one recorder timeslice (idempotent)
+export async function PUT(request: NextRequest, { params }: { params: { id: string; seq: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+    const seq = Number(params.seq)
+
+    if (!ObjectId.isValid(id) || !Number.isInteger(seq) || seq < 0) {
+      return NextResponse.json({ error: "Invalid upload ID or chunk number" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const upload = await LiveUpload.findOne({ _id: id, owner: userId })
+    if (!upload) {
+      return NextResponse.json({ error: "Live upload not found or expired" }, { status: 404 })
+    }
+    if (upload.status !== "recording") {
+      return NextResponse.json({ error: "Live upload is already finalized" }, { status: 409 })
+    }
+    if (!request.body) {
+      return NextResponse.json({ error: "Empty chunk" }, { status: 400 })
+    }
+
+    // The size limit applies to the whole recording, not each chunk
+    const created = await storeLiveChunk(db, upload, seq, request.body, config.limits.maxFileSize)
+
+    return NextResponse.json({ seq, duplicate: !created }, { status: created ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error storing live upload chunk:", error)
+    return NextResponse.json({ error: "Failed to store chunk" }, { status: 500 })
+  }
+}
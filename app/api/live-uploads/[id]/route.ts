@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { LiveUpload } from "@/lib/models/LiveUpload"
+import { RequestError } from "@/lib/request-error"
+import { discardLiveUpload, finalizeLiveUpload, findMissingChunks } from "@/lib/live-uploads"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+// POST /api/live-uploads/[id] - Assemble the received chunks into a recording
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid upload ID" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const chunkCount = Number(body?.chunkCount)
+
+    if (!Number.isInteger(chunkCount) || chunkCount <= 0) {
+      return NextResponse.json({ error: "chunkCount must be a positive integer" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const upload = await LiveUpload.findOne({ _id: id, owner: userId })
+    if (!upload) {
+      return NextResponse.json({ error: "Live upload not found or expired" }, { status: 404 })
+    }
+
+    if (upload.status === "recording") {
+      // Chunks may still be in flight; tell the client exactly which to (re)send
+      const missing = await findMissingChunks(db, upload, chunkCount)
+      if (missing.length > 0) {
+        return NextResponse.json({ error: "Upload is missing chunks", missing }, { status: 409 })
+      }
+    }
+
+    const finalized = upload.status === "complete"
+    const recordingId = await finalizeLiveUpload(db, upload, chunkCount)
+
+    // Retried finalize requests don't upload anything new
+    if (!finalized) {
+      await recordAudit({
+        request,
+        access: { workspaceId: String(upload.workspaceId), userId },
+        action: "recording.upload",
+        targets: { type: "recording", id: recordingId },
+        details: { title: upload.title, live: true },
+      })
+    }
+
+    return NextResponse.json({
+      message: "Recording uploaded successfully",
+      id: recordingId,
+      url: `/api/recordings/${recordingId}`,
+    })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error finalizing live upload:", error)
+    return NextResponse.json({ error: "Failed to finalize live upload" }, { status: 500 })
+  }
+}
+
+// DELETE /api/live-uploads/[id] - Abandon a live upload and its staged chunks
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid upload ID" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const upload = await LiveUpload.findOne({ _id: id, owner: userId })
+    if (!upload) {
+      return NextResponse.json({ error: "Live upload not found or expired" }, { status: 404 })
+    }
+
+    // Another request is assembling the chunks, or already has
+    if (upload.status !== "recording") {
+      return NextResponse.json({ error: "Live upload is already being finalized" }, { status: 409 })
+    }
+
+    await discardLiveUpload(db, upload)
+
+    return NextResponse.json({ message: "Live upload cancelled" })
+  } catch (error) {
+    console.error("Error cancelling live upload:", error)
+    return NextResponse.json({ error: "Failed to cancel live upload" }, { status: 500 })
+  }
+}
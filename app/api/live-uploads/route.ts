@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { LiveUpload } from "@/lib/models/LiveUpload"
+import { LIVE_UPLOAD_TTL_MS, purgeExpiredLiveUploads } from "@/lib/live-uploads"
+import { config } from "@/lib/config"
+import { isAllowedMimeType } from "@/lib/limits"
+import { getAccess } from "@/lib/auth"
+import { roleError } from "@/lib/workspaces"
+import { uploadTitleSchema } from "@/lib/recording-updates"
+
+// POST /api/live-uploads - Start streaming a recording while it is being made
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+
+    const title = uploadTitleSchema.safeParse(body.title ?? undefined)
+    if (!title.success) {
+      return NextResponse.json({ error: title.error.issues[0]?.message ?? "Invalid title" }, { status: 400 })
+    }
+
+    const contentType = String(body.contentType || "")
+
+    // Validate file type
+    if (!isAllowedMimeType(contentType, config.limits)) {
+      return NextResponse.json(
+        { error: "Invalid file type. Only supported video formats are allowed." },
+        { status: 400 },
+      )
+    }
+
+    const { db } = await connectToDatabase()
+
+    // Opportunistically garbage-collect abandoned sessions
+    purgeExpiredLiveUploads(db).catch((error) => console.error("Error purging live uploads:", error))
+
+    const upload = await LiveUpload.create({
+      workspaceId: access.workspaceId,
+      owner: access.userId,
+      title: title.data || `Recording ${new Date().toLocaleString()}`,
+      contentType,
+      expiresAt: new Date(Date.now() + LIVE_UPLOAD_TTL_MS),
+    })
+
+    return NextResponse.json(
+      {
+        id: upload._id.toString(),
+        expiresAt: upload.expiresAt,
+      },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("Error creating live upload:", error)
+    return NextResponse.json({ error: "Failed to start live upload" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { restoreFromTrash } from "@/lib/trash"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+
+// POST /api/recordings/[id]/restore - Take a recording back out of the trash
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    if (!(await restoreFromTrash(access.workspaceId, id))) {
+      const exists = await Recording.exists({ _id: id, workspaceId: access.workspaceId })
+      return exists
+        ? NextResponse.json({ error: "Recording is not in the trash" }, { status: 409 })
+        : NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    await recordAudit({ request, access, action: "recording.restore", targets: { type: "recording", id } })
+
+    return NextResponse.json({ message: "Recording restored" })
+  } catch (error) {
+    console.error("Error restoring recording:", error)
+    return NextResponse.json({ error: "Failed to restore recording" }, { status: 500 })
+  }
+}
@@ -1,11 +1,29 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Recording } from "@/lib/models/Recording"
-import { GridFSBucket, ObjectId } from "mongodb"
+import { describeUpdateError, recordingUpdateSchema } from "@/lib/recording-updates"
+import { RequestError } from "@/lib/request-error"
+import { resolveTags } from "@/lib/tags"
+import { requireFolder } from "@/lib/folders"
+import { moveToTrash, purgeTrash } from "@/lib/trash"
+import { streamRecording } from "@/lib/recording-stream"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { isNewView, recordAudit } from "@/lib/audit"
 
 // GET /api/recordings/[id] - Stream individual recording
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
     const { id } = params
 
     if (!ObjectId.isValid(id)) {
@@ -14,96 +32,129 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
 
     const { db } = await connectToDatabase()
 
-    // Find recording metadata
-    const recording = await Recording.findById(id)
+    // Find recording metadata; trashed recordings can only be restored
+    const recording = await Recording.findOne({ _id: id, workspaceId: access.workspaceId, deletedAt: null })
     if (!recording) {
       return NextResponse.json({ error: "Recording not found" }, { status: 404 })
     }
 
-    // Create GridFS bucket
-    const bucket = new GridFSBucket(db, { bucketName: "recordings" })
-
-    // Check if file exists in GridFS
-    const files = await bucket.find({ _id: recording.fileId }).toArray()
-    if (files.length === 0) {
+    const range = request.headers.get("range")
+    const response = await streamRecording(db, recording, range)
+    if (!response) {
       return NextResponse.json({ error: "Recording file not found" }, { status: 404 })
     }
 
-    const file = files[0]
-
-    // Handle range requests for video streaming
-    const range = request.headers.get("range")
-
-    if (range) {
-      const parts = range.replace(/bytes=/, "").split("-")
-      const start = Number.parseInt(parts[0], 10)
-      const end = parts[1] ? Number.parseInt(parts[1], 10) : file.length - 1
-      const chunksize = end - start + 1
-
-      // Create download stream with range
-      const downloadStream = bucket.openDownloadStream(recording.fileId, {
-        start,
-        end: end + 1,
-      })
-
-      const headers = new Headers({
-        "Content-Range": `bytes ${start}-${end}/${file.length}`,
-        "Accept-Ranges": "bytes",
-        "Content-Length": chunksize.toString(),
-        "Content-Type": recording.contentType || "video/webm",
-      })
-
-      return new Response(downloadStream as any, {
-        status: 206,
-        headers,
-      })
-    } else {
-      // Full file download
-      const downloadStream = bucket.openDownloadStream(recording.fileId)
-
-      const headers = new Headers({
-        "Content-Length": file.length.toString(),
-        "Content-Type": recording.contentType || "video/webm",
-        "Content-Disposition": `inline; filename="${recording.filename}"`,
-      })
-
-      return new Response(downloadStream as any, {
-        status: 200,
-        headers,
-      })
+    if (isNewView(range)) {
+      await recordAudit({ request, access, action: "recording.view", targets: { type: "recording", id } })
     }
+    return response
   } catch (error) {
     console.error("Error streaming recording:", error)
     return NextResponse.json({ error: "Failed to stream recording" }, { status: 500 })
   }
 }
 
-// DELETE /api/recordings/[id] - Delete recording
-export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+// PATCH /api/recordings/[id] - Update editable metadata (title, description, transcript, tags, folder)
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
     const { id } = params
 
     if (!ObjectId.isValid(id)) {
       return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
     }
 
-    const { db } = await connectToDatabase()
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
 
-    // Find recording
-    const recording = await Recording.findById(id)
+    const parsed = recordingUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: describeUpdateError(parsed.error) }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { tags, folderId, ...fields } = parsed.data
+    const update: Record<string, unknown> = { ...fields }
+    // New tag names are created on the fly, so typing one in is enough to add it
+    if (tags) update.tags = await resolveTags(access.workspaceId, tags)
+    if (folderId !== undefined) update.folderId = await requireFolder(access.workspaceId, folderId)
+
+    const recording = await Recording.findOneAndUpdate(
+      { _id: id, workspaceId: access.workspaceId, deletedAt: null },
+      { $set: update },
+      { new: true, runValidators: true },
+    )
+      .select("title description tags folderId updatedAt")
+      .lean()
     if (!recording) {
       return NextResponse.json({ error: "Recording not found" }, { status: 404 })
     }
 
-    // Delete file from GridFS
-    const bucket = new GridFSBucket(db, { bucketName: "recordings" })
-    await bucket.delete(recording.fileId)
+    await recordAudit({
+      request,
+      access,
+      action: "recording.update",
+      targets: { type: "recording", id },
+      details: { fields: Object.keys(parsed.data) },
+    })
+
+    return NextResponse.json({ ...recording, _id: id })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating recording:", error)
+    return NextResponse.json({ error: "Failed to update recording" }, { status: 500 })
+  }
+}
+
+// DELETE /api/recordings/[id] - Move a recording to the trash (see /api/trash)
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "delete")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    if (!(await moveToTrash(access.workspaceId, id))) {
+      const exists = await Recording.exists({ _id: id, workspaceId: access.workspaceId })
+      return exists
+        ? NextResponse.json({ error: "Recording is already in the trash" }, { status: 409 })
+        : NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    await recordAudit({ request, access, action: "recording.delete", targets: { type: "recording", id } })
 
-    // Delete recording metadata
-    await Recording.findByIdAndDelete(id)
+    // Opportunistically clear out recordings past the retention period
+    purgeTrash({ expiredOnly: true }).catch((error) => console.error("Error purging trash:", error))
 
     return NextResponse.json({
-      message: "Recording deleted successfully",
+      message: "Recording moved to trash",
     })
   } catch (error) {
     console.error("Error deleting recording:", error)
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { revokeShareLink } from "@/lib/share-links"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+
+// DELETE /api/recordings/[id]/shares/[shareId] - Revoke a share link; it stops working immediately
+export async function DELETE(request: NextRequest, { params }: { params: { id: string; shareId: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id, shareId } = params
+
+    if (!ObjectId.isValid(id) || !ObjectId.isValid(shareId)) {
+      return NextResponse.json({ error: "Invalid recording or share link ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    if (!(await revokeShareLink(access.workspaceId, id, shareId))) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 })
+    }
+
+    await recordAudit({
+      request,
+      access,
+      action: "share.revoke",
+      targets: { type: "share", id: shareId },
+      details: { recordingId: id },
+    })
+
+    return NextResponse.json({ message: "Share link revoked" })
+  } catch (error) {
+    console.error("Error revoking share link:", error)
+    return NextResponse.json({ error: "Failed to revoke share link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { createShareLink, createShareLinkSchema, listShareLinks } from "@/lib/share-links"
+import { describeQueryError } from "@/lib/recording-query"
+import { RequestError } from "@/lib/request-error"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+
+// GET /api/recordings/[id]/shares - List a recording's share links, newest first
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    return NextResponse.json(await listShareLinks(access.workspaceId, id))
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching share links:", error)
+    return NextResponse.json({ error: "Failed to fetch share links" }, { status: 500 })
+  }
+}
+
+// POST /api/recordings/[id]/shares - Create a share link (JSON: expiresAt, password, maxViews; all optional)
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    const parsed = createShareLinkSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: describeQueryError(parsed.error) }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const link = await createShareLink(access, id, parsed.data)
+
+    await recordAudit({
+      request,
+      access,
+      action: "share.create",
+      targets: { type: "share", id: link._id },
+      details: {
+        recordingId: id,
+        expiresAt: link.expiresAt,
+        hasPassword: link.hasPassword,
+        maxViews: link.maxViews,
+      },
+    })
+
+    return NextResponse.json(link, { status: 201 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating share link:", error)
+    return NextResponse.json({ error: "Failed to create share link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { ensureStoryboard } from "@/lib/storyboards"
+import { formatStoryboardVtt } from "@/lib/storyboard-vtt"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+
+// GET /api/recordings/[id]/storyboard - WebVTT thumbnails track for the storyboard sprite
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const recording = await Recording.findOne({ _id: id, workspaceId: access.workspaceId, deletedAt: null })
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    const storyboard = await ensureStoryboard(db, recording)
+    if (!storyboard) {
+      return NextResponse.json({ error: "Storyboard not available" }, { status: 404 })
+    }
+
+    // The sprite URL carries its file ID so a regenerated sprite is never served from cache
+    const etag = `"${storyboard.fileId.toString()}"`
+    const cacheHeaders = { ETag: etag, "Cache-Control": "private, max-age=300" }
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers: cacheHeaders })
+    }
+
+    const spriteUrl = `/api/recordings/${id}/storyboard/sprite?v=${storyboard.fileId.toString()}`
+    return new Response(formatStoryboardVtt(storyboard, recording.duration, spriteUrl), {
+      status: 200,
+      headers: { ...cacheHeaders, "Content-Type": "text/vtt; charset=utf-8" },
+    })
+  } catch (error) {
+    console.error("Error serving storyboard:", error)
+    return NextResponse.json({ error: "Failed to load storyboard" }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { ensureStoryboard } from "@/lib/storyboards"
+import { THUMBNAIL_BUCKET } from "@/lib/thumbnails"
+import { GridFSBucket, ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+
+// GET /api/recordings/[id]/storyboard/sprite - Storyboard sprite sheet (JPEG)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const recording = await Recording.findOne({ _id: id, workspaceId: access.workspaceId })
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    const storyboard = await ensureStoryboard(db, recording)
+    const bucket = new GridFSBucket(db, { bucketName: THUMBNAIL_BUCKET })
+    const file = storyboard ? await bucket.find({ _id: storyboard.fileId }).next() : null
+    if (!file) {
+      return NextResponse.json({ error: "Storyboard not available" }, { status: 404 })
+    }
+
+    const etag = `"${file._id.toString()}"`
+    // Links from the VTT track are versioned with ?v=<file ID> and never change
+    const versioned = request.nextUrl.searchParams.get("v") === file._id.toString()
+    const cacheHeaders = {
+      ETag: etag,
+      "Cache-Control": versioned ? "private, max-age=31536000, immutable" : "private, max-age=300",
+    }
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers: cacheHeaders })
+    }
+
+    return new Response(bucket.openDownloadStream(file._id) as any, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": file.metadata?.contentType || "image/jpeg",
+        "Content-Length": file.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error("Error serving storyboard sprite:", error)
+    return NextResponse.json({ error: "Failed to load storyboard" }, { status: 500 })
+  }
+}
@@ -0,0 +1,138 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Recording } from "@/lib/models/Recording"
+import {
+  MAX_THUMBNAIL_SIZE,
+  THUMBNAIL_BUCKET,
+  THUMBNAIL_TYPES,
+  generateThumbnail,
+  storeThumbnail,
+} from "@/lib/thumbnails"
+import { GridFSBucket, ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+import { readBody } from "@/lib/request-body"
+import { RequestError } from "@/lib/request-error"
+
+// GET /api/recordings/[id]/thumbnail - Poster image, generated on first request if missing
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const recording = await Recording.findOne({ _id: id, workspaceId: access.workspaceId })
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    const thumbnailId = recording.thumbnailId ?? (await generateThumbnail(db, recording))
+    if (!thumbnailId) {
+      return NextResponse.json({ error: "Thumbnail not available" }, { status: 404 })
+    }
+
+    const bucket = new GridFSBucket(db, { bucketName: THUMBNAIL_BUCKET })
+    const file = await bucket.find({ _id: thumbnailId }).next()
+    if (!file) {
+      return NextResponse.json({ error: "Thumbnail not available" }, { status: 404 })
+    }
+
+    // A replaced thumbnail gets a new file ID, so the ID doubles as an ETag
+    const etag = `"${file._id.toString()}"`
+    const cacheHeaders = { ETag: etag, "Cache-Control": "private, max-age=300" }
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers: cacheHeaders })
+    }
+
+    return new Response(bucket.openDownloadStream(file._id) as any, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": file.metadata?.contentType || "image/jpeg",
+        "Content-Length": file.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error("Error serving thumbnail:", error)
+    return NextResponse.json({ error: "Failed to load thumbnail" }, { status: 500 })
+  }
+}
+
+// PUT /api/recordings/[id]/thumbnail - Upload a poster image captured by the client
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    const contentType = request.headers.get("content-type")?.split(";")[0].trim() ?? ""
+    if (!THUMBNAIL_TYPES.includes(contentType)) {
+      return NextResponse.json({ error: "Thumbnail must be a JPEG, PNG or WebP image" }, { status: 415 })
+    }
+
+    const declaredLength = Number(request.headers.get("content-length"))
+    if (declaredLength > MAX_THUMBNAIL_SIZE) {
+      return NextResponse.json({ error: "Thumbnail too large. Maximum size is 2MB." }, { status: 413 })
+    }
+
+    const data = request.body
+      ? await readBody(request.body, MAX_THUMBNAIL_SIZE, "Thumbnail too large. Maximum size is 2MB.")
+      : Buffer.alloc(0)
+    if (data.length === 0) {
+      return NextResponse.json({ error: "Empty thumbnail" }, { status: 400 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const recording = await Recording.findOne({ _id: id, workspaceId: access.workspaceId, deletedAt: null })
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    const thumbnailId = await storeThumbnail(db, recording, data, contentType)
+    if (!thumbnailId) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    await recordAudit({
+      request,
+      access,
+      action: "recording.update",
+      targets: { type: "recording", id },
+      details: { fields: ["thumbnail"] },
+    })
+
+    return NextResponse.json({ url: `/api/recordings/${id}/thumbnail` }, { status: 201 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error storing thumbnail:", error)
+    return NextResponse.json({ error: "Failed to store thumbnail" }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { bulkRequestSchema, runBulkAction, type BulkAction } from "@/lib/recording-bulk"
+import { describeQueryError } from "@/lib/recording-query"
+import { RequestError } from "@/lib/request-error"
+import { purgeTrash } from "@/lib/trash"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { recordAudit, type AuditAction } from "@/lib/audit"
+
+// How each action shows up in the audit log; downloads are logged when the
+// archive is fetched
+const AUDIT_EVENTS: Partial<Record<BulkAction, { action: AuditAction; details: Record<string, unknown> }>> = {
+  delete: { action: "recording.delete", details: { bulk: true } },
+  restore: { action: "recording.restore", details: { bulk: true } },
+  tag: { action: "recording.update", details: { bulk: true, fields: ["tags"] } },
+  move: { action: "recording.update", details: { bulk: true, fields: ["folderId"] } },
+}
+
+// POST /api/recordings/bulk - Delete, restore, tag, move or download many recordings at once
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+
+    const parsed = bulkRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: describeQueryError(parsed.error) }, { status: 400 })
+    }
+
+    // Downloading only reads the recordings; moving them to the trash needs the delete scope
+    const { action } = parsed.data
+    const denied = scopeError(access, action === "download" ? "read" : action === "delete" ? "delete" : "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    await connectToDatabase()
+
+    const response = await runBulkAction(access, parsed.data)
+
+    const audit = AUDIT_EVENTS[response.action]
+    if (audit) {
+      const targets = response.results
+        .filter((result) => result.ok)
+        .map((result) => ({ type: "recording" as const, id: result.id }))
+      await recordAudit({ request, access, ...audit, targets })
+    }
+
+    if (response.action === "delete" && response.succeeded > 0) {
+      // Opportunistically clear out recordings past the retention period
+      purgeTrash({ expiredOnly: true }).catch((error) => console.error("Error purging trash:", error))
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error running bulk action:", error)
+    return NextResponse.json({ error: "Failed to run bulk action" }, { status: 500 })
+  }
+}
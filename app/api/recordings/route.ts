@@ -1,27 +1,39 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Recording } from "@/lib/models/Recording"
-import { GridFSBucket, type ObjectId } from "mongodb"
-import { Readable } from "stream"
-
-// GET /api/recordings - List all recordings
-export async function GET() {
+import { streamMultipartToGridFS } from "@/lib/multipart-upload"
+import { RequestError } from "@/lib/request-error"
+import { videoExtension } from "@/lib/utils"
+import { config } from "@/lib/config"
+import { isAllowedMimeType } from "@/lib/limits"
+import { inspectStoredRecording, remuxStoredRecording } from "@/lib/recording-processing"
+import { listRecordings, parseListQuery } from "@/lib/recording-query"
+import { uploadTitleSchema } from "@/lib/recording-updates"
+import { GridFSBucket } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+
+// GET /api/recordings - List recordings, one page at a time (see lib/recording-query.ts for parameters)
+export async function GET(request: NextRequest) {
   try {
-    await connectToDatabase()
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
 
-    const recordings = await Recording.find()
-      .sort({ createdAt: -1 })
-      .select("title filename size duration createdAt")
-      .lean()
+    const parsed = parseListQuery(request.nextUrl.searchParams)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
 
-    // Add URL for each recording
-    const recordingsWithUrls = recordings.map((recording) => ({
-      ...recording,
-      _id: recording._id.toString(),
-      url: `/api/recordings/${recording._id.toString()}`,
-    }))
+    await connectToDatabase()
 
-    return NextResponse.json(recordingsWithUrls)
+    return NextResponse.json(await listRecordings(access.workspaceId, parsed.query))
   } catch (error) {
     console.error("Error fetching recordings:", error)
     return NextResponse.json({ error: "Failed to fetch recordings" }, { status: 500 })
@@ -31,25 +43,13 @@ export async function GET() {
 // POST /api/recordings - Upload new recording
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData()
-    const file = formData.get("recording") as File
-    const title = formData.get("title") as string
-    const duration = Number.parseInt(formData.get("duration") as string)
-    const size = Number.parseInt(formData.get("size") as string)
-
-    if (!file) {
-      return NextResponse.json({ error: "No file provided" }, { status: 400 })
-    }
-
-    // Validate file type
-    if (!file.type.startsWith("video/")) {
-      return NextResponse.json({ error: "Invalid file type. Only video files are allowed." }, { status: 400 })
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
     }
-
-    // Validate file size (max 100MB)
-    const maxSize = 100 * 1024 * 1024 // 100MB
-    if (file.size > maxSize) {
-      return NextResponse.json({ error: "File too large. Maximum size is 100MB." }, { status: 400 })
+    const denied = scopeError(access, "write")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
     }
 
     const { db } = await connectToDatabase()
@@ -59,52 +59,64 @@ export async function POST(request: NextRequest) {
 
     // Generate unique filename
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
-    const filename = `recording-${timestamp}.webm`
-
-    // Convert File to Buffer
-    const arrayBuffer = await file.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    // Upload file to GridFS
-    const uploadStream = bucket.openUploadStream(filename, {
-      metadata: {
-        originalName: file.name,
-        contentType: file.type,
-        uploadDate: new Date(),
-      },
-    })
-
-    const readable = new Readable()
-    readable.push(buffer)
-    readable.push(null)
-
-    // Upload the file
-    const fileId = await new Promise<ObjectId>((resolve, reject) => {
-      readable
-        .pipe(uploadStream)
-        .on("error", reject)
-        .on("finish", () => resolve(uploadStream.id as ObjectId))
-    })
 
-    // Save recording metadata to database
-    const recording = new Recording({
-      title: title || `Recording ${new Date().toLocaleString()}`,
-      filename,
-      fileId,
-      size: file.size,
-      duration: duration || 0,
-      contentType: file.type,
-      createdAt: new Date(),
+    // Stream the file part into GridFS as it arrives
+    const { limits } = config
+    const upload = await streamMultipartToGridFS(request, bucket, {
+      fileField: "recording",
+      filenameFor: (contentType) => `recording-${timestamp}.${videoExtension(contentType)}`,
+      maxSize: limits.maxFileSize,
+      acceptType: (contentType) => isAllowedMimeType(contentType, limits),
     })
 
-    await recording.save()
-
-    return NextResponse.json({
-      message: "Recording uploaded successfully",
-      id: recording._id.toString(),
-      url: `/api/recordings/${recording._id.toString()}`,
-    })
+    const title = uploadTitleSchema.safeParse(upload.fields.title)
+    let stored = { fileId: upload.fileId, size: upload.size }
+
+    try {
+      if (!title.success) {
+        throw new RequestError(title.error.issues[0]?.message ?? "Invalid title")
+      }
+
+      stored = await remuxStoredRecording(bucket, stored)
+
+      // The file itself is authoritative for the duration
+      const media = await inspectStoredRecording(bucket, stored.fileId, stored.size)
+
+      // Save recording metadata to database
+      const recording = new Recording({
+        workspaceId: access.workspaceId,
+        owner: access.userId,
+        title: title.data || `Recording ${new Date().toLocaleString()}`,
+        filename: upload.filename,
+        fileId: stored.fileId,
+        size: stored.size,
+        ...media,
+        contentType: upload.contentType,
+        createdAt: new Date(),
+      })
+      await recording.save()
+
+      await recordAudit({
+        request,
+        access,
+        action: "recording.upload",
+        targets: { type: "recording", id: recording._id.toString() },
+        details: { title: recording.title, size: recording.size },
+      })
+
+      return NextResponse.json({
+        message: "Recording uploaded successfully",
+        id: recording._id.toString(),
+        url: `/api/recordings/${recording._id.toString()}`,
+      })
+    } catch (error) {
+      await bucket.delete(stored.fileId).catch(() => {})
+      throw error
+    }
   } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error uploading recording:", error)
     return NextResponse.json({ error: "Failed to upload recording" }, { status: 500 })
   }
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { parseSearchQuery, searchRecordings } from "@/lib/recording-search"
+import { getAccess } from "@/lib/auth"
+import { scopeError } from "@/lib/api-keys"
+
+// GET /api/recordings/search - Ranked full-text search with highlighted snippets
+export async function GET(request: NextRequest) {
+  try {
+    const access = await getAccess({ apiKeys: true })
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = scopeError(access, "read")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const parsed = parseSearchQuery(request.nextUrl.searchParams)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    return NextResponse.json(await searchRecordings(access.workspaceId, parsed.query))
+  } catch (error) {
+    console.error("Error searching recordings:", error)
+    return NextResponse.json({ error: "Failed to search recordings" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { describeShareLink, openShareLink } from "@/lib/share-links"
+import { RequestError } from "@/lib/request-error"
+import { recordAudit } from "@/lib/audit"
+
+// Public: share links work without an account (see middleware.ts)
+
+// GET /api/share/[token] - Title of a shared recording and whether the link needs a password
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    await connectToDatabase()
+
+    return NextResponse.json(await describeShareLink(params.token), { headers: { "Cache-Control": "no-store" } })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error reading share link:", error)
+    return NextResponse.json({ error: "Failed to read share link" }, { status: 500 })
+  }
+}
+
+// POST /api/share/[token] - Open a share link (JSON: password, if it has one); counts a view and returns a stream URL
+export async function POST(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const body = await request.json().catch(() => null)
+    const password = typeof body?.password === "string" && body.password !== "" ? body.password : null
+
+    await connectToDatabase()
+
+    const { share, view } = await openShareLink(params.token, password)
+
+    // Share link visitors aren't signed in, so the event has no actor
+    await recordAudit({
+      request,
+      access: { workspaceId: view.workspaceId },
+      action: "recording.view",
+      targets: { type: "recording", id: view.recordingId },
+      details: { shareId: view.shareId },
+    })
+
+    return NextResponse.json(share, { headers: { "Cache-Control": "no-store" } })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error opening share link:", error)
+    return NextResponse.json({ error: "Failed to open share link" }, { status: 500 })
+  }
+}
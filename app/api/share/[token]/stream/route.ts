@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { sharedRecording } from "@/lib/share-links"
+import { streamRecording } from "@/lib/recording-stream"
+import { RequestError } from "@/lib/request-error"
+
+// GET /api/share/[token]/stream?access= - Stream a shared recording, using the URL handed out when the link was opened
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const { db } = await connectToDatabase()
+
+    const recording = await sharedRecording(params.token, request.nextUrl.searchParams.get("access") ?? "")
+
+    const response = await streamRecording(db, recording, request.headers.get("range"))
+    if (!response) {
+      return NextResponse.json({ error: "Recording file not found" }, { status: 404 })
+    }
+    return response
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error streaming shared recording:", error)
+    return NextResponse.json({ error: "Failed to stream recording" }, { status: 500 })
+  }
+}
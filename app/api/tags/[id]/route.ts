@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Tag } from "@/lib/models/Tag"
+import { RequestError } from "@/lib/request-error"
+import { deleteTag, tagColorSchema, tagNameSchema, updateTag } from "@/lib/tags"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError } from "@/lib/workspaces"
+
+const updateTagSchema = z
+  .object({ name: tagNameSchema, color: tagColorSchema })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, "No editable fields provided")
+
+// PATCH /api/tags/[id] - Rename or recolor a tag; a rename applies to every recording with it
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid tag ID" }, { status: 400 })
+    }
+
+    const parsed = updateTagSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid update" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const tag = await Tag.findOne({ _id: id, workspaceId: access.workspaceId })
+    if (!tag) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 })
+    }
+
+    const previousName = tag.name
+    const updated = await updateTag(tag, parsed.data)
+
+    await recordAudit({
+      request,
+      access,
+      action: "tag.update",
+      targets: { type: "tag", id },
+      details: { name: updated.name, previousName, color: updated.color },
+    })
+    return NextResponse.json({ _id: id, name: updated.name, color: updated.color })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating tag:", error)
+    return NextResponse.json({ error: "Failed to update tag" }, { status: 500 })
+  }
+}
+
+// DELETE /api/tags/[id] - Delete a tag and remove it from all recordings
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid tag ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const tag = await Tag.findOne({ _id: id, workspaceId: access.workspaceId })
+    if (!tag) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 })
+    }
+
+    await deleteTag(tag)
+
+    await recordAudit({
+      request,
+      access,
+      action: "tag.delete",
+      targets: { type: "tag", id },
+      details: { name: tag.name },
+    })
+    return NextResponse.json({ message: "Tag deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting tag:", error)
+    return NextResponse.json({ error: "Failed to delete tag" }, { status: 500 })
+  }
+}
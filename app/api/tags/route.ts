@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { createTag, listTags, tagColorSchema, tagNameSchema } from "@/lib/tags"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError } from "@/lib/workspaces"
+
+const createTagSchema = z.object({ name: tagNameSchema, color: tagColorSchema.optional() }).strict()
+
+// GET /api/tags - List tags with usage counts; ?q= filters by name prefix for autocomplete
+export async function GET(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const prefix = request.nextUrl.searchParams.get("q")?.trim()
+    return NextResponse.json(await listTags(access.workspaceId, prefix || undefined))
+  } catch (error) {
+    console.error("Error fetching tags:", error)
+    return NextResponse.json({ error: "Failed to fetch tags" }, { status: 500 })
+  }
+}
+
+// POST /api/tags - Create a tag
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const parsed = createTagSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid tag" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const tag = await createTag(access.workspaceId, parsed.data.name, parsed.data.color)
+
+    await recordAudit({
+      request,
+      access,
+      action: "tag.create",
+      targets: { type: "tag", id: String(tag._id) },
+      details: { name: tag.name },
+    })
+    return NextResponse.json({ _id: String(tag._id), name: tag.name, color: tag.color, count: 0 }, { status: 201 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating tag:", error)
+    return NextResponse.json({ error: "Failed to create tag" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { deleteForever } from "@/lib/trash"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError } from "@/lib/workspaces"
+
+// DELETE /api/trash/[id] - Permanently delete a trashed recording and its files
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid recording ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    if (!(await deleteForever(access.workspaceId, id))) {
+      const exists = await Recording.exists({ _id: id, workspaceId: access.workspaceId })
+      return exists
+        ? NextResponse.json({ error: "Recording is not in the trash" }, { status: 409 })
+        : NextResponse.json({ error: "Recording not found" }, { status: 404 })
+    }
+
+    await recordAudit({ request, access, action: "recording.purge", targets: { type: "recording", id } })
+
+    return NextResponse.json({ message: "Recording deleted permanently" })
+  } catch (error) {
+    console.error("Error deleting recording:", error)
+    return NextResponse.json({ error: "Failed to delete recording" }, { status: 500 })
+  }
+}
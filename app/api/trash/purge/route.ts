@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { purgeTrash } from "@/lib/trash"
+
+// GET /api/trash/purge - Permanently delete recordings past the retention period.
+// Run daily by the Vercel cron in vercel.json; when CRON_SECRET is set, requests
+// must carry it as a bearer token (Vercel sends it automatically).
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const purged = await purgeTrash({ expiredOnly: true })
+
+    return NextResponse.json({ purged: purged.length })
+  } catch (error) {
+    console.error("Error purging trash:", error)
+    return NextResponse.json({ error: "Failed to purge trash" }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { config } from "@/lib/config"
+import { listTrash, purgeTrash } from "@/lib/trash"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError } from "@/lib/workspaces"
+
+// GET /api/trash - List trashed recordings, most recently deleted first, with when each will be purged
+export async function GET() {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    // Purge first so nothing past the retention period is listed
+    await purgeTrash({ expiredOnly: true })
+
+    return NextResponse.json({
+      recordings: await listTrash(access.workspaceId),
+      retentionDays: config.trashRetentionDays,
+    })
+  } catch (error) {
+    console.error("Error fetching trash:", error)
+    return NextResponse.json({ error: "Failed to fetch trash" }, { status: 500 })
+  }
+}
+
+// DELETE /api/trash - Empty the trash, permanently deleting every recording in it
+export async function DELETE(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    await connectToDatabase()
+
+    const deleted = await purgeTrash({ expiredOnly: false, workspaceId: access.workspaceId })
+
+    await recordAudit({
+      request,
+      access,
+      action: "recording.purge",
+      targets: deleted.map((id) => ({ type: "recording" as const, id })),
+      details: { reason: "emptyTrash" },
+    })
+
+    return NextResponse.json({ message: "Trash emptied", deleted: deleted.length })
+  } catch (error) {
+    console.error("Error emptying trash:", error)
+    return NextResponse.json({ error: "Failed to empty trash" }, { status: 500 })
+  }
+}
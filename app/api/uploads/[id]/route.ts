@@ -0,0 +1,171 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { UploadSession } from "@/lib/models/UploadSession"
+import { RequestError } from "@/lib/request-error"
+import { SESSION_TTL_MS, appendToSession, finalizeSession, isExpired } from "@/lib/upload-sessions"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+import { roleError, workspaceAccess } from "@/lib/workspaces"
+
+async function findSession(id: string, owner: string) {
+  if (!ObjectId.isValid(id)) return null
+  const session = await UploadSession.findOne({ _id: id, owner })
+  if (!session || isExpired(session)) return null
+  return session
+}
+
+function offsetHeaders(session: { offset: number; size: number; expiresAt: Date }) {
+  return {
+    "Upload-Offset": session.offset.toString(),
+    "Upload-Length": session.size.toString(),
+    "Upload-Expires": session.expiresAt.toUTCString(),
+    "Cache-Control": "no-store",
+  }
+}
+
+// HEAD /api/uploads/[id] - Report how many bytes the server has
+export async function HEAD(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return new NextResponse(null, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const session = await findSession(params.id, userId)
+    if (!session) {
+      return new NextResponse(null, { status: 404 })
+    }
+
+    return new NextResponse(null, { status: 200, headers: offsetHeaders(session) })
+  } catch (error) {
+    console.error("Error reading upload session:", error)
+    return new NextResponse(null, { status: 500 })
+  }
+}
+
+// PATCH /api/uploads/[id] - Append bytes at the given Upload-Offset
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const session = await findSession(params.id, userId)
+    if (!session) {
+      return NextResponse.json({ error: "Upload session not found or expired" }, { status: 404 })
+    }
+
+    if (request.headers.get("content-type") !== "application/offset+octet-stream") {
+      return NextResponse.json({ error: "Expected application/offset+octet-stream" }, { status: 415 })
+    }
+
+    const offset = Number(request.headers.get("upload-offset"))
+    if (offset !== session.offset) {
+      return NextResponse.json(
+        { error: "Upload-Offset does not match the server offset" },
+        { status: 409, headers: offsetHeaders(session) },
+      )
+    }
+
+    if (!request.body) {
+      return new NextResponse(null, { status: 204, headers: offsetHeaders(session) })
+    }
+
+    session.offset = await appendToSession(db, session, request.body)
+    session.expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+    return new NextResponse(null, { status: 204, headers: offsetHeaders(session) })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error appending to upload session:", error)
+    return NextResponse.json({ error: "Failed to store upload chunk" }, { status: 500 })
+  }
+}
+
+// POST /api/uploads/[id] - Finalize a complete upload into a recording
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const session = await findSession(params.id, userId)
+    if (!session) {
+      return NextResponse.json({ error: "Upload session not found or expired" }, { status: 404 })
+    }
+
+    // The owner may have lost access to the workspace since the upload started
+    const access = await workspaceAccess(userId, String(session.workspaceId))
+    const denied = access ? roleError(access.role, "editor") : "You are no longer a member of this workspace"
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const finalized = session.status === "complete"
+    const recordingId = await finalizeSession(db, session)
+
+    // Retried finalize requests don't upload anything new
+    if (!finalized) {
+      await recordAudit({
+        request,
+        access: { workspaceId: String(session.workspaceId), userId },
+        action: "recording.upload",
+        targets: { type: "recording", id: recordingId },
+        details: { title: session.title, size: session.size, resumable: true },
+      })
+    }
+
+    return NextResponse.json({
+      message: "Recording uploaded successfully",
+      id: recordingId,
+      url: `/api/recordings/${recordingId}`,
+    })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error finalizing upload session:", error)
+    return NextResponse.json({ error: "Failed to finalize upload" }, { status: 500 })
+  }
+}
+
+// DELETE /api/uploads/[id] - Cancel an upload and discard its chunks
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { db } = await connectToDatabase()
+
+    const session = await findSession(params.id, userId)
+    if (!session) {
+      return NextResponse.json({ error: "Upload session not found or expired" }, { status: 404 })
+    }
+
+    if (session.status === "finalizing") {
+      return NextResponse.json({ error: "Upload is being finalized" }, { status: 409 })
+    }
+    if (session.status === "active") {
+      await db.collection("recordings.chunks").deleteMany({ files_id: session.fileId })
+    }
+    await UploadSession.deleteOne({ _id: session._id })
+
+    return NextResponse.json({ message: "Upload cancelled" })
+  } catch (error) {
+    console.error("Error cancelling upload session:", error)
+    return NextResponse.json({ error: "Failed to cancel upload" }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { UploadSession } from "@/lib/models/UploadSession"
+import { GRIDFS_CHUNK_SIZE, SESSION_TTL_MS, purgeExpiredSessions } from "@/lib/upload-sessions"
+import { videoExtension } from "@/lib/utils"
+import { config } from "@/lib/config"
+import { formatMegabytes, isAllowedMimeType } from "@/lib/limits"
+import { ObjectId } from "mongodb"
+import { getAccess } from "@/lib/auth"
+import { roleError } from "@/lib/workspaces"
+import { uploadTitleSchema } from "@/lib/recording-updates"
+
+// POST /api/uploads - Create a resumable upload session
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+    const denied = roleError(access.role, "editor")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+
+    const title = uploadTitleSchema.safeParse(body.title ?? undefined)
+    if (!title.success) {
+      return NextResponse.json({ error: title.error.issues[0]?.message ?? "Invalid title" }, { status: 400 })
+    }
+
+    const size = Number(body.size)
+    const contentType = String(body.contentType || "")
+
+    if (!Number.isInteger(size) || size <= 0) {
+      return NextResponse.json({ error: "Upload length must be a positive integer" }, { status: 400 })
+    }
+
+    const { limits } = config
+
+    // Validate file type
+    if (!isAllowedMimeType(contentType, limits)) {
+      return NextResponse.json(
+        { error: "Invalid file type. Only supported video formats are allowed." },
+        { status: 400 },
+      )
+    }
+
+    // Validate file size
+    if (size > limits.maxFileSize) {
+      return NextResponse.json(
+        { error: `File too large. Maximum size is ${formatMegabytes(limits.maxFileSize)}.` },
+        { status: 413 },
+      )
+    }
+
+    const { db } = await connectToDatabase()
+
+    // Opportunistically garbage-collect abandoned sessions
+    purgeExpiredSessions(db).catch((error) => console.error("Error purging upload sessions:", error))
+
+    // Generate unique filename
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+    const filename = `recording-${timestamp}.${videoExtension(contentType)}`
+
+    const session = await UploadSession.create({
+      workspaceId: access.workspaceId,
+      owner: access.userId,
+      fileId: new ObjectId(),
+      filename,
+      title: title.data || `Recording ${new Date().toLocaleString()}`,
+      contentType,
+      size,
+      chunkSize: GRIDFS_CHUNK_SIZE,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    })
+
+    const location = `/api/uploads/${session._id.toString()}`
+
+    return NextResponse.json(
+      {
+        id: session._id.toString(),
+        url: location,
+        offset: 0,
+        chunkSize: session.chunkSize,
+        expiresAt: session.expiresAt,
+      },
+      { status: 201, headers: { Location: location } },
+    )
+  } catch (error) {
+    console.error("Error creating upload session:", error)
+    return NextResponse.json({ error: "Failed to create upload session" }, { status: 500 })
+  }
+}
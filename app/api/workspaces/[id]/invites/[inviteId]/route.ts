@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { requireMembership, revokeInvite, roleError } from "@/lib/workspaces"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+// DELETE /api/workspaces/[id]/invites/[inviteId] - Revoke an unused invite (owners only)
+export async function DELETE(request: NextRequest, { params }: { params: { id: string; inviteId: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id, inviteId } = params
+
+    if (!ObjectId.isValid(id) || !ObjectId.isValid(inviteId)) {
+      return NextResponse.json({ error: "Invalid workspace or invite ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { role } = await requireMembership(id, userId)
+    const denied = roleError(role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    if (!(await revokeInvite(id, inviteId))) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 })
+    }
+
+    await recordAudit({
+      request,
+      access: { workspaceId: id, userId },
+      action: "invite.revoke",
+      targets: { type: "invite", id: inviteId },
+    })
+
+    return NextResponse.json({ message: "Invite revoked" })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error revoking invite:", error)
+    return NextResponse.json({ error: "Failed to revoke invite" }, { status: 500 })
+  }
+}
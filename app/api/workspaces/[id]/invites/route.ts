@@ -0,0 +1,89 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { createInvite, inviteRoleSchema, listInvites, requireMembership, roleError } from "@/lib/workspaces"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+const createInviteSchema = z.object({ role: inviteRoleSchema }).strict()
+
+// GET /api/workspaces/[id]/invites - List invites that haven't been used or expired (owners only)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid workspace ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { role } = await requireMembership(id, userId)
+    const denied = roleError(role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    return NextResponse.json(await listInvites(id))
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching invites:", error)
+    return NextResponse.json({ error: "Failed to fetch invites" }, { status: 500 })
+  }
+}
+
+// POST /api/workspaces/[id]/invites - Create a one-time invite link for an editor or viewer (owners only)
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid workspace ID" }, { status: 400 })
+    }
+
+    const parsed = createInviteSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Role must be editor or viewer" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { workspace, role } = await requireMembership(id, userId)
+    const denied = roleError(role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const invite = await createInvite(workspace, userId, parsed.data.role)
+
+    await recordAudit({
+      request,
+      access: { workspaceId: id, userId },
+      action: "invite.create",
+      targets: { type: "invite", id: invite._id },
+      details: { role: invite.role },
+    })
+
+    return NextResponse.json(invite, { status: 201 })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating invite:", error)
+    return NextResponse.json({ error: "Failed to create invite" }, { status: 500 })
+  }
+}
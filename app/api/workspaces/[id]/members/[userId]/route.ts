@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { WORKSPACE_ROLES, removeMember, requireMembership, roleError, setMemberRole } from "@/lib/workspaces"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+const updateMemberSchema = z.object({ role: z.enum(WORKSPACE_ROLES) }).strict()
+
+type MemberParams = { params: { id: string; userId: string } }
+
+// PATCH /api/workspaces/[id]/members/[userId] - Change a member's role (owners only)
+export async function PATCH(request: NextRequest, { params }: MemberParams) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    if (!ObjectId.isValid(params.id) || !ObjectId.isValid(params.userId)) {
+      return NextResponse.json({ error: "Invalid workspace or user ID" }, { status: 400 })
+    }
+
+    const parsed = updateMemberSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Role must be owner, editor or viewer" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { workspace, role } = await requireMembership(params.id, userId)
+    const denied = roleError(role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const previousRole = workspace.members.find((member) => String(member.userId) === params.userId)?.role
+    await setMemberRole(workspace, params.userId, parsed.data.role)
+
+    await recordAudit({
+      request,
+      access: { workspaceId: params.id, userId },
+      action: "member.update",
+      targets: { type: "user", id: params.userId },
+      details: { role: parsed.data.role, previousRole },
+    })
+
+    return NextResponse.json({ userId: params.userId, role: parsed.data.role })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating workspace member:", error)
+    return NextResponse.json({ error: "Failed to update workspace member" }, { status: 500 })
+  }
+}
+
+// DELETE /api/workspaces/[id]/members/[userId] - Remove a member (owners only), or leave the workspace yourself
+export async function DELETE(request: NextRequest, { params }: MemberParams) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    if (!ObjectId.isValid(params.id) || !ObjectId.isValid(params.userId)) {
+      return NextResponse.json({ error: "Invalid workspace or user ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { workspace, role } = await requireMembership(params.id, userId)
+    const denied = params.userId === userId ? null : roleError(role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    await removeMember(workspace, params.userId)
+
+    await recordAudit({
+      request,
+      access: { workspaceId: params.id, userId },
+      action: "member.remove",
+      targets: { type: "user", id: params.userId },
+      details: { left: params.userId === userId },
+    })
+
+    return NextResponse.json({ message: params.userId === userId ? "Left workspace" : "Member removed" })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error removing workspace member:", error)
+    return NextResponse.json({ error: "Failed to remove workspace member" }, { status: 500 })
+  }
+}
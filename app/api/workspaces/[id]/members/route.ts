@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { listMembers, requireMembership } from "@/lib/workspaces"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+
+// GET /api/workspaces/[id]/members - List a workspace's members and their roles
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid workspace ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { workspace } = await requireMembership(id, userId)
+
+    return NextResponse.json(await listMembers(workspace))
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching workspace members:", error)
+    return NextResponse.json({ error: "Failed to fetch workspace members" }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { requireMembership, roleError, workspaceNameSchema } from "@/lib/workspaces"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+const updateWorkspaceSchema = z.object({ name: workspaceNameSchema }).strict()
+
+// PATCH /api/workspaces/[id] - Rename a workspace (owners only)
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const { id } = params
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid workspace ID" }, { status: 400 })
+    }
+
+    const parsed = updateWorkspaceSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid update" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { workspace, role } = await requireMembership(id, userId)
+    const denied = roleError(role, "owner")
+    if (denied) {
+      return NextResponse.json({ error: denied }, { status: 403 })
+    }
+
+    const previousName = workspace.name
+    workspace.name = parsed.data.name
+    await workspace.save()
+
+    await recordAudit({
+      request,
+      access: { workspaceId: id, userId },
+      action: "workspace.update",
+      targets: { type: "workspace", id },
+      details: { name: workspace.name, previousName },
+    })
+
+    return NextResponse.json({ _id: id, name: workspace.name })
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating workspace:", error)
+    return NextResponse.json({ error: "Failed to update workspace" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RequestError } from "@/lib/request-error"
+import { WORKSPACE_COOKIE, WORKSPACE_COOKIE_OPTIONS, requireMembership } from "@/lib/workspaces"
+import { ObjectId } from "mongodb"
+import { getUserId } from "@/lib/auth"
+
+// PUT /api/workspaces/current - Switch to another of your workspaces (JSON: workspaceId)
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const workspaceId = String(body?.workspaceId ?? "")
+    if (!ObjectId.isValid(workspaceId)) {
+      return NextResponse.json({ error: "Invalid workspace ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const { workspace, role } = await requireMembership(workspaceId, userId)
+
+    const response = NextResponse.json({ _id: workspaceId, name: workspace.name, role })
+    response.cookies.set(WORKSPACE_COOKIE, workspaceId, WORKSPACE_COOKIE_OPTIONS)
+    return response
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error switching workspace:", error)
+    return NextResponse.json({ error: "Failed to switch workspace" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { createWorkspace, listWorkspaces, workspaceNameSchema } from "@/lib/workspaces"
+import { getAccess } from "@/lib/auth"
+import { recordAudit } from "@/lib/audit"
+
+const createWorkspaceSchema = z.object({ name: workspaceNameSchema }).strict()
+
+// GET /api/workspaces - List your workspaces with your role in each, and which one is current
+export async function GET() {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      workspaces: await listWorkspaces(access.userId),
+      currentId: access.workspaceId,
+    })
+  } catch (error) {
+    console.error("Error fetching workspaces:", error)
+    return NextResponse.json({ error: "Failed to fetch workspaces" }, { status: 500 })
+  }
+}
+
+// POST /api/workspaces - Create a team workspace; you become its owner
+export async function POST(request: NextRequest) {
+  try {
+    const access = await getAccess()
+    if (!access) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    }
+
+    const parsed = createWorkspaceSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid workspace" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const workspace = await createWorkspace(access.userId, parsed.data.name)
+
+    await recordAudit({
+      request,
+      access: { workspaceId: String(workspace._id), userId: access.userId },
+      action: "workspace.create",
+      targets: { type: "workspace", id: String(workspace._id) },
+      details: { name: workspace.name },
+    })
+    return NextResponse.json(
+      { _id: String(workspace._id), name: workspace.name, personal: false, role: "owner", memberCount: 1 },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("Error creating workspace:", error)
+    return NextResponse.json({ error: "Failed to create workspace" }, { status: 500 })
+  }
+}
@@ -0,0 +1,282 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useWorkspaces } from "@/hooks/use-workspaces"
+import { AlertTriangle, ArrowLeft, Download, ScrollText } from "lucide-react"
+import { AUDIT_ACTIONS } from "@/lib/audit-actions"
+import type { AuditEventSummary } from "@/lib/audit"
+
+// Dates arrive from the API as strings
+type AuditEvent = Omit<AuditEventSummary, "createdAt"> & { createdAt: string }
+
+interface Member {
+  userId: string
+  email: string | null
+  name: string
+}
+
+interface Filters {
+  action: string
+  actor: string
+  target: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = { action: "", actor: "", target: "", from: "", to: "" }
+// Select items can't have an empty value
+const ALL = "all"
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  })
+
+// Query string for the filters; dates are whole days in local time, with `to` inclusive
+function filterParams(filters: Filters) {
+  const params = new URLSearchParams()
+  if (filters.action) params.set("action", filters.action)
+  if (filters.actor) params.set("actor", filters.actor)
+  if (filters.target.trim()) params.set("target", filters.target.trim())
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00`).toISOString())
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set("to", end.toISOString())
+  }
+  return params
+}
+
+function actorLabel(event: AuditEvent) {
+  const { actor } = event
+  if (!actor.userId) return event.details.shareId ? "Share link visitor" : "System"
+  const name = actor.name || actor.email || actor.userId
+  return actor.apiKeyId ? `${name} (API key ${actor.apiKeyName ?? actor.apiKeyId})` : name
+}
+
+// Who did what in the current workspace, for its owners, with filters and a
+// CSV export of everything that matches them
+export default function AuditPage() {
+  const { current } = useWorkspaces()
+  const [members, setMembers] = useState<Member[]>([])
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const params = filterParams(filters).toString()
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      setLoading(true)
+      try {
+        const query = new URLSearchParams(params)
+        if (cursor) query.set("cursor", cursor)
+        const response = await fetch(`/api/audit?${query}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+        setEvents((prev) => (cursor ? [...prev, ...data.events] : data.events))
+        setNextCursor(data.nextCursor)
+        setError(null)
+      } catch (error) {
+        setError((error as Error).message)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [params],
+  )
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    if (!current) return
+    fetch(`/api/workspaces/${current._id}/members`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setMembers)
+      .catch((error) => console.error("Failed to fetch workspace members:", error))
+  }, [current])
+
+  const setFilter = (key: keyof Filters, value: string) => setFilters((prev) => ({ ...prev, [key]: value }))
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <Button variant="ghost" size="sm" asChild className="gap-1">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to recordings
+            </Link>
+          </Button>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <ScrollText className="h-5 w-5" />
+                  Audit Log
+                </span>
+                <Button variant="outline" size="sm" asChild className="gap-1">
+                  <a href={`/api/audit/export${params ? `?${params}` : ""}`}>
+                    <Download className="h-3 w-3" />
+                    Export CSV
+                  </a>
+                </Button>
+              </CardTitle>
+              <CardDescription>
+                Everything done in the {current ? `"${current.name}"` : "current"} workspace: uploads, views,
+                downloads, edits and deletions, and changes to shares, members and API keys. Events can't be changed
+                or deleted.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                <div className="space-y-1">
+                  <Label>Action</Label>
+                  <Select value={filters.action || ALL} onValueChange={(v) => setFilter("action", v === ALL ? "" : v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All actions</SelectItem>
+                      {AUDIT_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {action}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Member</Label>
+                  <Select value={filters.actor || ALL} onValueChange={(v) => setFilter("actor", v === ALL ? "" : v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Everyone</SelectItem>
+                      {members.map((member) => (
+                        <SelectItem key={member.userId} value={member.userId}>
+                          {member.name || member.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-target">Target ID</Label>
+                  <Input
+                    id="audit-target"
+                    value={filters.target}
+                    onChange={(e) => setFilter("target", e.target.value)}
+                    placeholder="Recording, tag, user..."
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-from">From</Label>
+                  <Input
+                    id="audit-from"
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => setFilter("from", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-to">To</Label>
+                  <Input
+                    id="audit-to"
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => setFilter("to", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {error ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              ) : events.length === 0 && !loading ? (
+                <div className="text-center text-muted-foreground py-8">No events match these filters.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead>IP / User agent</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event._id}>
+                        <TableCell className="whitespace-nowrap text-xs">{formatTime(event.createdAt)}</TableCell>
+                        <TableCell className="max-w-48 truncate text-sm">{actorLabel(event)}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{event.action}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          <button
+                            type="button"
+                            className="hover:underline"
+                            title="Show only this target"
+                            onClick={() => setFilter("target", event.target.id)}
+                          >
+                            {event.target.type}:{event.target.id}
+                          </button>
+                        </TableCell>
+                        <TableCell className="max-w-56 text-xs text-muted-foreground">
+                          <div>{event.ip ?? "-"}</div>
+                          <div className="truncate" title={event.userAgent ?? undefined}>
+                            {event.userAgent ?? "-"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-64 truncate font-mono text-xs text-muted-foreground">
+                          {Object.keys(event.details).length > 0 ? JSON.stringify(event.details) : ""}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {loading ? (
+                <div className="text-center text-muted-foreground py-4">Loading events...</div>
+              ) : (
+                nextCursor && (
+                  <div className="text-center">
+                    <Button variant="outline" size="sm" onClick={() => load(nextCursor)}>
+                      Load more
+                    </Button>
+                  </div>
+                )
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
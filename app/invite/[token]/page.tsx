@@ -0,0 +1,85 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, Users } from "lucide-react"
+
+interface InviteDetails {
+  workspace: string
+  role: "viewer" | "editor"
+  invitedBy: string | null
+  alreadyMember: boolean
+}
+
+async function requestJson(url: string, method: string) {
+  const response = await fetch(url, { method })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+// Where invite links land. Signed-out visitors are sent to sign in (or sign up)
+// first by the middleware, then back here.
+export default function InvitePage() {
+  const router = useRouter()
+  const { token } = useParams<{ token: string }>()
+  const inviteUrl = `/api/invites/${encodeURIComponent(token)}`
+  const [invite, setInvite] = useState<InviteDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [accepting, setAccepting] = useState(false)
+
+  useEffect(() => {
+    requestJson(inviteUrl, "GET")
+      .then(setInvite)
+      .catch((error) => setError((error as Error).message))
+  }, [inviteUrl])
+
+  const accept = async () => {
+    setAccepting(true)
+    try {
+      await requestJson(inviteUrl, "POST")
+      router.replace("/")
+      router.refresh()
+    } catch (error) {
+      setError((error as Error).message)
+      setAccepting(false)
+    }
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-background px-4">
+      {error ? (
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : !invite ? (
+        <div className="text-muted-foreground">Loading invite...</div>
+      ) : (
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              {invite.workspace}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {invite.alreadyMember
+                ? "You're already a member of this workspace."
+                : `${invite.invitedBy ?? "Someone"} invited you to join as ${
+                    invite.role === "editor" ? "an editor" : "a viewer"
+                  }.`}
+            </p>
+            <Button className="w-full" onClick={accept} disabled={accepting}>
+              {accepting ? "Joining..." : invite.alreadyMember ? "Open Workspace" : "Join Workspace"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  )
+}
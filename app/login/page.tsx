@@ -0,0 +1,135 @@
+"use client"
+
+import type React from "react"
+import { Suspense, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { signIn } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+
+// Only send people back to pages on this site
+function safeCallbackUrl(value: string | null) {
+  return value && value.startsWith("/") && !value.startsWith("//") ? value : "/"
+}
+
+function LoginForm() {
+  const router = useRouter()
+  const callbackUrl = safeCallbackUrl(useSearchParams().get("callbackUrl"))
+  const [mode, setMode] = useState<"signIn" | "signUp">("signIn")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [name, setName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setError(null)
+    setSubmitting(true)
+    try {
+      if (mode === "signUp") {
+        const response = await fetch("/api/auth/register", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password, ...(name.trim() && { name }) }),
+        })
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || "Failed to create account")
+        }
+      }
+
+      const result = await signIn("credentials", { email, password, redirect: false })
+      if (!result || result.error) throw new Error("Incorrect email or password")
+
+      router.replace(callbackUrl)
+      router.refresh()
+    } catch (error) {
+      setError((error as Error).message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const switchMode = () => {
+    setMode(mode === "signIn" ? "signUp" : "signIn")
+    setError(null)
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>{mode === "signIn" ? "Sign in" : "Create an account"}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={submit} className="space-y-4">
+          {mode === "signUp" && (
+            <div className="space-y-2">
+              <Label htmlFor="name">Name (optional)</Label>
+              <Input id="name" value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+              minLength={mode === "signUp" ? 8 : undefined}
+              required
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" className="w-full" disabled={submitting}>
+            {submitting ? "Please wait..." : mode === "signIn" ? "Sign in" : "Create account"}
+          </Button>
+        </form>
+
+        <p className="mt-4 text-center text-sm text-muted-foreground">
+          {mode === "signIn" ? "No account yet?" : "Already have an account?"}{" "}
+          <button type="button" onClick={switchMode} className="text-primary underline-offset-4 hover:underline">
+            {mode === "signIn" ? "Create one" : "Sign in"}
+          </button>
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto flex flex-col items-center gap-8 px-4 py-16">
+        <h1 className="text-4xl font-bold text-foreground">Screen Recorder Pro</h1>
+        {/* useSearchParams needs a Suspense boundary to be prerendered */}
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,231 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useToast } from "@/hooks/use-toast"
+import { useWorkspaces } from "@/hooks/use-workspaces"
+import { ArrowLeft, Ban, Copy, KeyRound } from "lucide-react"
+import type { ApiKeyScope } from "@/lib/api-keys"
+
+interface ApiKey {
+  _id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  createdBy: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+const SCOPES: { scope: ApiKeyScope; label: string }[] = [
+  { scope: "read", label: "Read: list, search, stream and download" },
+  { scope: "write", label: "Write: upload, edit, restore and share" },
+  { scope: "delete", label: "Delete: move recordings to the trash" },
+]
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+
+async function requestJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+// API keys for the current workspace, for scripts that call /api/recordings
+// without a browser session
+export default function SettingsPage() {
+  const { toast } = useToast()
+  const { current } = useWorkspaces()
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["read", "write"])
+  const [creating, setCreating] = useState(false)
+  // The key just created; it can't be shown again once the page is left
+  const [newKey, setNewKey] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      setKeys(await requestJson("/api/api-keys", "GET"))
+    } catch (error) {
+      console.error("Failed to fetch API keys:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) =>
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key)
+      toast({ title: "API key copied" })
+    } catch {
+      toast({ title: "Couldn't copy the API key", variant: "destructive" })
+    }
+  }
+
+  const createKey = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setCreating(true)
+    try {
+      const created: ApiKey & { key: string } = await requestJson("/api/api-keys", "POST", { name, scopes })
+      setNewKey(created.key)
+      setName("")
+      load()
+    } catch (error) {
+      toast({ title: "Couldn't create the API key", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revokeKey = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) return
+    try {
+      await requestJson(`/api/api-keys/${key._id}`, "DELETE")
+      load()
+    } catch (error) {
+      toast({ title: "Couldn't revoke the API key", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Button variant="ghost" size="sm" asChild className="gap-1">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to recordings
+            </Link>
+          </Button>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                API Keys
+              </CardTitle>
+              <CardDescription>
+                Keys for scripts, such as uploads from CI, in the {current ? `"${current.name}"` : "current"}{" "}
+                workspace. Send one as <code>Authorization: Bearer &lt;key&gt;</code> to the{" "}
+                <code>/api/recordings</code> endpoints. A key acts as you, with your role in the workspace, limited to
+                its scopes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {newKey && (
+                <Alert>
+                  <AlertDescription className="space-y-2">
+                    <p>Copy the new key now. It won't be shown again.</p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs">{newKey}</code>
+                      <Button variant="outline" size="sm" onClick={() => copyKey(newKey)} className="gap-1">
+                        <Copy className="h-3 w-3" />
+                        Copy
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <form onSubmit={createKey} className="space-y-3 rounded-lg border border-border p-3">
+                <div className="space-y-1">
+                  <Label htmlFor="api-key-name">Name</Label>
+                  <Input
+                    id="api-key-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. CI uploads"
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  {SCOPES.map(({ scope, label }) => (
+                    <div key={scope} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`api-key-scope-${scope}`}
+                        checked={scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                        {label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <Button type="submit" size="sm" disabled={creating || !name.trim() || scopes.length === 0}>
+                  {creating ? "Creating..." : "Create API Key"}
+                </Button>
+              </form>
+
+              {loading ? (
+                <div className="text-center text-muted-foreground py-4">Loading API keys...</div>
+              ) : keys.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No API keys yet.</div>
+              ) : (
+                <div className="space-y-2">
+                  {keys.map((key) => (
+                    <div key={key._id} className="flex items-center gap-3 rounded-lg border border-border p-3 text-sm">
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-medium">{key.name}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{key.prefix}…</span>
+                          {key.revokedAt && <Badge variant="secondary">Revoked</Badge>}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          {key.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline">
+                              {scope}
+                            </Badge>
+                          ))}
+                          <span>
+                            Created {formatDate(key.createdAt)}
+                            {key.createdBy && ` by ${key.createdBy}`}
+                          </span>
+                          <span>{key.lastUsedAt ? `Last used ${formatDate(key.lastUsedAt)}` : "Never used"}</span>
+                        </div>
+                      </div>
+                      {!key.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeKey(key)}
+                          title="Revoke API key"
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { useParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, Lock } from "lucide-react"
+
+interface OpenedShare {
+  title: string
+  description: string
+  duration: number
+  width: number | null
+  height: number | null
+  streamUrl: string
+}
+
+async function requestJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+// Public player for a share link. Links without a password open (and count a
+// view) straight away; the others ask for it first.
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>()
+  const shareUrl = `/api/share/${encodeURIComponent(token)}`
+  const [title, setTitle] = useState<string | null>(null)
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [password, setPassword] = useState("")
+  const [share, setShare] = useState<OpenedShare | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  // Effects run twice in development; a link must only be opened once
+  const opened = useRef(false)
+
+  const open = async (password?: string) => {
+    setSubmitting(true)
+    try {
+      setShare(await requestJson(shareUrl, "POST", password ? { password } : {}))
+      setError(null)
+    } catch (error) {
+      setError((error as Error).message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  useEffect(() => {
+    if (opened.current) return
+    opened.current = true
+
+    requestJson(shareUrl, "GET")
+      .then((data: { title: string; passwordRequired: boolean }) => {
+        setTitle(data.title)
+        setPasswordRequired(data.passwordRequired)
+        if (!data.passwordRequired) open()
+      })
+      .catch((error) => setError((error as Error).message))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shareUrl])
+
+  const submitPassword = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (password) open(password)
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <p className="text-sm text-muted-foreground">Shared with Screen Recorder Pro</p>
+
+          {share ? (
+            <div className="space-y-4">
+              <h1 className="text-3xl font-bold text-foreground">{share.title}</h1>
+              <video
+                controls
+                autoPlay
+                className="w-full rounded-lg bg-black"
+                style={{ aspectRatio: share.width && share.height ? `${share.width}/${share.height}` : "16/9" }}
+                src={share.streamUrl}
+                preload="metadata"
+              />
+              {share.description && (
+                <p className="whitespace-pre-wrap text-muted-foreground">{share.description}</p>
+              )}
+            </div>
+          ) : passwordRequired ? (
+            <Card className="mx-auto max-w-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  {title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={submitPassword} className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    This recording is protected. Enter the password to watch it.
+                  </p>
+                  <Input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    autoFocus
+                  />
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
+                  <Button type="submit" className="w-full" disabled={submitting || !password}>
+                    {submitting ? "Checking..." : "Watch"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          ) : error ? (
+            <Alert variant="destructive" className="mx-auto max-w-md">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">Loading recording...</div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import Link from "next/link"
+import { signOut, useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { LogOut, Settings, User } from "lucide-react"
+
+// Who is signed in, with links to settings and to sign out
+export function AccountMenu() {
+  const { data: session } = useSession()
+  if (!session) return null
+
+  return (
+    <div className="ml-auto flex items-center justify-end gap-2 text-sm text-muted-foreground">
+      <User className="h-4 w-4" />
+      <span className="truncate">{session.user.name || session.user.email}</span>
+      <Button variant="ghost" size="sm" asChild title="Settings">
+        <Link href="/settings">
+          <Settings className="h-3 w-3" />
+        </Link>
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => signOut({ callbackUrl: "/login" })} className="gap-1">
+        <LogOut className="h-3 w-3" />
+        Sign out
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Volume2, VolumeX } from "lucide-react"
+
+export interface ChannelSettings {
+  gain: number
+  muted: boolean
+}
+
+export interface MixerChannel {
+  id: string
+  label: string
+  settings: ChannelSettings
+  // Present while recording; the meter is idle otherwise
+  analyser: AnalyserNode | null
+}
+
+interface AudioMixerProps {
+  channels: MixerChannel[]
+  onChange: (id: string, settings: ChannelSettings) => void
+}
+
+// Horizontal level meter driven by an AnalyserNode. Writes straight to the DOM
+// each animation frame instead of going through React state.
+function LevelMeter({ analyser }: { analyser: AnalyserNode | null }) {
+  const barRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const bar = barRef.current
+    if (!bar) return
+    if (!analyser) {
+      bar.style.width = "0%"
+      return
+    }
+
+    const samples = new Float32Array(analyser.fftSize)
+    let frame = 0
+
+    const update = () => {
+      analyser.getFloatTimeDomainData(samples)
+      let sum = 0
+      for (const sample of samples) sum += sample * sample
+      const rms = Math.sqrt(sum / samples.length)
+
+      // Map -60dB..0dB onto 0..100%
+      const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity
+      const level = Math.max(0, Math.min(1, (db + 60) / 60))
+      bar.style.width = `${level * 100}%`
+      bar.style.backgroundColor = level > 0.9 ? "rgb(239 68 68)" : level > 0.7 ? "rgb(250 204 21)" : ""
+
+      frame = requestAnimationFrame(update)
+    }
+    frame = requestAnimationFrame(update)
+
+    return () => cancelAnimationFrame(frame)
+  }, [analyser])
+
+  return (
+    <div className="w-full bg-secondary rounded-full h-2 overflow-hidden">
+      <div ref={barRef} className="bg-primary h-2 rounded-full transition-[width] duration-75" style={{ width: "0%" }} />
+    </div>
+  )
+}
+
+export function AudioMixer({ channels, onChange }: AudioMixerProps) {
+  if (channels.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      {channels.map((channel) => (
+        <div key={channel.id} className="grid grid-cols-[7rem_auto_1fr_3rem] items-center gap-3 text-sm">
+          <span className="text-muted-foreground truncate">{channel.label}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(channel.id, { ...channel.settings, muted: !channel.settings.muted })}
+            className={channel.settings.muted ? "text-destructive" : "text-primary"}
+            title={channel.settings.muted ? "Unmute" : "Mute"}
+          >
+            {channel.settings.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          </Button>
+          <div className="space-y-2">
+            <Slider
+              value={[Math.round(channel.settings.gain * 100)]}
+              min={0}
+              max={150}
+              step={5}
+              onValueChange={([value]) => onChange(channel.id, { ...channel.settings, gain: value / 100 })}
+            />
+            <LevelMeter analyser={channel.settings.muted ? null : channel.analyser} />
+          </div>
+          <span className="text-xs text-muted-foreground text-right">{Math.round(channel.settings.gain * 100)}%</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+"use client"
+
+import type React from "react"
+import { SessionProvider } from "next-auth/react"
+
+// Makes the signed-in user available to client components through useSession
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  return <SessionProvider>{children}</SessionProvider>
+}
@@ -2,12 +2,16 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback } from "react"
+import { useState, useRef, useCallback, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Upload, X, FileVideo, AlertTriangle, CheckCircle, RotateCcw } from "lucide-react"
+import { fingerprintFile, getPendingUploads, uploadResumable, type PendingUpload } from "@/lib/resumable-upload"
+import { formatMegabytes, isAllowedMimeType } from "@/lib/limits"
+import { useLimits } from "@/hooks/use-limits"
+import { attachThumbnail } from "@/lib/thumbnail-capture"
 
 interface UploadFile {
   id: string
@@ -18,17 +22,44 @@ interface UploadFile {
   retryCount: number
 }
 
+// Duration as reported by the browser, sent to the server as a hint only; the
+// server reads the real value from the file. 0 when the browser can't tell.
+function readDuration(file: File) {
+  return new Promise<number>((resolve) => {
+    const url = URL.createObjectURL(file)
+    const video = document.createElement("video")
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url)
+      resolve(Number.isFinite(duration) ? Math.round(duration) : 0)
+    }
+    video.preload = "metadata"
+    video.onloadedmetadata = () => done(video.duration)
+    video.onerror = () => done(0)
+    video.src = url
+  })
+}
+
 interface FileUploadProps {
   onUploadComplete?: () => void
+  // Override the server-configured limits
   maxFileSize?: number // in bytes
   maxFiles?: number
 }
 
-export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024, maxFiles = 5 }: FileUploadProps) {
+export function FileUpload({ onUploadComplete, ...overrides }: FileUploadProps) {
+  const limits = useLimits()
+  const maxFileSize = overrides.maxFileSize ?? limits.maxFileSize
+  const maxFiles = overrides.maxFiles ?? limits.maxFilesPerBatch
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([])
   const [isDragOver, setIsDragOver] = useState(false)
+  const [interruptedUploads, setInterruptedUploads] = useState<PendingUpload[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  // Uploads left unfinished by a previous page load resume when the file is re-selected
+  useEffect(() => {
+    setInterruptedUploads(getPendingUploads())
+  }, [])
+
   const generateId = () => Math.random().toString(36).substr(2, 9)
 
   const validateFile = (file: File): string | null => {
@@ -37,13 +68,12 @@ export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024,
     }
 
     if (file.size > maxFileSize) {
-      return `File size must be less than ${Math.round(maxFileSize / (1024 * 1024))}MB`
+      return `File size must be less than ${formatMegabytes(maxFileSize)}`
     }
 
     // Check for supported video formats
-    const supportedFormats = ["video/webm", "video/mp4", "video/avi", "video/mov", "video/quicktime"]
-    if (!supportedFormats.some((format) => file.type.includes(format.split("/")[1]))) {
-      return "Unsupported video format. Please use WebM, MP4, AVI, or MOV files"
+    if (!isAllowedMimeType(file.type, limits)) {
+      return "Unsupported video format. Please use WebM, MP4 or MOV files"
     }
 
     return null
@@ -74,7 +104,7 @@ export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024,
 
       setUploadFiles((prev) => [...prev, ...newUploadFiles])
     },
-    [uploadFiles.length, maxFiles],
+    [uploadFiles.length, maxFiles, maxFileSize, limits],
   )
 
   const removeFile = (id: string) => {
@@ -89,51 +119,24 @@ export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024,
     )
 
     try {
-      const formData = new FormData()
-      formData.append("recording", file)
-      formData.append("title", file.name.replace(/\.[^/.]+$/, "")) // Remove extension
-      formData.append("size", file.size.toString())
-
-      // Estimate duration from file size (rough approximation)
-      const estimatedDuration = Math.min(Math.round((file.size / (1024 * 1024)) * 10), 180)
-      formData.append("duration", estimatedDuration.toString())
-
-      const xhr = new XMLHttpRequest()
-
-      // Track upload progress
-      xhr.upload.addEventListener("progress", (event) => {
-        if (event.lengthComputable) {
-          const progress = Math.round((event.loaded / event.total) * 100)
+      const durationHint = await readDuration(file)
+
+      const { id: recordingId } = await uploadResumable(file, {
+        filename: file.name,
+        title: file.name.replace(/\.[^/.]+$/, ""), // Remove extension
+        duration: durationHint,
+        fingerprint: fingerprintFile(file),
+        onProgress: (progress) => {
           setUploadFiles((prev) => prev.map((f) => (f.id === id ? { ...f, progress } : f)))
-        }
-      })
-
-      // Handle completion
-      xhr.addEventListener("load", () => {
-        if (xhr.status === 200) {
-          setUploadFiles((prev) =>
-            prev.map((f) => (f.id === id ? { ...f, status: "success" as const, progress: 100 } : f)),
-          )
-          onUploadComplete?.()
-        } else {
-          const errorData = JSON.parse(xhr.responseText)
-          throw new Error(errorData.error || "Upload failed")
-        }
-      })
-
-      // Handle errors
-      xhr.addEventListener("error", () => {
-        throw new Error("Network error during upload")
-      })
-
-      xhr.addEventListener("timeout", () => {
-        throw new Error("Upload timeout")
+        },
       })
+      await attachThumbnail(recordingId, file)
 
-      // Configure and send request
-      xhr.open("POST", "/api/recordings")
-      xhr.timeout = 300000 // 5 minutes timeout
-      xhr.send(formData)
+      setUploadFiles((prev) =>
+        prev.map((f) => (f.id === id ? { ...f, status: "success" as const, progress: 100 } : f)),
+      )
+      setInterruptedUploads(getPendingUploads())
+      onUploadComplete?.()
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Upload failed"
       setUploadFiles((prev) =>
@@ -279,7 +282,7 @@ export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024,
           <div className="space-y-2">
             <p className="text-lg font-medium">Drop video files here or click to browse</p>
             <p className="text-sm text-muted-foreground">
-              Supports WebM, MP4, AVI, MOV files up to {Math.round(maxFileSize / (1024 * 1024))}MB
+              Supports WebM, MP4, MOV files up to {formatMegabytes(maxFileSize)}
             </p>
             <Button
               variant="outline"
@@ -300,6 +303,18 @@ export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024,
           />
         </div>
 
+        {/* Interrupted uploads from a previous visit */}
+        {interruptedUploads.length > 0 && (
+          <Alert>
+            <RotateCcw className="h-4 w-4" />
+            <AlertDescription className="text-xs">
+              {interruptedUploads.length} interrupted upload{interruptedUploads.length !== 1 ? "s" : ""} can be
+              resumed: {interruptedUploads.map((upload) => upload.filename).join(", ")}. Select the same file
+              {interruptedUploads.length !== 1 ? "s" : ""} again to continue where you left off.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Upload Status */}
         {uploadFiles.length > 0 && (
           <div className="space-y-2">
@@ -388,8 +403,8 @@ export function FileUpload({ onUploadComplete, maxFileSize = 100 * 1024 * 1024,
         <Alert>
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription className="text-xs">
-            Maximum {maxFiles} files, {Math.round(maxFileSize / (1024 * 1024))}MB each. Supported formats: WebM, MP4,
-            AVI, MOV.
+            Maximum {maxFiles} files, {formatMegabytes(maxFileSize)} each. Supported formats: WebM, MP4,
+            MOV.
           </AlertDescription>
         </Alert>
       </CardContent>
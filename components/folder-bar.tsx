@@ -0,0 +1,257 @@
+"use client"
+
+import { useState, type DragEvent, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronRight, Folder, FolderInput, FolderPlus, Inbox, Pencil, Trash2 } from "lucide-react"
+import type { FolderSummary } from "@/hooks/use-library"
+
+// Drag payload for recordings: a JSON array of recording IDs
+export const RECORDING_DRAG_TYPE = "application/x-recording-ids"
+
+export function readDraggedRecordings(event: DragEvent) {
+  try {
+    const ids = JSON.parse(event.dataTransfer.getData(RECORDING_DRAG_TYPE))
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : []
+  } catch {
+    return []
+  }
+}
+
+async function requestJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+// Folders in tree order, each with its depth, for menus
+export function flattenFolders(folders: FolderSummary[], parentId: string | null = null, depth = 0) {
+  const result: { folder: FolderSummary; depth: number }[] = []
+  for (const folder of folders.filter((f) => f.parentId === parentId)) {
+    result.push({ folder, depth }, ...flattenFolders(folders, folder._id, depth + 1))
+  }
+  return result
+}
+
+interface DropTargetProps {
+  onDropRecordings: (ids: string[]) => void
+  active?: boolean
+  onClick: () => void
+  children: ReactNode
+}
+
+function DropTarget({ onDropRecordings, active = false, onClick, children }: DropTargetProps) {
+  const [over, setOver] = useState(false)
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      onDragOver={(event) => {
+        if (!event.dataTransfer.types.includes(RECORDING_DRAG_TYPE)) return
+        event.preventDefault()
+        event.dataTransfer.dropEffect = "move"
+        setOver(true)
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(event) => {
+        event.preventDefault()
+        setOver(false)
+        const ids = readDraggedRecordings(event)
+        if (ids.length > 0) onDropRecordings(ids)
+      }}
+      className={`flex items-center gap-1 rounded-md border px-2 py-1 text-sm transition-colors ${
+        over ? "border-primary bg-primary/10" : active ? "border-primary" : "border-border hover:bg-accent/50"
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
+
+interface FolderBarProps {
+  folders: FolderSummary[]
+  // Folder ID, "none" for unfiled recordings, or undefined for all recordings
+  current?: string
+  onNavigate: (folder?: string) => void
+  // Recordings dropped on a folder; null means out of any folder
+  onMoveRecordings: (folderId: string | null, ids: string[]) => void
+  onFoldersChanged: () => void
+}
+
+// Breadcrumb of the current folder and its subfolders. Every entry is a drop
+// target for recordings dragged from the list.
+export function FolderBar({ folders, current, onNavigate, onMoveRecordings, onFoldersChanged }: FolderBarProps) {
+  const byId = new Map(folders.map((folder) => [folder._id, folder]))
+  const currentFolder = current && current !== "none" ? byId.get(current) : undefined
+
+  const path: FolderSummary[] = []
+  for (let folder = currentFolder; folder; folder = folder.parentId ? byId.get(folder.parentId) : undefined) {
+    path.unshift(folder)
+  }
+  const children =
+    current === "none" ? [] : folders.filter((folder) => folder.parentId === (currentFolder?._id ?? null))
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+      onFoldersChanged()
+    } catch (error) {
+      alert((error as Error).message)
+    }
+  }
+
+  const createFolder = () => {
+    const name = prompt(currentFolder ? `New folder inside "${currentFolder.name}":` : "New folder name:")
+    if (!name?.trim()) return
+    run(() => requestJson("/api/folders", "POST", { name, parentId: currentFolder?._id ?? null }))
+  }
+
+  const renameFolder = () => {
+    if (!currentFolder) return
+    const name = prompt("Rename folder:", currentFolder.name)
+    if (!name?.trim() || name.trim() === currentFolder.name) return
+    run(() => requestJson(`/api/folders/${currentFolder._id}`, "PATCH", { name }))
+  }
+
+  const deleteFolder = () => {
+    if (!currentFolder) return
+    if (!confirm(`Delete "${currentFolder.name}"? Its recordings and subfolders move to the parent folder.`)) return
+    run(async () => {
+      await requestJson(`/api/folders/${currentFolder._id}`, "DELETE")
+      onNavigate(currentFolder.parentId ?? undefined)
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        <DropTarget
+          active={!current}
+          onClick={() => onNavigate(undefined)}
+          onDropRecordings={(ids) => onMoveRecordings(null, ids)}
+        >
+          All recordings
+        </DropTarget>
+        {current === "none" && (
+          <>
+            <ChevronRight className="h-3 w-3 text-muted-foreground" />
+            <DropTarget
+              active
+              onClick={() => onNavigate("none")}
+              onDropRecordings={(ids) => onMoveRecordings(null, ids)}
+            >
+              <Inbox className="h-3 w-3" />
+              Unfiled
+            </DropTarget>
+          </>
+        )}
+        {path.map((folder) => (
+          <span key={folder._id} className="flex items-center gap-1">
+            <ChevronRight className="h-3 w-3 text-muted-foreground" />
+            <DropTarget
+              active={folder._id === current}
+              onClick={() => onNavigate(folder._id)}
+              onDropRecordings={(ids) => onMoveRecordings(folder._id, ids)}
+            >
+              <Folder className="h-3 w-3" />
+              {folder.name}
+            </DropTarget>
+          </span>
+        ))}
+
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={createFolder} title="New folder">
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+          {currentFolder && (
+            <>
+              <Button variant="ghost" size="sm" onClick={renameFolder} title="Rename folder">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={deleteFolder}
+                title="Delete folder"
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {(children.length > 0 || !current) && (
+        <div className="flex flex-wrap gap-2">
+          {!current && (
+            <DropTarget onClick={() => onNavigate("none")} onDropRecordings={(ids) => onMoveRecordings(null, ids)}>
+              <Inbox className="h-3 w-3" />
+              Unfiled
+            </DropTarget>
+          )}
+          {children.map((folder) => (
+            <DropTarget
+              key={folder._id}
+              onClick={() => onNavigate(folder._id)}
+              onDropRecordings={(ids) => onMoveRecordings(folder._id, ids)}
+            >
+              <Folder className="h-3 w-3" />
+              {folder.name}
+              <span className="text-xs text-muted-foreground">{folder.count}</span>
+            </DropTarget>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface MoveToFolderMenuProps {
+  folders: FolderSummary[]
+  onMove: (folderId: string | null) => void
+  disabled?: boolean
+}
+
+// "Move selected" menu listing every folder as an indented tree
+export function MoveToFolderMenu({ folders, onMove, disabled }: MoveToFolderMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} className="gap-1">
+          <FolderInput className="h-3 w-3" />
+          Move
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        <DropdownMenuItem onSelect={() => onMove(null)}>
+          <Inbox className="h-3 w-3" />
+          No folder
+        </DropdownMenuItem>
+        {folders.length > 0 && <DropdownMenuSeparator />}
+        {flattenFolders(folders).map(({ folder, depth }) => (
+          <DropdownMenuItem
+            key={folder._id}
+            onSelect={() => onMove(folder._id)}
+            style={{ paddingLeft: `${0.5 + depth}rem` }}
+          >
+            <Folder className="h-3 w-3" />
+            {folder.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
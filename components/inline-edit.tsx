@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useRef, useState, type KeyboardEvent } from "react"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Pencil } from "lucide-react"
+
+interface InlineEditProps {
+  value: string
+  onSave: (value: string) => void
+  placeholder?: string
+  maxLength?: number
+  // Textarea instead of a single-line input; Ctrl/Cmd+Enter saves
+  multiline?: boolean
+  // Applied to the displayed text
+  className?: string
+  // Rejects empty values by restoring the previous one
+  required?: boolean
+  label: string
+}
+
+// Text that turns into an input when clicked. Enter (or leaving the field)
+// saves, Escape cancels. Saving is left to the parent, which updates `value`.
+export function InlineEdit({
+  value,
+  onSave,
+  placeholder,
+  maxLength,
+  multiline = false,
+  required = false,
+  className,
+  label,
+}: InlineEditProps) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(value)
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null)
+  // The field can blur as it unmounts after Enter or Escape; this stops that
+  // blur from saving a second time (or at all, after Escape)
+  const activeRef = useRef(false)
+
+  useEffect(() => {
+    if (editing) {
+      fieldRef.current?.focus()
+      fieldRef.current?.select()
+    }
+  }, [editing])
+
+  const startEditing = () => {
+    setDraft(value)
+    activeRef.current = true
+    setEditing(true)
+  }
+
+  const commit = () => {
+    if (!activeRef.current) return
+    activeRef.current = false
+    setEditing(false)
+    const next = draft.trim()
+    if (next === value || (required && !next)) return
+    onSave(next)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Escape") {
+      event.preventDefault()
+      activeRef.current = false
+      setEditing(false)
+    } else if (event.key === "Enter" && (!multiline || event.ctrlKey || event.metaKey)) {
+      event.preventDefault()
+      commit()
+    }
+  }
+
+  if (editing) {
+    const fieldProps = {
+      value: draft,
+      maxLength,
+      placeholder,
+      "aria-label": label,
+      onChange: (event: { target: { value: string } }) => setDraft(event.target.value),
+      onBlur: commit,
+      onKeyDown: handleKeyDown,
+    }
+    return multiline ? (
+      <Textarea ref={fieldRef} rows={3} className="text-sm" {...fieldProps} />
+    ) : (
+      <Input ref={fieldRef} className="h-8" {...fieldProps} />
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={startEditing}
+      className="group flex w-full items-start gap-1 rounded text-left hover:bg-accent/50"
+      title={`Edit ${label.toLowerCase()}`}
+    >
+      <span className={`${className ?? ""} ${value ? "" : "italic text-muted-foreground"}`}>{value || placeholder}</span>
+      <Pencil className="mt-1 h-3 w-3 shrink-0 opacity-0 text-muted-foreground group-hover:opacity-100" />
+    </button>
+  )
+}
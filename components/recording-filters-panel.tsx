@@ -0,0 +1,118 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { DEFAULT_FILTERS, type RecordingFilters } from "@/lib/recording-filters"
+
+const MEGABYTE = 1024 * 1024
+
+interface RecordingFiltersPanelProps {
+  filters: RecordingFilters
+  onChange: (filters: RecordingFilters) => void
+}
+
+// Empty input clears the bound; sizes are entered in MB but filtered in bytes
+function parseBound(value: string, scale = 1) {
+  if (value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? Math.round(number * scale) : undefined
+}
+
+function formatBound(value: number | undefined, scale = 1) {
+  return value === undefined ? "" : String(Math.round((value / scale) * 100) / 100)
+}
+
+// Date, size and duration ranges for the recordings list
+export function RecordingFiltersPanel({ filters, onChange }: RecordingFiltersPanelProps) {
+  const update = (changes: Partial<RecordingFilters>) => onChange({ ...filters, ...changes })
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 rounded-md border border-border p-3 text-sm">
+      <div className="space-y-1">
+        <Label htmlFor="filter-from">From</Label>
+        <Input
+          id="filter-from"
+          type="date"
+          value={filters.from ?? ""}
+          max={filters.to}
+          onChange={(e) => update({ from: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="filter-to">To</Label>
+        <Input
+          id="filter-to"
+          type="date"
+          value={filters.to ?? ""}
+          min={filters.from}
+          onChange={(e) => update({ to: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Size (MB)</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Min"
+            aria-label="Minimum size in MB"
+            value={formatBound(filters.minSize, MEGABYTE)}
+            onChange={(e) => update({ minSize: parseBound(e.target.value, MEGABYTE) })}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Max"
+            aria-label="Maximum size in MB"
+            value={formatBound(filters.maxSize, MEGABYTE)}
+            onChange={(e) => update({ maxSize: parseBound(e.target.value, MEGABYTE) })}
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label>Duration (seconds)</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            min={0}
+            placeholder="Min"
+            aria-label="Minimum duration in seconds"
+            value={formatBound(filters.minDuration)}
+            onChange={(e) => update({ minDuration: parseBound(e.target.value) })}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Max"
+            aria-label="Maximum duration in seconds"
+            value={formatBound(filters.maxDuration)}
+            onChange={(e) => update({ maxDuration: parseBound(e.target.value) })}
+          />
+        </div>
+      </div>
+      <div className="flex items-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...DEFAULT_FILTERS,
+              q: filters.q,
+              sort: filters.sort,
+              order: filters.order,
+              tags: filters.tags,
+              folder: filters.folder,
+            })
+          }
+        >
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  )
+}
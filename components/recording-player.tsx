@@ -0,0 +1,115 @@
+"use client"
+
+import { useRef, useState, type MouseEvent } from "react"
+import { useStoryboard } from "@/hooks/use-storyboard"
+import { tileAt, type Storyboard, type StoryboardTile } from "@/lib/storyboard-vtt"
+
+interface StoryboardFrameProps {
+  storyboard: Storyboard
+  tile: StoryboardTile
+  className?: string
+}
+
+// One tile of a sprite sheet, scaled to the element's width with CSS
+export function StoryboardFrame({ storyboard, tile, className }: StoryboardFrameProps) {
+  const offset = (position: number, size: number, total: number) =>
+    total > size ? `${(position / (total - size)) * 100}%` : "0%"
+
+  return (
+    <div
+      className={className}
+      style={{
+        aspectRatio: `${tile.width}/${tile.height}`,
+        backgroundImage: `url("${tile.url}")`,
+        backgroundSize: `${(storyboard.width / tile.width) * 100}% ${(storyboard.height / tile.height) * 100}%`,
+        backgroundPosition: `${offset(tile.x, tile.width, storyboard.width)} ${offset(tile.y, tile.height, storyboard.height)}`,
+      }}
+    />
+  )
+}
+
+// Fraction of the element's width under the pointer, clamped to 0..1
+export function pointerFraction(event: MouseEvent<HTMLElement>) {
+  const rect = event.currentTarget.getBoundingClientRect()
+  return rect.width > 0 ? Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)) : 0
+}
+
+interface RecordingPlayerProps {
+  src: string
+  poster?: string
+  storyboardUrl: string
+  // Fallback until the video's own metadata has loaded
+  duration: number
+  className?: string
+}
+
+// Video with a seek bar underneath that previews frames from the storyboard on
+// hover. The native controls stay for playback, volume and fullscreen.
+export function RecordingPlayer({ src, poster, storyboardUrl, duration, className }: RecordingPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [mediaDuration, setMediaDuration] = useState(0)
+  const [hoverFraction, setHoverFraction] = useState<number | null>(null)
+  const storyboard = useStoryboard(storyboardUrl)
+
+  const totalDuration = mediaDuration || duration
+  const hoverTile = storyboard && hoverFraction !== null ? tileAt(storyboard, hoverFraction * totalDuration) : null
+
+  const formatTime = (seconds: number) => {
+    const total = Math.floor(seconds)
+    return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`
+  }
+
+  const seek = (event: MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current
+    if (!video || !totalDuration) return
+    video.currentTime = pointerFraction(event) * totalDuration
+  }
+
+  return (
+    <div className={className}>
+      <video
+        ref={videoRef}
+        controls
+        className="w-full rounded-lg bg-black"
+        style={{ aspectRatio: "16/9" }}
+        src={src}
+        poster={poster}
+        preload="metadata"
+        onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+        onDurationChange={(event) => {
+          const value = event.currentTarget.duration
+          setMediaDuration(Number.isFinite(value) ? value : 0)
+        }}
+      >
+        <track kind="metadata" label="thumbnails" src={storyboardUrl} />
+      </video>
+
+      <div
+        className="relative mt-2 h-2 cursor-pointer rounded-full bg-secondary"
+        onMouseMove={(event) => setHoverFraction(pointerFraction(event))}
+        onMouseLeave={() => setHoverFraction(null)}
+        onClick={seek}
+      >
+        <div
+          className="h-2 rounded-full bg-primary"
+          style={{ width: `${totalDuration ? Math.min(100, (currentTime / totalDuration) * 100) : 0}%` }}
+        />
+
+        {hoverFraction !== null && (
+          <div
+            className="pointer-events-none absolute bottom-4 -translate-x-1/2 space-y-1 text-center"
+            style={{ left: `clamp(4rem, ${hoverFraction * 100}%, calc(100% - 4rem))` }}
+          >
+            {storyboard && hoverTile && (
+              <StoryboardFrame storyboard={storyboard} tile={hoverTile} className="w-32 rounded border border-border shadow" />
+            )}
+            <span className="rounded bg-background/90 px-1 text-xs text-foreground">
+              {formatTime(hoverFraction * totalDuration)}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
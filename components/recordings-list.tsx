@@ -1,17 +1,45 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useCallback, useRef, type DragEvent } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
+import { InlineEdit } from "@/components/inline-edit"
+import { SearchSnippets } from "@/components/search-snippets"
+import { TagBadge } from "@/components/tag-badge"
+import { TagPicker } from "@/components/tag-picker"
+import { TagFilterBar } from "@/components/tag-filter-bar"
+import { FolderBar, MoveToFolderMenu, RECORDING_DRAG_TYPE } from "@/components/folder-bar"
+import { TrashView } from "@/components/trash-view"
+import { ShareDialog } from "@/components/share-dialog"
+import { ToastAction, type ToastActionElement } from "@/components/ui/toast"
+import { useLibrary } from "@/hooks/use-library"
+import { useToast } from "@/hooks/use-toast"
+import { RecordingFiltersPanel } from "@/components/recording-filters-panel"
+import { RecordingPlayer, StoryboardFrame, pointerFraction } from "@/components/recording-player"
+import { useStoryboard } from "@/hooks/use-storyboard"
+import { tileAt } from "@/lib/storyboard-vtt"
+import {
+  DEFAULT_FILTERS,
+  hasActiveFilters,
+  listQuery,
+  readFilters,
+  searchQuery,
+  writeFilters,
+  type RecordingFilters,
+  type SortField,
+} from "@/lib/recording-filters"
+import type { SearchSnippet } from "@/lib/recording-search"
+import type { BulkRequestBody, BulkResponse } from "@/lib/recording-bulk"
 import {
   Play,
   Download,
   Calendar,
   HardDrive,
+  Trash,
   Trash2,
   Search,
   Grid3X3,
@@ -21,177 +49,414 @@ import {
   CheckSquare,
   Square,
   Minus,
+  FileVideo,
+  SlidersHorizontal,
+  Loader2,
+  Tag as TagIcon,
+  Share2,
 } from "lucide-react"
 
 interface Recording {
   _id: string
   title: string
+  description?: string
+  tags?: string[]
+  folderId?: string | null
   filename: string
   size: number
   duration: number
   createdAt: string
   url: string
+  thumbnailUrl: string
+  storyboardUrl: string
+  // Present on search results
+  snippets?: SearchSnippet[]
 }
 
-type SortField = "createdAt" | "title" | "size" | "duration"
-type SortOrder = "asc" | "desc"
+type EditableFields = Partial<Pick<Recording, "title" | "description">>
+type OrganizeFields = Partial<Pick<Recording, "tags" | "folderId">>
+
 type ViewMode = "list" | "grid"
 
+interface RecordingThumbnailProps {
+  recording: Recording
+  // Preview the video on hover using its storyboard sprite
+  scrub?: boolean
+  className?: string
+}
+
+// Poster image with a placeholder for recordings that have none (yet)
+function RecordingThumbnail({ recording, scrub = false, className }: RecordingThumbnailProps) {
+  const [failed, setFailed] = useState(false)
+  const [hoverFraction, setHoverFraction] = useState<number | null>(null)
+  // The track is only fetched once the card has been hovered
+  const [hovered, setHovered] = useState(false)
+  const storyboard = useStoryboard(scrub && hovered ? recording.storyboardUrl : null)
+  const tile = storyboard && hoverFraction !== null ? tileAt(storyboard, hoverFraction * recording.duration) : null
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-md bg-muted ${className ?? ""}`}
+      style={{ aspectRatio: "16/9" }}
+      onMouseMove={
+        scrub
+          ? (event) => {
+              setHovered(true)
+              setHoverFraction(pointerFraction(event))
+            }
+          : undefined
+      }
+      onMouseLeave={scrub ? () => setHoverFraction(null) : undefined}
+    >
+      {storyboard && tile && hoverFraction !== null && (
+        <>
+          <StoryboardFrame storyboard={storyboard} tile={tile} className="absolute inset-0 z-10 bg-black" />
+          <div className="absolute bottom-0 left-0 z-10 h-1 bg-primary" style={{ width: `${hoverFraction * 100}%` }} />
+        </>
+      )}
+      {failed ? (
+        <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+          <FileVideo className="h-6 w-6" />
+        </div>
+      ) : (
+        <img
+          src={recording.thumbnailUrl}
+          alt=""
+          loading="lazy"
+          className="absolute inset-0 h-full w-full object-cover"
+          onError={() => setFailed(true)}
+        />
+      )}
+    </div>
+  )
+}
+
 export function RecordingsList() {
   const [recordings, setRecordings] = useState<Recording[]>([])
   const [loading, setLoading] = useState(true)
   const [playingId, setPlayingId] = useState<string | null>(null)
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set())
+  const [preparingDownload, setPreparingDownload] = useState(false)
+  const [sharing, setSharing] = useState<Recording | null>(null)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
 
-  // Filter and sort state
-  const [searchQuery, setSearchQuery] = useState("")
-  const [sortField, setSortField] = useState<SortField>("createdAt")
-  const [sortOrder, setSortOrder] = useState<SortOrder>("desc")
+  // Filters live in the URL query string; null until it has been read on mount
+  const [filters, setFilters] = useState<RecordingFilters | null>(null)
+  const [showFilters, setShowFilters] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
   const [viewMode, setViewMode] = useState<ViewMode>("list")
+  const { tags, folders, refresh: refreshLibrary } = useLibrary()
+  const { toast } = useToast()
+
+  // Pagination state
+  const [total, setTotal] = useState<number | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Incremented for every first-page request so slower, stale responses are dropped
+  const requestRef = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const initial = readFilters(new URLSearchParams(window.location.search))
+    setFilters(initial)
+    // Open the panel if the link came with range filters, so they're visible
+    setShowFilters(hasActiveFilters({ ...initial, q: "", tags: undefined, folder: undefined }))
+  }, [])
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      if (!filters) return
+      const requestId = cursor ? requestRef.current : ++requestRef.current
+      if (cursor) setLoadingMore(true)
+
+      try {
+        // A search query switches to ranked full-text results, which come in one page
+        const searching = Boolean(filters.q.trim())
+        const response = await fetch(
+          searching
+            ? `/api/recordings/search?${searchQuery(filters)}`
+            : `/api/recordings?${listQuery(filters, cursor)}`,
+        )
+        if (!response.ok) throw new Error(`Request failed with status ${response.status}`)
+        const data = await response.json()
+        if (requestId !== requestRef.current) return
+
+        if (searching) {
+          setRecordings(data.results)
+          setTotal(data.results.length)
+          setSelectedIds(new Set())
+          setNextCursor(null)
+          return
+        }
+
+        if (cursor) {
+          setRecordings((prev) => {
+            const loaded = new Set(prev.map((r) => r._id))
+            return [...prev, ...data.recordings.filter((r: Recording) => !loaded.has(r._id))]
+          })
+        } else {
+          setRecordings(data.recordings)
+          setTotal(data.total)
+          setSelectedIds(new Set())
+        }
+        setNextCursor(data.nextCursor)
+      } catch (error) {
+        console.error("Failed to fetch recordings:", error)
+        // Stop infinite scroll from retrying a failing page in a loop
+        if (cursor && requestId === requestRef.current) setNextCursor(null)
+      } finally {
+        if (requestId === requestRef.current) {
+          setLoading(false)
+          setLoadingMore(false)
+        }
+      }
+    },
+    [filters],
+  )
 
+  // Reload from the first page whenever the filters change, debounced so typing
+  // in the search box doesn't send a request per keystroke
   useEffect(() => {
-    fetchRecordings()
+    if (!filters) return
+    const search = writeFilters(filters).toString()
+    window.history.replaceState(null, "", search ? `?${search}` : window.location.pathname)
+
+    const timer = setTimeout(() => loadPage(null), 250)
+    return () => clearTimeout(timer)
+  }, [filters, loadPage])
 
+  useEffect(() => {
     const handleUploadComplete = () => {
-      fetchRecordings()
+      loadPage(null)
     }
 
     window.addEventListener("recordingUploaded", handleUploadComplete)
     return () => window.removeEventListener("recordingUploaded", handleUploadComplete)
-  }, [])
+  }, [loadPage])
 
-  const fetchRecordings = async () => {
-    try {
-      const response = await fetch("/api/recordings")
-      if (response.ok) {
-        const data = await response.json()
-        setRecordings(data)
-      }
-    } catch (error) {
-      console.error("Failed to fetch recordings:", error)
-    } finally {
-      setLoading(false)
-    }
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextCursor || loadingMore) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadPage(nextCursor)
+      },
+      { rootMargin: "200px" },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loadingMore, loadPage])
+
+  const updateFilters = (changes: Partial<RecordingFilters>) => {
+    setFilters((prev) => ({ ...(prev ?? DEFAULT_FILTERS), ...changes }))
   }
 
-  // Filter and sort recordings
-  const filteredAndSortedRecordings = useMemo(() => {
-    let filtered = recordings
+  const currentFilters = filters ?? DEFAULT_FILTERS
+  const filtered = hasActiveFilters(currentFilters)
+  const searching = Boolean(currentFilters.q.trim())
 
-    // Apply search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = recordings.filter(
-        (recording) =>
-          recording.title.toLowerCase().includes(query) || recording.filename.toLowerCase().includes(query),
-      )
-    }
+  // Applies the changes right away and puts the old values back if the server rejects them
+  const updateRecording = async (id: string, changes: EditableFields) => {
+    const target = recordings.find((r) => r._id === id)
+    if (!target) return
+    const keys = Object.keys(changes) as (keyof EditableFields)[]
+    const rollback = Object.fromEntries(keys.map((key) => [key, target[key]])) as EditableFields
 
-    // Apply sorting
-    filtered.sort((a, b) => {
-      let aValue: any = a[sortField]
-      let bValue: any = b[sortField]
-
-      if (sortField === "createdAt") {
-        aValue = new Date(aValue).getTime()
-        bValue = new Date(bValue).getTime()
-      } else if (typeof aValue === "string") {
-        aValue = aValue.toLowerCase()
-        bValue = bValue.toLowerCase()
+    setRecordings((prev) => prev.map((r) => (r._id === id ? { ...r, ...changes } : r)))
+    try {
+      const response = await fetch(`/api/recordings/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Update failed with status ${response.status}`)
       }
+      setRecordings((prev) =>
+        prev.map((r) => (r._id === id ? { ...r, title: data.title, description: data.description } : r)),
+      )
+    } catch (error) {
+      console.error("Failed to update recording:", error)
+      setRecordings((prev) => prev.map((r) => (r._id === id ? { ...r, ...rollback } : r)))
+      alert(`Failed to update recording: ${(error as Error).message}`)
+    }
+  }
 
-      if (sortOrder === "asc") {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0
-      }
+  // How a bulk action went, as a toast: how many recordings it applied to and
+  // why it didn't apply to the rest
+  const showBulkSummary = (response: BulkResponse, action?: ToastActionElement) => {
+    const failures = response.results.filter((result) => !result.ok)
+    const titles = new Map(recordings.map((r) => [r._id, r.title]))
+    const count = (n: number) => `${n} recording${n === 1 ? "" : "s"}`
+    const done = {
+      delete: `Moved ${count(response.succeeded)} to trash`,
+      restore: `Restored ${count(response.succeeded)}`,
+      tag: `Updated tags on ${count(response.succeeded)}`,
+      move: `Moved ${count(response.succeeded)}`,
+      download: `Prepared ${count(response.succeeded)} for download`,
+    }[response.action]
+
+    toast({
+      variant: response.succeeded === 0 ? "destructive" : "default",
+      title: failures.length > 0 ? `${done}, ${failures.length} failed` : done,
+      description:
+        failures.length > 0 ? (
+          <ul className="space-y-0.5">
+            {failures.slice(0, 5).map((failure) => (
+              <li key={failure.id}>
+                {titles.get(failure.id) ?? failure.id}: {failure.error}
+              </li>
+            ))}
+            {failures.length > 5 && <li>and {failures.length - 5} more</li>}
+          </ul>
+        ) : undefined,
+      action: response.succeeded > 0 ? action : undefined,
     })
+  }
 
-    return filtered
-  }, [recordings, searchQuery, sortField, sortOrder])
-
-  const deleteRecording = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this recording? This action cannot be undone.")) {
-      return
-    }
-
-    setDeletingIds((prev) => new Set(prev).add(id))
+  const runBulk = async (request: BulkRequestBody): Promise<BulkResponse | null> => {
     try {
-      const response = await fetch(`/api/recordings/${id}`, {
-        method: "DELETE",
+      const response = await fetch("/api/recordings/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
       })
-
-      if (response.ok) {
-        setRecordings((prev) => prev.filter((r) => r._id !== id))
-        setSelectedIds((prev) => {
-          const newSet = new Set(prev)
-          newSet.delete(id)
-          return newSet
-        })
-        if (playingId === id) {
-          setPlayingId(null)
-        }
-      } else {
-        const errorData = await response.json()
-        alert(`Failed to delete recording: ${errorData.error}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`)
       }
+      return data
     } catch (error) {
-      console.error("Failed to delete recording:", error)
-      alert("Failed to delete recording. Please try again.")
-    } finally {
-      setDeletingIds((prev) => {
-        const newSet = new Set(prev)
-        newSet.delete(id)
-        return newSet
-      })
+      console.error("Bulk action failed:", error)
+      toast({ variant: "destructive", title: "Something went wrong", description: (error as Error).message })
+      return null
     }
   }
 
-  const deleteSelectedRecordings = async () => {
-    if (selectedIds.size === 0) return
+  // Tags or moves recordings right away, then puts the old values back for
+  // any the server reports it couldn't change
+  const organizeRecordings = async (
+    ids: string[],
+    request: BulkRequestBody,
+    changesFor: (recording: Recording) => OrganizeFields,
+  ) => {
+    const targets = recordings.filter((r) => ids.includes(r._id))
+    if (targets.length === 0) return
+    const rollbacks = new Map(targets.map((r) => [r._id, { tags: r.tags, folderId: r.folderId }]))
+
+    setRecordings((prev) => prev.map((r) => (rollbacks.has(r._id) ? { ...r, ...changesFor(r) } : r)))
+    const response = await runBulk(request)
+    const results = new Map(response?.results.map((result) => [result.id, result]))
+    setRecordings((prev) =>
+      prev.map((r) => {
+        if (!rollbacks.has(r._id)) return r
+        const result = results.get(r._id)
+        if (!result?.ok) return { ...r, ...rollbacks.get(r._id) }
+        return {
+          ...r,
+          ...(result.tags && { tags: result.tags }),
+          ...(result.folderId !== undefined && { folderId: result.folderId }),
+        }
+      }),
+    )
+    if (!response) return
+    if (ids.length > 1 || response.failed > 0) showBulkSummary(response)
 
-    if (!confirm(`Are you sure you want to delete ${selectedIds.size} recording(s)? This action cannot be undone.`)) {
-      return
+    // Tag and folder counts changed, and moved or retagged recordings may no longer match the view
+    if (response.succeeded > 0) {
+      refreshLibrary()
+      if (currentFilters.folder || currentFilters.tags?.length) loadPage(null)
     }
+  }
 
-    const idsToDelete = Array.from(selectedIds)
-    setDeletingIds(new Set(idsToDelete))
+  const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
 
-    try {
-      const deletePromises = idsToDelete.map((id) => fetch(`/api/recordings/${id}`, { method: "DELETE" }))
-
-      const results = await Promise.allSettled(deletePromises)
-      const successfulDeletes = results
-        .map((result, index) => ({ result, id: idsToDelete[index] }))
-        .filter(({ result }) => result.status === "fulfilled" && result.value.ok)
-        .map(({ id }) => id)
-
-      if (successfulDeletes.length > 0) {
-        setRecordings((prev) => prev.filter((r) => !successfulDeletes.includes(r._id)))
-        setSelectedIds(new Set())
-        if (playingId && successfulDeletes.includes(playingId)) {
-          setPlayingId(null)
-        }
-      }
+  const addTag = (ids: string[], name: string) =>
+    organizeRecordings(ids, { action: "tag", ids, add: [name] }, (r) => ({
+      tags: (r.tags ?? []).some((tag) => sameTag(tag, name)) ? r.tags : [...(r.tags ?? []), name],
+    }))
+
+  const toggleTag = (recording: Recording, name: string) => {
+    if ((recording.tags ?? []).some((tag) => sameTag(tag, name))) {
+      const ids = [recording._id]
+      organizeRecordings(ids, { action: "tag", ids, remove: [name] }, (r) => ({
+        tags: (r.tags ?? []).filter((tag) => !sameTag(tag, name)),
+      }))
+    } else {
+      addTag([recording._id], name)
+    }
+  }
+
+  const moveRecordings = (ids: string[], folderId: string | null) =>
+    organizeRecordings(ids, { action: "move", ids, folderId }, () => ({ folderId }))
+
+  // Dragging a selected recording drags the whole selection
+  const startDrag = (event: DragEvent, id: string) => {
+    const ids = selectedIds.has(id) ? Array.from(selectedIds) : [id]
+    event.dataTransfer.setData(RECORDING_DRAG_TYPE, JSON.stringify(ids))
+    event.dataTransfer.effectAllowed = "move"
+  }
 
-      const failedCount = idsToDelete.length - successfulDeletes.length
-      if (failedCount > 0) {
-        alert(`${failedCount} recording(s) failed to delete. Please try again.`)
+  const tagColors = new Map(tags.map((tag) => [tag.name, tag.color]))
+
+  const restoreRecordings = async (ids: string[]) => {
+    const response = await runBulk({ action: "restore", ids })
+    if (!response) return
+    showBulkSummary(response)
+    loadPage(null)
+    refreshLibrary()
+  }
+
+  // Deleting only moves recordings to the trash, so there is no confirmation;
+  // the summary offers to undo it instead
+  const trashRecordings = async (ids: string[]) => {
+    setDeletingIds((prev) => new Set([...Array.from(prev), ...ids]))
+    const response = await runBulk({ action: "delete", ids })
+    setDeletingIds((prev) => new Set(Array.from(prev).filter((id) => !ids.includes(id))))
+    if (!response) return
+
+    const trashed = response.results.filter((result) => result.ok).map((result) => result.id)
+    if (trashed.length > 0) {
+      setRecordings((prev) => prev.filter((r) => !trashed.includes(r._id)))
+      setTotal((prev) => (prev === null ? prev : prev - trashed.length))
+      setSelectedIds((prev) => new Set(Array.from(prev).filter((id) => !trashed.includes(id))))
+      if (playingId && trashed.includes(playingId)) {
+        setPlayingId(null)
       }
-    } catch (error) {
-      console.error("Failed to delete recordings:", error)
-      alert("Failed to delete recordings. Please try again.")
-    } finally {
-      setDeletingIds(new Set())
+      refreshLibrary()
+    }
+    showBulkSummary(
+      response,
+      <ToastAction altText="Undo delete" onClick={() => restoreRecordings(trashed)}>
+        Undo
+      </ToastAction>,
+    )
+  }
+
+  // Packs the recordings into one ZIP. The archive is streamed, so following
+  // the link saves it straight to disk instead of building it in memory here.
+  const downloadRecordings = async (ids: string[]) => {
+    setPreparingDownload(true)
+    const response = await runBulk({ action: "download", ids })
+    setPreparingDownload(false)
+    if (!response) return
+
+    if (response.failed > 0) showBulkSummary(response)
+    if (response.downloadUrl) {
+      const a = document.createElement("a")
+      a.href = response.downloadUrl
+      a.click()
     }
   }
 
   const toggleSelectAll = () => {
-    if (selectedIds.size === filteredAndSortedRecordings.length) {
+    if (selectedIds.size === recordings.length) {
       setSelectedIds(new Set())
     } else {
-      setSelectedIds(new Set(filteredAndSortedRecordings.map((r) => r._id)))
+      setSelectedIds(new Set(recordings.map((r) => r._id)))
     }
   }
 
@@ -214,7 +479,8 @@ export function RecordingsList() {
     return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i]
   }
 
-  const formatDuration = (seconds: number) => {
+  const formatDuration = (duration: number) => {
+    const seconds = Math.round(duration)
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
     return `${mins}:${secs.toString().padStart(2, "0")}`
@@ -232,10 +498,22 @@ export function RecordingsList() {
 
   const getSelectAllIcon = () => {
     if (selectedIds.size === 0) return <Square className="h-4 w-4" />
-    if (selectedIds.size === filteredAndSortedRecordings.length) return <CheckSquare className="h-4 w-4" />
+    if (selectedIds.size === recordings.length) return <CheckSquare className="h-4 w-4" />
     return <Minus className="h-4 w-4" />
   }
 
+  if (showTrash) {
+    return (
+      <TrashView
+        onClose={() => setShowTrash(false)}
+        onRestored={() => {
+          loadPage(null)
+          refreshLibrary()
+        }}
+      />
+    )
+  }
+
   if (loading) {
     return (
       <Card>
@@ -255,18 +533,30 @@ export function RecordingsList() {
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span>Your Recordings</span>
-            <Badge variant="secondary">{recordings.length} total</Badge>
-            {filteredAndSortedRecordings.length !== recordings.length && (
-              <Badge variant="outline">{filteredAndSortedRecordings.length} filtered</Badge>
-            )}
+            <Badge variant={filtered ? "outline" : "secondary"}>
+              {total ?? recordings.length} {filtered ? "matching" : "total"}
+            </Badge>
           </div>
 
           <div className="flex items-center gap-2">
+            {selectedIds.size > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadRecordings(Array.from(selectedIds))}
+                disabled={preparingDownload}
+                className="gap-1"
+              >
+                {preparingDownload ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+                Download Selected ({selectedIds.size})
+              </Button>
+            )}
+
             {selectedIds.size > 0 && (
               <Button
                 variant="destructive"
                 size="sm"
-                onClick={deleteSelectedRecordings}
+                onClick={() => trashRecordings(Array.from(selectedIds))}
                 disabled={deletingIds.size > 0}
                 className="gap-1"
               >
@@ -275,6 +565,11 @@ export function RecordingsList() {
               </Button>
             )}
 
+            <Button variant="ghost" size="sm" onClick={() => setShowTrash(true)} className="gap-1">
+              <Trash className="h-3 w-3" />
+              Trash
+            </Button>
+
             <div className="flex items-center border border-border rounded-md">
               <Button
                 variant={viewMode === "list" ? "default" : "ghost"}
@@ -297,7 +592,7 @@ export function RecordingsList() {
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {recordings.length === 0 ? (
+        {recordings.length === 0 && !filtered ? (
           <div className="text-center text-muted-foreground py-8">
             No recordings yet. Start recording or upload existing files to see them here!
           </div>
@@ -308,15 +603,19 @@ export function RecordingsList() {
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search recordings..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search titles, descriptions and transcripts..."
+                  value={currentFilters.q}
+                  onChange={(e) => updateFilters({ q: e.target.value })}
                   className="pl-10"
                 />
               </div>
 
               <div className="flex gap-2">
-                <Select value={sortField} onValueChange={(value: SortField) => setSortField(value)}>
+                <Select
+                  value={searching ? "relevance" : currentFilters.sort}
+                  onValueChange={(value: SortField) => updateFilters({ sort: value })}
+                  disabled={searching}
+                >
                   <SelectTrigger className="w-32">
                     <SelectValue />
                   </SelectTrigger>
@@ -325,40 +624,92 @@ export function RecordingsList() {
                     <SelectItem value="title">Title</SelectItem>
                     <SelectItem value="size">Size</SelectItem>
                     <SelectItem value="duration">Duration</SelectItem>
+                    {searching && <SelectItem value="relevance">Relevance</SelectItem>}
                   </SelectContent>
                 </Select>
 
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setSortOrder(sortOrder === "asc" ? "desc" : "asc")}
+                  onClick={() => updateFilters({ order: currentFilters.order === "asc" ? "desc" : "asc" })}
+                  disabled={searching}
+                  className="gap-1"
+                >
+                  {currentFilters.order === "asc" ? <SortAsc className="h-4 w-4" /> : <SortDesc className="h-4 w-4" />}
+                </Button>
+
+                <Button
+                  variant={showFilters ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setShowFilters(!showFilters)}
                   className="gap-1"
                 >
-                  {sortOrder === "asc" ? <SortAsc className="h-4 w-4" /> : <SortDesc className="h-4 w-4" />}
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Filters
                 </Button>
               </div>
             </div>
 
+            {showFilters && <RecordingFiltersPanel filters={currentFilters} onChange={setFilters} />}
+
+            <FolderBar
+              folders={folders}
+              current={currentFilters.folder}
+              onNavigate={(folder) => updateFilters({ folder })}
+              onMoveRecordings={(folderId, ids) => moveRecordings(ids, folderId)}
+              onFoldersChanged={() => {
+                refreshLibrary()
+                loadPage(null)
+              }}
+            />
+
+            <TagFilterBar
+              tags={tags}
+              selected={currentFilters.tags ?? []}
+              onChange={(selected) => updateFilters({ tags: selected.length > 0 ? selected : undefined })}
+              onTagsChanged={() => {
+                refreshLibrary()
+                loadPage(null)
+              }}
+            />
+
             {/* Bulk Actions */}
-            {filteredAndSortedRecordings.length > 0 && (
+            {recordings.length > 0 && (
               <div className="flex items-center gap-2 py-2 border-b border-border">
                 <Button variant="ghost" size="sm" onClick={toggleSelectAll} className="gap-2">
                   {getSelectAllIcon()}
                   Select All
                 </Button>
                 {selectedIds.size > 0 && (
-                  <span className="text-sm text-muted-foreground">{selectedIds.size} selected</span>
+                  <>
+                    <span className="text-sm text-muted-foreground">{selectedIds.size} selected</span>
+                    <TagPicker tags={tags} onSelect={(name) => addTag(Array.from(selectedIds), name)}>
+                      <Button variant="outline" size="sm" className="gap-1">
+                        <TagIcon className="h-3 w-3" />
+                        Tag
+                      </Button>
+                    </TagPicker>
+                    <MoveToFolderMenu
+                      folders={folders}
+                      onMove={(folderId) => moveRecordings(Array.from(selectedIds), folderId)}
+                    />
+                  </>
                 )}
               </div>
             )}
 
             {/* Recordings Display */}
-            {filteredAndSortedRecordings.length === 0 ? (
+            {recordings.length === 0 ? (
               <div className="text-center text-muted-foreground py-8">No recordings match your search criteria.</div>
             ) : viewMode === "list" ? (
               <div className="space-y-4">
-                {filteredAndSortedRecordings.map((recording) => (
-                  <div key={recording._id} className="border border-border rounded-lg p-4 space-y-3">
+                {recordings.map((recording) => (
+                  <div
+                    key={recording._id}
+                    className="border border-border rounded-lg p-4 space-y-3"
+                    draggable
+                    onDragStart={(event) => startDrag(event, recording._id)}
+                  >
                     <div className="flex items-start justify-between">
                       <div className="flex items-start gap-3">
                         <Checkbox
@@ -366,8 +717,57 @@ export function RecordingsList() {
                           onCheckedChange={() => toggleSelectRecording(recording._id)}
                           className="mt-1"
                         />
+                        <button
+                          type="button"
+                          onClick={() => setPlayingId(playingId === recording._id ? null : recording._id)}
+                          className="shrink-0"
+                          aria-label={`Play ${recording.title}`}
+                        >
+                          <RecordingThumbnail recording={recording} className="w-28" />
+                        </button>
                         <div className="space-y-1">
-                          <h3 className="font-medium text-foreground">{recording.title}</h3>
+                          <h3 className="font-medium text-foreground">
+                            <InlineEdit
+                              label="Title"
+                              value={recording.title}
+                              maxLength={200}
+                              required
+                              onSave={(title) => updateRecording(recording._id, { title })}
+                            />
+                          </h3>
+                          <InlineEdit
+                            label="Description"
+                            value={recording.description ?? ""}
+                            placeholder="Add a description"
+                            maxLength={2000}
+                            multiline
+                            className="text-sm text-muted-foreground whitespace-pre-line"
+                            onSave={(description) => updateRecording(recording._id, { description })}
+                          />
+                          {recording.snippets && <SearchSnippets snippets={recording.snippets} />}
+                          <div className="flex flex-wrap items-center gap-1">
+                            {(recording.tags ?? []).map((tag) => (
+                              <TagBadge
+                                key={tag}
+                                name={tag}
+                                color={tagColors.get(tag)}
+                                onRemove={() => toggleTag(recording, tag)}
+                              />
+                            ))}
+                            <TagPicker
+                              tags={tags}
+                              selected={recording.tags}
+                              onSelect={(name) => toggleTag(recording, name)}
+                            >
+                              <button
+                                type="button"
+                                className="inline-flex items-center gap-1 rounded-full border border-dashed border-border px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+                              >
+                                <TagIcon className="h-3 w-3" />
+                                Tag
+                              </button>
+                            </TagPicker>
+                          </div>
                           <div className="flex items-center gap-4 text-sm text-muted-foreground">
                             <div className="flex items-center gap-1">
                               <Calendar className="h-3 w-3" />
@@ -410,10 +810,15 @@ export function RecordingsList() {
                           Download
                         </Button>
 
+                        <Button variant="outline" size="sm" onClick={() => setSharing(recording)} className="gap-1">
+                          <Share2 className="h-3 w-3" />
+                          Share
+                        </Button>
+
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => deleteRecording(recording._id)}
+                          onClick={() => trashRecordings([recording._id])}
                           disabled={deletingIds.has(recording._id)}
                           className="gap-1 text-destructive hover:text-destructive"
                         >
@@ -425,12 +830,12 @@ export function RecordingsList() {
 
                     {playingId === recording._id && (
                       <div className="pt-2">
-                        <video
-                          controls
-                          className="w-full max-w-2xl rounded-lg bg-black"
-                          style={{ aspectRatio: "16/9" }}
+                        <RecordingPlayer
+                          className="max-w-2xl"
                           src={recording.url}
-                          preload="metadata"
+                          poster={recording.thumbnailUrl}
+                          storyboardUrl={recording.storyboardUrl}
+                          duration={recording.duration}
                         />
                       </div>
                     )}
@@ -440,8 +845,13 @@ export function RecordingsList() {
             ) : (
               // Grid View
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {filteredAndSortedRecordings.map((recording) => (
-                  <div key={recording._id} className="border border-border rounded-lg p-4 space-y-3">
+                {recordings.map((recording) => (
+                  <div
+                    key={recording._id}
+                    className="border border-border rounded-lg p-4 space-y-3"
+                    draggable
+                    onDragStart={(event) => startDrag(event, recording._id)}
+                  >
                     <div className="flex items-start justify-between">
                       <Checkbox
                         checked={selectedIds.has(recording._id)}
@@ -450,7 +860,7 @@ export function RecordingsList() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => deleteRecording(recording._id)}
+                        onClick={() => trashRecordings([recording._id])}
                         disabled={deletingIds.has(recording._id)}
                         className="text-destructive hover:text-destructive"
                       >
@@ -458,8 +868,61 @@ export function RecordingsList() {
                       </Button>
                     </div>
 
+                    {playingId !== recording._id && (
+                      <button
+                        type="button"
+                        onClick={() => setPlayingId(recording._id)}
+                        className="block w-full"
+                        aria-label={`Play ${recording.title}`}
+                      >
+                        <RecordingThumbnail recording={recording} scrub />
+                      </button>
+                    )}
+
                     <div className="space-y-2">
-                      <h3 className="font-medium text-foreground text-sm line-clamp-2">{recording.title}</h3>
+                      <h3 className="font-medium text-foreground text-sm">
+                        <InlineEdit
+                          label="Title"
+                          value={recording.title}
+                          maxLength={200}
+                          required
+                          className="line-clamp-2"
+                          onSave={(title) => updateRecording(recording._id, { title })}
+                        />
+                      </h3>
+                      <InlineEdit
+                        label="Description"
+                        value={recording.description ?? ""}
+                        placeholder="Add a description"
+                        maxLength={2000}
+                        multiline
+                        className="text-xs text-muted-foreground whitespace-pre-line line-clamp-3"
+                        onSave={(description) => updateRecording(recording._id, { description })}
+                      />
+                      {recording.snippets && <SearchSnippets snippets={recording.snippets} />}
+                      <div className="flex flex-wrap items-center gap-1">
+                        {(recording.tags ?? []).map((tag) => (
+                          <TagBadge
+                            key={tag}
+                            name={tag}
+                            color={tagColors.get(tag)}
+                            onRemove={() => toggleTag(recording, tag)}
+                          />
+                        ))}
+                        <TagPicker
+                          tags={tags}
+                          selected={recording.tags}
+                          onSelect={(name) => toggleTag(recording, name)}
+                        >
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 rounded-full border border-dashed border-border px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+                          >
+                            <TagIcon className="h-3 w-3" />
+                            Tag
+                          </button>
+                        </TagPicker>
+                      </div>
 
                       <div className="text-xs text-muted-foreground space-y-1">
                         <div>{formatDate(recording.createdAt)}</div>
@@ -496,17 +959,26 @@ export function RecordingsList() {
                           <Download className="h-3 w-3" />
                           Download
                         </Button>
+
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSharing(recording)}
+                          className="gap-1 text-xs"
+                          title="Share"
+                        >
+                          <Share2 className="h-3 w-3" />
+                        </Button>
                       </div>
                     </div>
 
                     {playingId === recording._id && (
                       <div className="pt-2">
-                        <video
-                          controls
-                          className="w-full rounded-lg bg-black"
-                          style={{ aspectRatio: "16/9" }}
+                        <RecordingPlayer
                           src={recording.url}
-                          preload="metadata"
+                          poster={recording.thumbnailUrl}
+                          storyboardUrl={recording.storyboardUrl}
+                          duration={recording.duration}
                         />
                       </div>
                     )}
@@ -514,9 +986,21 @@ export function RecordingsList() {
                 ))}
               </div>
             )}
+
+            {/* Infinite scroll sentinel */}
+            <div ref={sentinelRef} className="flex justify-center py-2 text-sm text-muted-foreground">
+              {loadingMore && (
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading more...
+                </span>
+              )}
+            </div>
           </div>
         )}
       </CardContent>
+
+      <ShareDialog recording={sharing} onClose={() => setSharing(null)} />
     </Card>
   )
 }
@@ -4,8 +4,58 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { uploadResumable } from "@/lib/resumable-upload";
+import { startLiveUpload, type LiveUploader } from "@/lib/live-uploader";
+import { AudioMixer, type ChannelSettings } from "@/components/audio-mixer";
+import { useMediaDevices } from "@/hooks/use-media-devices";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { videoExtension } from "@/lib/utils";
+import { remuxWebMBlob } from "@/lib/webm-remux";
+import { attachThumbnail } from "@/lib/thumbnail-capture";
+import { useLimits } from "@/hooks/use-limits";
+import { formatMegabytes } from "@/lib/limits";
+import {
+  CODEC_LABELS,
+  QUALITY_PRESETS,
+  estimateMegabytesPerMinute,
+  isCodecSupported,
+  resolveQuality,
+  selectMimeType,
+  type CodecPreference,
+  type QualityPresetId,
+  type QualitySettings,
+} from "@/lib/recording-presets";
+import {
+  createWebcamCompositor,
+  type OverlayPosition,
+  type OverlaySettings,
+  type OverlayShape,
+  type OverlaySize,
+  type WebcamCompositor,
+} from "@/lib/webcam-compositor";
+import {
+  appendStoredChunk,
+  createStoredRecording,
+  deleteStoredRecording,
+  holdRecordingLock,
+  isRecordingStoreSupported,
+  listOrphanedRecordings,
+  loadStoredRecording,
+  updateStoredDuration,
+  type StoredRecording,
+} from "@/lib/recording-store";
 import {
   Play,
+  Pause,
   Square,
   Download,
   Upload,
@@ -13,6 +63,11 @@ import {
   MicOff,
   AlertTriangle,
   CheckCircle,
+  History,
+  Trash2,
+  Radio,
+  Camera,
+  CameraOff,
 } from "lucide-react";
 
 interface RecordingState {
@@ -23,6 +78,35 @@ interface RecordingState {
   stream: MediaStream | null;
 }
 
+type AudioSource = "system" | "mic";
+
+interface DevicePreferences {
+  micId: string;
+  cameraId: string;
+}
+
+const DEFAULT_DEVICE = "default";
+
+interface QualityPreferences {
+  preset: QualityPresetId;
+  codec: CodecPreference;
+  custom: QualitySettings;
+}
+
+// "3 minutes", "90 seconds"
+const describeDuration = (seconds: number) =>
+  seconds % 60 === 0
+    ? `${seconds / 60} minute${seconds === 60 ? "" : "s"}`
+    : `${seconds} seconds`;
+
+// An ideal (not exact) constraint falls back to another device if the saved
+// one has been unplugged
+const preferredDevice = (deviceId: string) =>
+  deviceId === DEFAULT_DEVICE ? undefined : { ideal: deviceId };
+
+const effectiveGain = (settings: ChannelSettings) =>
+  settings.muted ? 0 : settings.gain;
+
 interface BrowserSupport {
   isSupported: boolean;
   missingFeatures: string[];
@@ -38,27 +122,171 @@ export function ScreenRecorder() {
     stream: null,
   });
 
-  const [micEnabled, setMicEnabled] = useState(true);
+  const [micEnabled, setMicEnabled] = usePersistentState(
+    "recorder.micEnabled",
+    true
+  );
+  const [devicePrefs, setDevicePrefs] = usePersistentState<DevicePreferences>(
+    "recorder.devices",
+    { micId: DEFAULT_DEVICE, cameraId: DEFAULT_DEVICE }
+  );
+  // System audio defaults slightly below the mic so narration stays audible
+  const [audioMix, setAudioMix] = usePersistentState<
+    Record<AudioSource, ChannelSettings>
+  >("recorder.audioMix", {
+    system: { gain: 0.7, muted: false },
+    mic: { gain: 1, muted: false },
+  });
+  const limits = useLimits();
+  const [quality, setQuality] = usePersistentState<QualityPreferences>(
+    "recorder.quality",
+    {
+      preset: "standard",
+      codec: "vp9",
+      custom: QUALITY_PRESETS.standard.settings,
+    }
+  );
+  // Filled in after mount; MediaRecorder doesn't exist during server rendering
+  const [supportedCodecs, setSupportedCodecs] = useState<
+    Partial<Record<CodecPreference, boolean>>
+  >({});
+  const [analysers, setAnalysers] = useState<
+    Partial<Record<AudioSource, AnalyserNode>>
+  >({});
+  const { devices: microphones, refresh: refreshMicrophones } =
+    useMediaDevices("audioinput");
+  const { devices: cameras, refresh: refreshCameras } =
+    useMediaDevices("videoinput");
+  const [liveUploadEnabled, setLiveUploadEnabled] = useState(false);
+  const [webcamEnabled, setWebcamEnabled] = useState(false);
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>({
+    position: "bottom-right",
+    size: "medium",
+    shape: "circle",
+  });
+  // Chunks not yet acknowledged by the server; null when not live uploading
+  const [livePending, setLivePending] = useState<number | null>(null);
   const [uploadStatus, setUploadStatus] = useState<
     "idle" | "uploading" | "success" | "error"
   >("idle");
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [browserSupport, setBrowserSupport] = useState<BrowserSupport | null>(
     null
   );
   const [error, setError] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [orphanedRecordings, setOrphanedRecordings] = useState<
+    StoredRecording[]
+  >([]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Active (unpaused) recording time accumulated before the current segment, in ms
+  const activeTimeRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  // Identifies the current take so an interrupted upload of it can resume
+  const recordingKeyRef = useRef("");
+  // IndexedDB copy of the current take (see lib/recording-store)
+  const storedIdRef = useRef<string | null>(null);
+  const chunkSeqRef = useRef(0);
+  const releaseLockRef = useRef<(() => void) | null>(null);
+  const liveUploaderRef = useRef<LiveUploader | null>(null);
+  // Capture streams (screen, mic, webcam) that have to be stopped with the recording
+  const sourceStreamsRef = useRef<MediaStream[]>([]);
+  const compositorRef = useRef<WebcamCompositor | null>(null);
+  const gainNodesRef = useRef<Partial<Record<AudioSource, GainNode>>>({});
+  // Read by the timer callbacks, which are created once
+  const maxDurationRef = useRef(limits.maxDurationSeconds);
+  maxDurationRef.current = limits.maxDurationSeconds;
+
+  const qualitySettings = resolveQuality(quality.preset, quality.custom);
+  const estimatedMegabytes = estimateMegabytesPerMinute(qualitySettings);
+  const exceedsUploadLimit =
+    estimatedMegabytes * (limits.maxDurationSeconds / 60) >
+    limits.maxFileSize / (1024 * 1024);
+
+  const updateCustomQuality = (changes: Partial<QualitySettings>) =>
+    setQuality((prev) => ({
+      ...prev,
+      preset: "custom",
+      custom: { ...resolveQuality(prev.preset, prev.custom), ...changes },
+    }));
 
   // Check browser compatibility on mount
   useEffect(() => {
     checkBrowserSupport();
   }, []);
 
+  // Work out which codecs this browser can record
+  useEffect(() => {
+    if (typeof MediaRecorder === "undefined") return;
+    setSupportedCodecs(
+      Object.fromEntries(
+        (Object.keys(CODEC_LABELS) as CodecPreference[]).map((codec) => [
+          codec,
+          isCodecSupported(codec),
+        ])
+      )
+    );
+  }, []);
+
+  // Look for takes left behind by a crashed or closed tab
+  useEffect(() => {
+    if (!isRecordingStoreSupported()) return;
+    listOrphanedRecordings()
+      .then(setOrphanedRecordings)
+      .catch((storeError) =>
+        console.warn("Could not read stored recordings:", storeError)
+      );
+  }, []);
+
+  // The compositor reads overlay changes on its next frame, so the webcam
+  // can be moved or resized while recording
+  useEffect(() => {
+    compositorRef.current?.update(overlaySettings);
+  }, [overlaySettings]);
+
+  // Apply mixer changes to the live audio graph
+  useEffect(() => {
+    const audioContext = audioContextRef.current;
+    for (const [source, gain] of Object.entries(gainNodesRef.current)) {
+      if (gain && audioContext) {
+        gain.gain.setTargetAtTime(
+          effectiveGain(audioMix[source as AudioSource]),
+          audioContext.currentTime,
+          0.02
+        );
+      }
+    }
+  }, [audioMix]);
+
+  const releaseSources = () => {
+    gainNodesRef.current = {};
+    setAnalysers({});
+    compositorRef.current?.stop();
+    compositorRef.current = null;
+    sourceStreamsRef.current.forEach((stream) =>
+      stream.getTracks().forEach((track) => track.stop())
+    );
+    sourceStreamsRef.current = [];
+  };
+
+  // Drops the IndexedDB copy of the current take once it is no longer needed
+  const forgetStoredRecording = () => {
+    const id = storedIdRef.current;
+    storedIdRef.current = null;
+    releaseLockRef.current?.();
+    releaseLockRef.current = null;
+    if (id) {
+      deleteStoredRecording(id).catch((storeError) =>
+        console.warn("Could not delete stored recording:", storeError)
+      );
+    }
+  };
+
   const checkBrowserSupport = () => {
     const missingFeatures: string[] = [];
     let browser = "Unknown";
@@ -96,26 +324,134 @@ export function ScreenRecorder() {
       .padStart(2, "0")}`;
   };
 
+  const getActiveTime = () =>
+    activeTimeRef.current +
+    (segmentStartRef.current ? Date.now() - segmentStartRef.current : 0);
+
   const startTimer = useCallback(() => {
+    segmentStartRef.current = Date.now();
     timerRef.current = setInterval(() => {
-      setState((prev) => {
-        if (prev.recordingTime >= 180) {
-          // 3 minutes limit
-          stopRecording();
-          return prev;
-        }
-        return { ...prev, recordingTime: prev.recordingTime + 1 };
-      });
-    }, 1000);
+      const seconds = Math.floor(getActiveTime() / 1000);
+      if (seconds >= maxDurationRef.current) {
+        // Duration limit reached (paused time does not count)
+        stopRecording();
+      }
+      setState((prev) => ({
+        ...prev,
+        recordingTime: Math.min(seconds, maxDurationRef.current),
+      }));
+    }, 250);
   }, []);
 
+  // Freezes the timer, folding the current segment into the active total
   const stopTimer = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
+    if (segmentStartRef.current) {
+      activeTimeRef.current += Date.now() - segmentStartRef.current;
+      segmentStartRef.current = null;
+    }
   }, []);
 
+  // Loads a finished recording into the preview player
+  const showPreview = (blob: Blob) => {
+    // Clean up previous video URL
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl);
+    }
+
+    // Show preview with better handling
+    if (blob.size > 0) {
+      console.log("Blob has data, attempting to create preview");
+
+      // Use setTimeout to ensure the component has re-rendered and video element is available
+      setTimeout(() => {
+        if (videoRef.current) {
+          console.log("Video element is available");
+
+          try {
+            const newVideoUrl = URL.createObjectURL(blob);
+            console.log("Created blob URL:", newVideoUrl);
+
+            setVideoUrl(newVideoUrl);
+            videoRef.current.src = newVideoUrl;
+
+            // Ensure video loads and can play
+            videoRef.current.load();
+
+            // Set up event listeners with better error handling
+            const handleLoadedData = () => {
+              console.log("Video preview loaded successfully");
+              setError(null); // Clear any previous errors
+            };
+
+            const handleError = (e: Event) => {
+              console.error("Video preview error:", e);
+              const target = e.target as HTMLVideoElement;
+              console.error("Video error details:", {
+                error: target.error,
+                networkState: target.networkState,
+                readyState: target.readyState,
+                src: target.src,
+              });
+              setError(
+                "Failed to load video preview. You can still download or upload the recording."
+              );
+            };
+
+            videoRef.current.addEventListener(
+              "loadeddata",
+              handleLoadedData,
+              { once: true }
+            );
+            videoRef.current.addEventListener("error", handleError, {
+              once: true,
+            });
+          } catch (urlError) {
+            console.error("Error creating blob URL:", urlError);
+            setError(
+              "Failed to create preview URL. You can still download or upload the recording."
+            );
+          }
+        } else {
+          console.warn(
+            "Video element still not found after timeout, trying again..."
+          );
+          // Retry after a longer delay
+          setTimeout(() => {
+            if (videoRef.current) {
+              console.log("Video element found on retry");
+              try {
+                const newVideoUrl = URL.createObjectURL(blob);
+                setVideoUrl(newVideoUrl);
+                videoRef.current.src = newVideoUrl;
+                videoRef.current.load();
+                setError(null); // Clear error since we found the video element
+              } catch (retryError) {
+                console.error("Retry failed:", retryError);
+                setError(
+                  "Recording completed but preview is not available. You can still download the file."
+                );
+              }
+            } else {
+              console.error("Video element not available even after retry");
+              setError(
+                "Recording completed but preview is not available. You can still download the file."
+              );
+            }
+          }, 500); // Longer delay for retry
+        }
+      }, 100); // Small delay to allow component re-render
+    } else {
+      console.warn("Blob is empty - no video data recorded");
+      setError(
+        "Recording completed but no data was captured. Please try again."
+      );
+    }
+  };
+
   const startRecording = async () => {
     try {
       setError(null);
@@ -123,9 +459,9 @@ export function ScreenRecorder() {
       // Request screen capture with better options
       const displayStream = await navigator.mediaDevices.getDisplayMedia({
         video: {
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          frameRate: { ideal: 30 },
+          width: { ideal: qualitySettings.width },
+          height: { ideal: qualitySettings.height },
+          frameRate: { ideal: qualitySettings.frameRate },
         },
         audio: {
           echoCancellation: true,
@@ -134,13 +470,17 @@ export function ScreenRecorder() {
         },
       });
 
-      let finalStream = displayStream;
+      sourceStreamsRef.current = [displayStream];
+      let videoTrack = displayStream.getVideoTracks()[0];
+      let audioTracks = displayStream.getAudioTracks();
 
       // Add microphone audio if enabled
+      let micStream: MediaStream | null = null;
       if (micEnabled) {
         try {
-          const audioStream = await navigator.mediaDevices.getUserMedia({
+          micStream = await navigator.mediaDevices.getUserMedia({
             audio: {
+              deviceId: preferredDevice(devicePrefs.micId),
               echoCancellation: true,
               noiseSuppression: true,
               autoGainControl: true,
@@ -148,33 +488,9 @@ export function ScreenRecorder() {
             },
             video: false,
           });
-
-          // Create audio context for mixing
-          const audioContext = new AudioContext();
-          audioContextRef.current = audioContext;
-          const destination = audioContext.createMediaStreamDestination();
-
-          // Mix system audio and microphone
-          if (displayStream.getAudioTracks().length > 0) {
-            const displayAudio =
-              audioContext.createMediaStreamSource(displayStream);
-            const displayGain = audioContext.createGain();
-            displayGain.gain.value = 0.7; // Reduce system audio slightly
-            displayAudio.connect(displayGain);
-            displayGain.connect(destination);
-          }
-
-          const micAudio = audioContext.createMediaStreamSource(audioStream);
-          const micGain = audioContext.createGain();
-          micGain.gain.value = 1.0; // Keep mic at full volume
-          micAudio.connect(micGain);
-          micGain.connect(destination);
-
-          // Combine video from display with mixed audio
-          const videoTrack = displayStream.getVideoTracks()[0];
-          const audioTrack = destination.stream.getAudioTracks()[0];
-
-          finalStream = new MediaStream([videoTrack, audioTrack]);
+          sourceStreamsRef.current.push(micStream);
+          // Device labels become readable once access is granted
+          refreshMicrophones();
         } catch (micError) {
           console.warn(
             "Microphone access denied, recording without mic:",
@@ -184,33 +500,131 @@ export function ScreenRecorder() {
         }
       }
 
-      // Determine best codec
-      let mimeType = "video/webm;codecs=vp9,opus";
-      if (!MediaRecorder.isTypeSupported(mimeType)) {
-        mimeType = "video/webm;codecs=vp8,opus";
-        if (!MediaRecorder.isTypeSupported(mimeType)) {
-          mimeType = "video/webm";
+      // Route every audio source through its own gain and level meter so it
+      // can be adjusted while recording
+      const audioSources: [AudioSource, MediaStream][] = [];
+      if (displayStream.getAudioTracks().length > 0) {
+        audioSources.push(["system", displayStream]);
+      }
+      if (micStream) {
+        audioSources.push(["mic", micStream]);
+      }
+
+      if (audioSources.length > 0) {
+        const audioContext = new AudioContext();
+        audioContextRef.current = audioContext;
+        const destination = audioContext.createMediaStreamDestination();
+        const analysers: Partial<Record<AudioSource, AnalyserNode>> = {};
+
+        for (const [source, stream] of audioSources) {
+          const input = audioContext.createMediaStreamSource(stream);
+          const gain = audioContext.createGain();
+          gain.gain.value = effectiveGain(audioMix[source]);
+          const analyser = audioContext.createAnalyser();
+          analyser.fftSize = 1024;
+
+          input.connect(gain);
+          gain.connect(analyser);
+          gain.connect(destination);
+
+          gainNodesRef.current[source] = gain;
+          analysers[source] = analyser;
         }
+
+        setAnalysers(analysers);
+        // Use the mixed audio instead of the raw source tracks
+        audioTracks = destination.stream.getAudioTracks();
       }
 
-      console.log("Selected MIME type:", mimeType);
-      console.log("MediaRecorder supported types check:", {
-        vp9opus: MediaRecorder.isTypeSupported("video/webm;codecs=vp9,opus"),
-        vp8opus: MediaRecorder.isTypeSupported("video/webm;codecs=vp8,opus"),
-        webm: MediaRecorder.isTypeSupported("video/webm"),
-      });
+      // Composite the webcam into a corner of the screen capture
+      if (webcamEnabled) {
+        try {
+          const webcamStream = await navigator.mediaDevices.getUserMedia({
+            video: {
+              deviceId: preferredDevice(devicePrefs.cameraId),
+              width: { ideal: 640 },
+              height: { ideal: 480 },
+            },
+            audio: false,
+          });
+          sourceStreamsRef.current.push(webcamStream);
+          refreshCameras();
+
+          const compositor = createWebcamCompositor(
+            displayStream,
+            webcamStream,
+            overlaySettings,
+            qualitySettings.frameRate
+          );
+          compositorRef.current = compositor;
+          videoTrack = compositor.stream.getVideoTracks()[0];
+        } catch (cameraError) {
+          console.warn(
+            "Camera access denied, recording without webcam:",
+            cameraError
+          );
+          setError("Camera access denied. Recording without webcam overlay.");
+        }
+      }
+
+      // Combine the (possibly composited) video with the final audio
+      const finalStream = new MediaStream([videoTrack, ...audioTracks]);
+
+      // Preferred codec first, then the remaining ones in fallback order
+      const preferredMimeType = selectMimeType(quality.codec);
+      console.log("Selected MIME type:", preferredMimeType, "for", quality.codec);
 
-      // Set up MediaRecorder with better options
       const mediaRecorder = new MediaRecorder(finalStream, {
-        mimeType,
-        videoBitsPerSecond: 2500000, // 2.5 Mbps
-        audioBitsPerSecond: 128000, // 128 kbps
+        ...(preferredMimeType && { mimeType: preferredMimeType }),
+        videoBitsPerSecond: qualitySettings.videoBitsPerSecond,
+        audioBitsPerSecond: qualitySettings.audioBitsPerSecond,
       });
 
       console.log("MediaRecorder created with state:", mediaRecorder.state);
+      // Falls back to the browser's default container when nothing matched
+      const mimeType =
+        mediaRecorder.mimeType || preferredMimeType || "video/webm";
 
       chunksRef.current = [];
 
+      // Persist every chunk so the take survives a crash or reload
+      forgetStoredRecording();
+      chunkSeqRef.current = 0;
+      recordingKeyRef.current = `screen-recording:${Date.now()}`;
+      if (isRecordingStoreSupported()) {
+        try {
+          const storedId = await createStoredRecording(mimeType);
+          storedIdRef.current = storedId;
+          releaseLockRef.current = holdRecordingLock(storedId);
+          recordingKeyRef.current = `screen-recording:${storedId}`;
+        } catch (storeError) {
+          console.warn(
+            "Could not persist recording locally, keeping it in memory only:",
+            storeError
+          );
+        }
+      }
+
+      // Optionally stream chunks to the server while recording
+      liveUploaderRef.current = null;
+      setLivePending(null);
+      setUploadStatus("idle");
+      if (liveUploadEnabled) {
+        try {
+          liveUploaderRef.current = await startLiveUpload({
+            title: `Screen Recording ${new Date().toLocaleString()}`,
+            contentType: mimeType,
+            onPendingChange: setLivePending,
+          });
+          setLivePending(0);
+        } catch (liveError) {
+          console.warn("Live upload unavailable:", liveError);
+          setError(
+            "Live upload is unavailable. The recording will be kept locally for a normal upload."
+          );
+        }
+      }
+
       mediaRecorder.ondataavailable = (event) => {
         console.log("Data available:", {
           size: event.data.size,
@@ -219,6 +633,20 @@ export function ScreenRecorder() {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
           console.log("Total chunks collected:", chunksRef.current.length);
+
+          const storedId = storedIdRef.current;
+          if (storedId) {
+            appendStoredChunk(
+              storedId,
+              chunkSeqRef.current++,
+              event.data,
+              Math.floor(getActiveTime() / 1000)
+            ).catch((storeError) =>
+              console.warn("Could not persist recording chunk:", storeError)
+            );
+          }
+
+          liveUploaderRef.current?.enqueue(event.data);
         } else {
           console.warn("Empty data chunk received");
         }
@@ -227,111 +655,25 @@ export function ScreenRecorder() {
       mediaRecorder.onstop = () => {
         console.log("MediaRecorder stopped, chunks:", chunksRef.current.length);
 
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        console.log("Created blob:", { size: blob.size, type: blob.type });
-
-        setState((prev) => ({
-          ...prev,
-          recordedBlob: blob,
-          isRecording: false,
-        }));
-
-        // Clean up previous video URL
-        if (videoUrl) {
-          URL.revokeObjectURL(videoUrl);
-        }
-
-        // Show preview with better handling
-        if (blob.size > 0) {
-          console.log("Blob has data, attempting to create preview");
-
-          // Use setTimeout to ensure the component has re-rendered and video element is available
-          setTimeout(() => {
-            if (videoRef.current) {
-              console.log("Video element is available");
-
-              try {
-                const newVideoUrl = URL.createObjectURL(blob);
-                console.log("Created blob URL:", newVideoUrl);
-
-                setVideoUrl(newVideoUrl);
-                videoRef.current.src = newVideoUrl;
-
-                // Ensure video loads and can play
-                videoRef.current.load();
+        const rawBlob = new Blob(chunksRef.current, { type: mimeType });
+        console.log("Created blob:", {
+          size: rawBlob.size,
+          type: rawBlob.type,
+        });
 
-                // Set up event listeners with better error handling
-                const handleLoadedData = () => {
-                  console.log("Video preview loaded successfully");
-                  setError(null); // Clear any previous errors
-                };
+        setState((prev) => ({ ...prev, isRecording: false, isPaused: false }));
+        const seekableBlob = makeSeekable(rawBlob);
+        seekableBlob.then((blob) => {
+          setState((prev) => ({ ...prev, recordedBlob: blob }));
+          showPreview(blob);
+        });
 
-                const handleError = (e: Event) => {
-                  console.error("Video preview error:", e);
-                  const target = e.target as HTMLVideoElement;
-                  console.error("Video error details:", {
-                    error: target.error,
-                    networkState: target.networkState,
-                    readyState: target.readyState,
-                    src: target.src,
-                  });
-                  setError(
-                    "Failed to load video preview. You can still download or upload the recording."
-                  );
-                };
+        stopTimer();
 
-                videoRef.current.addEventListener(
-                  "loadeddata",
-                  handleLoadedData,
-                  { once: true }
-                );
-                videoRef.current.addEventListener("error", handleError, {
-                  once: true,
-                });
-              } catch (urlError) {
-                console.error("Error creating blob URL:", urlError);
-                setError(
-                  "Failed to create preview URL. You can still download or upload the recording."
-                );
-              }
-            } else {
-              console.warn(
-                "Video element still not found after timeout, trying again..."
-              );
-              // Retry after a longer delay
-              setTimeout(() => {
-                if (videoRef.current) {
-                  console.log("Video element found on retry");
-                  try {
-                    const newVideoUrl = URL.createObjectURL(blob);
-                    setVideoUrl(newVideoUrl);
-                    videoRef.current.src = newVideoUrl;
-                    videoRef.current.load();
-                    setError(null); // Clear error since we found the video element
-                  } catch (retryError) {
-                    console.error("Retry failed:", retryError);
-                    setError(
-                      "Recording completed but preview is not available. You can still download the file."
-                    );
-                  }
-                } else {
-                  console.error("Video element not available even after retry");
-                  setError(
-                    "Recording completed but preview is not available. You can still download the file."
-                  );
-                }
-              }, 500); // Longer delay for retry
-            }
-          }, 100); // Small delay to allow component re-render
-        } else {
-          console.warn("Blob is empty - no video data recorded");
-          setError(
-            "Recording completed but no data was captured. Please try again."
-          );
+        if (liveUploaderRef.current) {
+          finishLiveUpload(liveUploaderRef.current, seekableBlob);
         }
 
-        stopTimer();
-
         // Clean up audio context
         if (audioContextRef.current) {
           audioContextRef.current.close();
@@ -348,9 +690,13 @@ export function ScreenRecorder() {
       mediaRecorderRef.current = mediaRecorder;
       mediaRecorder.start(1000); // Collect data every second
 
+      activeTimeRef.current = 0;
+      segmentStartRef.current = null;
+
       setState((prev) => ({
         ...prev,
         isRecording: true,
+        isPaused: false,
         recordingTime: 0,
         stream: finalStream,
         recordedBlob: null,
@@ -359,7 +705,7 @@ export function ScreenRecorder() {
       startTimer();
 
       // Handle stream end (user stops sharing)
-      finalStream.getVideoTracks()[0].onended = () => {
+      displayStream.getVideoTracks()[0].onended = () => {
         stopRecording();
       };
 
@@ -372,6 +718,9 @@ export function ScreenRecorder() {
       document.addEventListener("visibilitychange", handleVisibilityChange);
     } catch (error) {
       console.error("Error starting recording:", error);
+      releaseSources();
+      liveUploaderRef.current?.cancel();
+      liveUploaderRef.current = null;
       let errorMessage = "Failed to start recording. ";
 
       if (error instanceof Error) {
@@ -390,17 +739,31 @@ export function ScreenRecorder() {
     }
   };
 
+  // Reads the recorder from its ref rather than from state, since this is also
+  // called from the timer and track callbacks captured when recording started
   const stopRecording = () => {
-    if (mediaRecorderRef.current && state.isRecording) {
-      mediaRecorderRef.current.stop();
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder && mediaRecorder.state !== "inactive") {
+      mediaRecorder.stop();
 
       // Stop all tracks
-      if (state.stream) {
-        state.stream.getTracks().forEach((track) => track.stop());
-      }
+      mediaRecorder.stream.getTracks().forEach((track) => track.stop());
+      releaseSources();
 
-      setState((prev) => ({ ...prev, stream: null }));
       stopTimer();
+      const seconds = Math.min(
+        Math.floor(activeTimeRef.current / 1000),
+        maxDurationRef.current
+      );
+      if (storedIdRef.current) {
+        updateStoredDuration(storedIdRef.current, seconds).catch(() => {});
+      }
+      setState((prev) => ({
+        ...prev,
+        stream: null,
+        isPaused: false,
+        recordingTime: seconds,
+      }));
 
       // Clean up audio context
       if (audioContextRef.current) {
@@ -410,19 +773,144 @@ export function ScreenRecorder() {
     }
   };
 
+  // Waits for outstanding live chunks, then has the server assemble the recording
+  const finishLiveUpload = async (
+    uploader: LiveUploader,
+    recording: Promise<Blob>
+  ) => {
+    liveUploaderRef.current = null;
+    setUploadStatus("uploading");
+    let finished = false;
+    try {
+      const { id } = await uploader.finish(
+        Math.min(
+          Math.floor(activeTimeRef.current / 1000),
+          maxDurationRef.current
+        )
+      );
+      finished = true;
+      await attachThumbnail(id, await recording);
+      setUploadStatus("success");
+      forgetStoredRecording();
+
+      // Trigger recordings list refresh
+      window.dispatchEvent(new CustomEvent("recordingUploaded"));
+    } catch (liveError) {
+      console.error("Live upload error:", liveError);
+      // The manual upload starts a fresh session, so drop the staged chunks
+      if (!finished) {
+        uploader.cancel();
+      }
+      setUploadStatus("error");
+      setError(
+        `${
+          liveError instanceof Error ? liveError.message : "Live upload failed."
+        } You can still upload the recording manually.`
+      );
+    } finally {
+      setLivePending(null);
+    }
+  };
+
+  const pauseRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder && mediaRecorder.state === "recording") {
+      mediaRecorder.pause();
+      stopTimer();
+      setState((prev) => ({
+        ...prev,
+        isPaused: true,
+        recordingTime: Math.floor(activeTimeRef.current / 1000),
+      }));
+    }
+  };
+
+  const resumeRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder && mediaRecorder.state === "paused") {
+      mediaRecorder.resume();
+      startTimer();
+      setState((prev) => ({ ...prev, isPaused: false }));
+    }
+  };
+
+  const downloadBlob = (blob: Blob, date = new Date()) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `screen-recording-${date
+      .toISOString()
+      .slice(0, 19)
+      .replace(/:/g, "-")}.${videoExtension(blob.type)}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const downloadRecording = () => {
     if (state.recordedBlob) {
-      const url = URL.createObjectURL(state.recordedBlob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `screen-recording-${new Date()
-        .toISOString()
-        .slice(0, 19)
-        .replace(/:/g, "-")}.webm`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(state.recordedBlob);
+    }
+  };
+
+  // MediaRecorder's WebM has no duration or seek index; add them without
+  // re-encoding. Falls back to the raw blob, which still plays.
+  const makeSeekable = async (blob: Blob) => {
+    try {
+      return await remuxWebMBlob(blob);
+    } catch (remuxError) {
+      console.warn("Could not remux recording, using it as recorded:", remuxError);
+      return blob;
+    }
+  };
+
+  // Loads an orphaned take into the preview, where it can be played back,
+  // downloaded or uploaded like a fresh recording
+  const recoverRecording = async (stored: StoredRecording) => {
+    if (state.isRecording) return;
+    try {
+      const blob = await makeSeekable(await loadStoredRecording(stored.id));
+      forgetStoredRecording();
+      storedIdRef.current = stored.id;
+      releaseLockRef.current = holdRecordingLock(stored.id);
+      recordingKeyRef.current = `screen-recording:${stored.id}`;
+
+      setOrphanedRecordings((prev) => prev.filter((r) => r.id !== stored.id));
+      setUploadStatus("idle");
+      setState((prev) => ({
+        ...prev,
+        recordedBlob: blob,
+        recordingTime: Math.min(stored.duration, limits.maxDurationSeconds),
+      }));
+      showPreview(blob);
+    } catch (storeError) {
+      console.error("Failed to recover recording:", storeError);
+      setError("Could not recover the recording from local storage.");
+    }
+  };
+
+  const downloadOrphanedRecording = async (stored: StoredRecording) => {
+    try {
+      downloadBlob(
+        await makeSeekable(await loadStoredRecording(stored.id)),
+        new Date(stored.startedAt)
+      );
+    } catch (storeError) {
+      console.error("Failed to download stored recording:", storeError);
+      setError("Could not read the recording from local storage.");
+    }
+  };
+
+  const discardOrphanedRecording = async (stored: StoredRecording) => {
+    if (!confirm("Discard this unsaved recording? This cannot be undone.")) {
+      return;
+    }
+    try {
+      await deleteStoredRecording(stored.id);
+      setOrphanedRecordings((prev) => prev.filter((r) => r.id !== stored.id));
+    } catch (storeError) {
+      console.error("Failed to discard stored recording:", storeError);
     }
   };
 
@@ -430,45 +918,36 @@ export function ScreenRecorder() {
     if (!state.recordedBlob) return;
 
     setUploadStatus("uploading");
+    setUploadProgress(0);
     setError(null);
 
     try {
-      const formData = new FormData();
-      formData.append(
-        "recording",
-        state.recordedBlob,
-        `recording-${Date.now()}.webm`
-      );
-      formData.append(
-        "title",
-        `Screen Recording ${new Date().toLocaleString()}`
-      );
-      formData.append("duration", state.recordingTime.toString());
-      formData.append("size", state.recordedBlob.size.toString());
-
-      const response = await fetch("/api/recordings", {
-        method: "POST",
-        body: formData,
+      // Resumable upload: retries and picks up where it left off on network errors
+      const { id } = await uploadResumable(state.recordedBlob, {
+        filename: `recording-${Date.now()}.${videoExtension(
+          state.recordedBlob.type
+        )}`,
+        title: `Screen Recording ${new Date().toLocaleString()}`,
+        duration: state.recordingTime,
+        fingerprint: `${recordingKeyRef.current}:${state.recordedBlob.size}`,
+        onProgress: setUploadProgress,
       });
-
-      if (response.ok) {
-        setUploadStatus("success");
-        // Reset recording state and clean up video URL
-        setState((prev) => ({ ...prev, recordedBlob: null, recordingTime: 0 }));
-        if (videoRef.current) {
-          videoRef.current.src = "";
-        }
-        if (videoUrl) {
-          URL.revokeObjectURL(videoUrl);
-          setVideoUrl(null);
-        }
-
-        // Trigger recordings list refresh
-        window.dispatchEvent(new CustomEvent("recordingUploaded"));
-      } else {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Upload failed");
+      await attachThumbnail(id, state.recordedBlob);
+
+      setUploadStatus("success");
+      forgetStoredRecording();
+      // Reset recording state and clean up video URL
+      setState((prev) => ({ ...prev, recordedBlob: null, recordingTime: 0 }));
+      if (videoRef.current) {
+        videoRef.current.src = "";
       }
+      if (videoUrl) {
+        URL.revokeObjectURL(videoUrl);
+        setVideoUrl(null);
+      }
+
+      // Trigger recordings list refresh
+      window.dispatchEvent(new CustomEvent("recordingUploaded"));
     } catch (error) {
       console.error("Upload error:", error);
       setUploadStatus("error");
@@ -480,23 +959,30 @@ export function ScreenRecorder() {
     }
   };
 
-  // Clean up on unmount
+  // Clean up blob URL once the preview moves on to another one
   useEffect(() => {
     return () => {
-      stopTimer();
-      if (state.stream) {
-        state.stream.getTracks().forEach((track) => track.stop());
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
-      // Clean up blob URL
       if (videoUrl) {
         URL.revokeObjectURL(videoUrl);
       }
     };
   }, [videoUrl]);
 
+  // Clean up on unmount only: the preview URL changes while a new take may be
+  // recording (e.g. when the previous one finishes uploading). Reads refs, since
+  // state captured by this effect would be from the first render.
+  useEffect(() => {
+    return () => {
+      stopTimer();
+      mediaRecorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+      releaseSources();
+      if (audioContextRef.current) {
+        audioContextRef.current.close();
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   if (!browserSupport) {
     return (
       <Card>
@@ -559,6 +1045,68 @@ export function ScreenRecorder() {
         </AlertDescription>
       </Alert>
 
+      {/* Unsaved recordings from a previous session */}
+      {orphanedRecordings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Unsaved Recordings Found
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              These recordings were interrupted before they were uploaded.
+              Recover one to preview and upload it, or download it directly.
+            </p>
+            {orphanedRecordings.map((stored) => (
+              <div
+                key={stored.id}
+                className="flex items-center justify-between border border-border rounded-lg p-3"
+              >
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {new Date(stored.startedAt).toLocaleString()}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {formatTime(stored.duration)} •{" "}
+                    {(stored.size / (1024 * 1024)).toFixed(2)} MB
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => recoverRecording(stored)}
+                    disabled={state.isRecording}
+                    className="gap-1"
+                  >
+                    <Play className="h-3 w-3" />
+                    Recover
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadOrphanedRecording(stored)}
+                    className="gap-1 bg-transparent"
+                  >
+                    <Download className="h-3 w-3" />
+                    Download
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => discardOrphanedRecording(stored)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recording Controls */}
       <Card>
         <CardHeader>
@@ -581,10 +1129,322 @@ export function ScreenRecorder() {
                 )}
                 {micEnabled ? "Mic On" : "Mic Off"}
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setLiveUploadEnabled(!liveUploadEnabled)}
+                className={
+                  liveUploadEnabled ? "text-primary" : "text-muted-foreground"
+                }
+                disabled={state.isRecording}
+                title="Upload chunks to the server while recording"
+              >
+                <Radio className="h-4 w-4" />
+                {liveUploadEnabled ? "Live Upload On" : "Live Upload Off"}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setWebcamEnabled(!webcamEnabled)}
+                className={
+                  webcamEnabled ? "text-primary" : "text-muted-foreground"
+                }
+                disabled={state.isRecording}
+              >
+                {webcamEnabled ? (
+                  <Camera className="h-4 w-4" />
+                ) : (
+                  <CameraOff className="h-4 w-4" />
+                )}
+                {webcamEnabled ? "Cam On" : "Cam Off"}
+              </Button>
             </div>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {/* Quality */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+              <Select
+                value={quality.preset}
+                onValueChange={(value: QualityPresetId) =>
+                  setQuality((prev) => ({ ...prev, preset: value }))
+                }
+                disabled={state.isRecording}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Quality" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUALITY_PRESETS).map(([id, preset]) => (
+                    <SelectItem key={id} value={id}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={quality.codec}
+                onValueChange={(value: CodecPreference) =>
+                  setQuality((prev) => ({ ...prev, codec: value }))
+                }
+                disabled={state.isRecording}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Codec" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CODEC_LABELS) as CodecPreference[]).map(
+                    (codec) => (
+                      <SelectItem
+                        key={codec}
+                        value={codec}
+                        disabled={supportedCodecs[codec] === false}
+                      >
+                        {CODEC_LABELS[codec]}
+                        {supportedCodecs[codec] === false && " (unsupported)"}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <span
+                className={
+                  exceedsUploadLimit
+                    ? "text-yellow-400"
+                    : "text-muted-foreground"
+                }
+              >
+                ~{estimatedMegabytes.toFixed(1)} MB/min
+              </span>
+            </div>
+
+            {quality.preset === "custom" && (
+              <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+                <Select
+                  value={`${quality.custom.width}x${quality.custom.height}`}
+                  onValueChange={(value) => {
+                    const [width, height] = value.split("x").map(Number);
+                    updateCustomQuality({ width, height });
+                  }}
+                  disabled={state.isRecording}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1280x720">720p</SelectItem>
+                    <SelectItem value="1920x1080">1080p</SelectItem>
+                    <SelectItem value="2560x1440">1440p</SelectItem>
+                    <SelectItem value="3840x2160">4K</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(quality.custom.frameRate)}
+                  onValueChange={(value) =>
+                    updateCustomQuality({ frameRate: Number(value) })
+                  }
+                  disabled={state.isRecording}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[15, 24, 30, 60].map((fps) => (
+                      <SelectItem key={fps} value={String(fps)}>
+                        {fps} fps
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <label className="flex items-center gap-1 text-muted-foreground">
+                  Video
+                  <Input
+                    type="number"
+                    min={0.25}
+                    max={20}
+                    step={0.25}
+                    className="w-20"
+                    value={quality.custom.videoBitsPerSecond / 1000000}
+                    onChange={(event) => {
+                      const mbps = Number(event.target.value);
+                      if (mbps > 0) {
+                        updateCustomQuality({
+                          videoBitsPerSecond: Math.round(mbps * 1000000),
+                        });
+                      }
+                    }}
+                    disabled={state.isRecording}
+                  />
+                  Mbps
+                </label>
+                <label className="flex items-center gap-1 text-muted-foreground">
+                  Audio
+                  <Input
+                    type="number"
+                    min={32}
+                    max={320}
+                    step={16}
+                    className="w-20"
+                    value={quality.custom.audioBitsPerSecond / 1000}
+                    onChange={(event) => {
+                      const kbps = Number(event.target.value);
+                      if (kbps > 0) {
+                        updateCustomQuality({
+                          audioBitsPerSecond: Math.round(kbps * 1000),
+                        });
+                      }
+                    }}
+                    disabled={state.isRecording}
+                  />
+                  kbps
+                </label>
+              </div>
+            )}
+
+            {exceedsUploadLimit && (
+              <p className="text-center text-xs text-yellow-400">
+                A full {describeDuration(limits.maxDurationSeconds)} recording
+                at this quality may exceed the{" "}
+                {formatMegabytes(limits.maxFileSize)} upload limit.
+              </p>
+            )}
+          </div>
+
+          {/* Input devices */}
+          {(micEnabled || webcamEnabled) && (
+            <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+              {micEnabled && (
+                <Select
+                  value={devicePrefs.micId}
+                  onValueChange={(value) =>
+                    setDevicePrefs((prev) => ({ ...prev, micId: value }))
+                  }
+                  disabled={state.isRecording}
+                >
+                  <SelectTrigger className="w-56">
+                    <Mic className="h-4 w-4" />
+                    <SelectValue placeholder="Microphone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_DEVICE}>
+                      Default microphone
+                    </SelectItem>
+                    {microphones
+                      .filter((device) => device.deviceId !== DEFAULT_DEVICE)
+                      .map((device, index) => (
+                        <SelectItem key={device.deviceId} value={device.deviceId}>
+                          {device.label || `Microphone ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {webcamEnabled && (
+                <Select
+                  value={devicePrefs.cameraId}
+                  onValueChange={(value) =>
+                    setDevicePrefs((prev) => ({ ...prev, cameraId: value }))
+                  }
+                  disabled={state.isRecording}
+                >
+                  <SelectTrigger className="w-56">
+                    <Camera className="h-4 w-4" />
+                    <SelectValue placeholder="Camera" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_DEVICE}>Default camera</SelectItem>
+                    {cameras
+                      .filter((device) => device.deviceId !== DEFAULT_DEVICE)
+                      .map((device, index) => (
+                        <SelectItem key={device.deviceId} value={device.deviceId}>
+                          {device.label || `Camera ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
+          {/* Per-source levels (adjustable while recording) */}
+          <AudioMixer
+            channels={[
+              {
+                id: "system",
+                label: "System audio",
+                settings: audioMix.system,
+                analyser: analysers.system ?? null,
+              },
+              ...(micEnabled
+                ? [
+                    {
+                      id: "mic",
+                      label: "Microphone",
+                      settings: audioMix.mic,
+                      analyser: analysers.mic ?? null,
+                    },
+                  ]
+                : []),
+            ]}
+            onChange={(id, settings) =>
+              setAudioMix((prev) => ({ ...prev, [id]: settings }))
+            }
+          />
+
+          {/* Webcam overlay settings (adjustable while recording) */}
+          {webcamEnabled && (
+            <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+              <span className="text-muted-foreground">Webcam overlay:</span>
+              <Select
+                value={overlaySettings.position}
+                onValueChange={(value: OverlayPosition) =>
+                  setOverlaySettings((prev) => ({ ...prev, position: value }))
+                }
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="top-left">Top left</SelectItem>
+                  <SelectItem value="top-right">Top right</SelectItem>
+                  <SelectItem value="bottom-left">Bottom left</SelectItem>
+                  <SelectItem value="bottom-right">Bottom right</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={overlaySettings.size}
+                onValueChange={(value: OverlaySize) =>
+                  setOverlaySettings((prev) => ({ ...prev, size: value }))
+                }
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="small">Small</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="large">Large</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={overlaySettings.shape}
+                onValueChange={(value: OverlayShape) =>
+                  setOverlaySettings((prev) => ({ ...prev, shape: value }))
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="circle">Circle</SelectItem>
+                  <SelectItem value="rounded">Rounded</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="flex items-center justify-center gap-4">
             {!state.isRecording ? (
               <Button onClick={startRecording} size="lg" className="gap-2">
@@ -592,36 +1452,81 @@ export function ScreenRecorder() {
                 Start Recording
               </Button>
             ) : (
-              <Button
-                onClick={stopRecording}
-                variant="destructive"
-                size="lg"
-                className="gap-2"
-              >
-                <Square className="h-5 w-5" />
-                Stop Recording
-              </Button>
+              <>
+                {state.isPaused ? (
+                  <Button
+                    onClick={resumeRecording}
+                    variant="outline"
+                    size="lg"
+                    className="gap-2"
+                  >
+                    <Play className="h-5 w-5" />
+                    Resume
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={pauseRecording}
+                    variant="outline"
+                    size="lg"
+                    className="gap-2"
+                  >
+                    <Pause className="h-5 w-5" />
+                    Pause
+                  </Button>
+                )}
+                <Button
+                  onClick={stopRecording}
+                  variant="destructive"
+                  size="lg"
+                  className="gap-2"
+                >
+                  <Square className="h-5 w-5" />
+                  Stop Recording
+                </Button>
+              </>
             )}
           </div>
 
           {state.isRecording && (
             <div className="text-center space-y-2">
-              <div className="text-2xl font-mono font-bold text-primary animate-pulse">
+              <div
+                className={`text-2xl font-mono font-bold ${
+                  state.isPaused ? "text-yellow-400" : "text-primary animate-pulse"
+                }`}
+              >
                 {formatTime(state.recordingTime)}
               </div>
               <div className="text-sm text-muted-foreground">
-                Recording... (Max 3 minutes) •{" "}
+                {state.isPaused ? (
+                  <span className="inline-flex items-center gap-1 text-yellow-400">
+                    <Pause className="h-3 w-3" />
+                    Paused
+                  </span>
+                ) : (
+                  "Recording..."
+                )}{" "}
+                (Max {describeDuration(limits.maxDurationSeconds)}) •{" "}
                 {micEnabled ? "System + Mic Audio" : "System Audio Only"}
+                {livePending !== null &&
+                  ` • Live upload${
+                    livePending > 0 ? ` (${livePending} pending)` : ""
+                  }`}
               </div>
               <div className="w-full bg-secondary rounded-full h-2">
                 <div
                   className="bg-primary h-2 rounded-full transition-all duration-1000"
-                  style={{ width: `${(state.recordingTime / 180) * 100}%` }}
+                  style={{
+                    width: `${
+                      (state.recordingTime / limits.maxDurationSeconds) * 100
+                    }%`,
+                  }}
                 />
               </div>
-              {state.recordingTime >= 150 && (
+              {state.recordingTime >=
+                Math.round((limits.maxDurationSeconds * 5) / 6) && (
                 <div className="text-sm text-yellow-400">
-                  Warning: Approaching 3-minute limit
+                  Warning: Approaching the{" "}
+                  {describeDuration(limits.maxDurationSeconds)} limit
                 </div>
               )}
             </div>
@@ -705,16 +1610,26 @@ export function ScreenRecorder() {
 
               <Button
                 onClick={uploadRecording}
-                disabled={uploadStatus === "uploading"}
+                disabled={
+                  uploadStatus === "uploading" || uploadStatus === "success"
+                }
                 className="gap-2"
               >
                 <Upload className="h-4 w-4" />
                 {uploadStatus === "uploading"
-                  ? "Uploading..."
+                  ? livePending !== null
+                    ? `Finishing live upload...${
+                        livePending > 0 ? ` (${livePending} pending)` : ""
+                      }`
+                    : `Uploading... ${uploadProgress}%`
                   : "Upload to Server"}
               </Button>
             </div>
 
+            {uploadStatus === "uploading" && livePending === null && (
+              <Progress value={uploadProgress} className="h-2" />
+            )}
+
             {uploadStatus === "success" && (
               <Alert>
                 <CheckCircle className="h-4 w-4" />
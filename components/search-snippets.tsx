@@ -0,0 +1,36 @@
+"use client"
+
+import type { SearchSnippet } from "@/lib/recording-search"
+
+const FIELD_LABELS: Record<SearchSnippet["field"], string> = {
+  title: "Title",
+  tags: "Tags",
+  description: "Description",
+  transcript: "Transcript",
+}
+
+// Where a search result matched, with the matching words highlighted. The
+// title is already shown above, so its snippet is skipped.
+export function SearchSnippets({ snippets }: { snippets: SearchSnippet[] }) {
+  const shown = snippets.filter((snippet) => snippet.field !== "title")
+  if (shown.length === 0) return null
+
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      {shown.map((snippet) => (
+        <p key={snippet.field} className="line-clamp-2">
+          <span className="font-medium text-foreground">{FIELD_LABELS[snippet.field]}: </span>
+          {snippet.segments.map((segment, index) =>
+            segment.match ? (
+              <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ),
+          )}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { Ban, Copy, Eye, Link as LinkIcon, Lock } from "lucide-react"
+import type { ShareLinkStatus, ShareLinkSummary } from "@/lib/share-links"
+
+// Dates arrive from the API as strings
+type ShareLink = Omit<ShareLinkSummary, "expiresAt" | "revokedAt" | "createdAt"> & {
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface ShareDialogProps {
+  // The recording to share; null keeps the dialog closed
+  recording: { _id: string; title: string } | null
+  onClose: () => void
+}
+
+const STATUS_LABELS: Record<Exclude<ShareLinkStatus, "active">, string> = {
+  revoked: "Revoked",
+  expired: "Expired",
+  exhausted: "View limit reached",
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+
+async function requestJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+// Creates and revokes a recording's public links, each with an optional
+// expiry date, password and view limit
+export function ShareDialog({ recording, onClose }: ShareDialogProps) {
+  const { toast } = useToast()
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [expiresAt, setExpiresAt] = useState("")
+  const [password, setPassword] = useState("")
+  const [maxViews, setMaxViews] = useState("")
+
+  const sharesUrl = recording ? `/api/recordings/${recording._id}/shares` : null
+
+  const load = useCallback(async () => {
+    if (!sharesUrl) return
+    setLoading(true)
+    try {
+      setLinks(await requestJson(sharesUrl, "GET"))
+    } catch (error) {
+      console.error("Failed to fetch share links:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [sharesUrl])
+
+  useEffect(() => {
+    setLinks([])
+    setExpiresAt("")
+    setPassword("")
+    setMaxViews("")
+    load()
+  }, [load])
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(new URL(link.url, window.location.origin).toString())
+      toast({ title: "Link copied" })
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: "destructive" })
+    }
+  }
+
+  const createLink = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!sharesUrl) return
+    setCreating(true)
+    try {
+      const link: ShareLink = await requestJson(sharesUrl, "POST", {
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        password: password || null,
+        maxViews: maxViews ? Number(maxViews) : null,
+      })
+      setLinks((prev) => [link, ...prev])
+      setExpiresAt("")
+      setPassword("")
+      setMaxViews("")
+      copyLink(link)
+    } catch (error) {
+      toast({ title: "Couldn't create the link", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revokeLink = async (link: ShareLink) => {
+    if (!sharesUrl) return
+    if (!confirm("Revoke this link? Anyone who has it will lose access.")) return
+    try {
+      await requestJson(`${sharesUrl}/${link._id}`, "DELETE")
+      load()
+    } catch (error) {
+      toast({ title: "Couldn't revoke the link", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  return (
+    <Dialog open={recording !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{recording?.title}"</DialogTitle>
+          <DialogDescription>Anyone with a link can watch the recording without an account.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={createLink} className="space-y-3 rounded-lg border border-border p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="share-expires">Expires (optional)</Label>
+              <Input
+                id="share-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-max-views">View limit (optional)</Label>
+              <Input
+                id="share-max-views"
+                type="number"
+                min={1}
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <Button type="submit" size="sm" disabled={creating} className="gap-1">
+            <LinkIcon className="h-3 w-3" />
+            {creating ? "Creating..." : "Create Link"}
+          </Button>
+        </form>
+
+        <div className="max-h-64 space-y-2 overflow-y-auto">
+          {loading && links.length === 0 ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">Loading links...</div>
+          ) : links.length === 0 ? (
+            <div className="py-4 text-center text-sm text-muted-foreground">No share links yet.</div>
+          ) : (
+            links.map((link) => (
+              <div key={link._id} className="flex items-center gap-3 rounded-lg border border-border p-2 text-sm">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-mono text-xs">{link.url}</span>
+                    {link.hasPassword && <Lock className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {link.status === "active" ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">{STATUS_LABELS[link.status]}</Badge>
+                    )}
+                    <span className="flex items-center gap-1">
+                      <Eye className="h-3 w-3" />
+                      {link.views}
+                      {link.maxViews !== null && ` / ${link.maxViews}`}
+                    </span>
+                    {link.expiresAt && <span>Expires {formatDate(link.expiresAt)}</span>}
+                  </div>
+                </div>
+                {link.status === "active" && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => copyLink(link)} title="Copy link">
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeLink(link)}
+                      title="Revoke link"
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Ban className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
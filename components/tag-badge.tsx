@@ -0,0 +1,42 @@
+"use client"
+
+import { X } from "lucide-react"
+import { tagColorClasses } from "@/lib/tag-colors"
+
+interface TagBadgeProps {
+  name: string
+  color?: string
+  onRemove?: () => void
+  onClick?: () => void
+  // Outlined instead of filled, e.g. for filter chips that are off
+  muted?: boolean
+}
+
+export function TagBadge({ name, color = "gray", onRemove, onClick, muted = false }: TagBadgeProps) {
+  const classes = tagColorClasses(color)
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+        muted ? "border border-border text-muted-foreground" : classes.badge
+      } ${onClick ? "cursor-pointer" : ""}`}
+      onClick={onClick}
+    >
+      <span className={`h-1.5 w-1.5 rounded-full ${classes.swatch}`} />
+      {name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(event) => {
+            event.stopPropagation()
+            onRemove()
+          }}
+          className="opacity-60 hover:opacity-100"
+          aria-label={`Remove tag ${name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { InlineEdit } from "@/components/inline-edit"
+import { TagBadge } from "@/components/tag-badge"
+import { Settings2, Trash2 } from "lucide-react"
+import { TAG_COLORS, tagColorClasses } from "@/lib/tag-colors"
+import type { TagSummary } from "@/hooks/use-library"
+
+interface TagFilterBarProps {
+  tags: TagSummary[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  onTagsChanged: () => void
+}
+
+async function updateTag(id: string, method: "PATCH" | "DELETE", body?: unknown) {
+  const response = await fetch(`/api/tags/${id}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || `Request failed with status ${response.status}`)
+  }
+}
+
+// Toggleable tag chips for filtering the list, plus a popover to rename,
+// recolor and delete tags
+export function TagFilterBar({ tags, selected, onChange, onTagsChanged }: TagFilterBarProps) {
+  if (tags.length === 0) return null
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter((tag) => tag !== name) : [...selected, name])
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action()
+    } catch (error) {
+      alert((error as Error).message)
+    }
+    onTagsChanged()
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map((tag) => (
+        <TagBadge
+          key={tag._id}
+          name={`${tag.name} (${tag.count})`}
+          color={tag.color}
+          muted={!selected.includes(tag.name)}
+          onClick={() => toggle(tag.name)}
+        />
+      ))}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2" title="Manage tags">
+            <Settings2 className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2" align="start">
+          {tags.map((tag) => (
+            <div key={tag._id} className="flex items-center gap-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <InlineEdit
+                  label="Tag name"
+                  value={tag.name}
+                  maxLength={40}
+                  required
+                  onSave={(name) => {
+                    run(async () => {
+                      await updateTag(tag._id, "PATCH", { name })
+                      if (selected.includes(tag.name)) onChange(selected.map((s) => (s === tag.name ? name : s)))
+                    })
+                  }}
+                />
+              </div>
+              <div className="flex gap-0.5">
+                {TAG_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => run(() => updateTag(tag._id, "PATCH", { color }))}
+                    className={`h-3 w-3 rounded-full ${tagColorClasses(color).swatch} ${
+                      tag.color === color ? "ring-2 ring-offset-1 ring-ring" : ""
+                    }`}
+                    aria-label={`Color ${color}`}
+                  />
+                ))}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1 text-destructive hover:text-destructive"
+                onClick={() => {
+                  if (!confirm(`Delete tag "${tag.name}"? It will be removed from ${tag.count} recording(s).`)) return
+                  run(async () => {
+                    await updateTag(tag._id, "DELETE")
+                    if (selected.includes(tag.name)) onChange(selected.filter((s) => s !== tag.name))
+                  })
+                }}
+                title="Delete tag"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Check, Plus } from "lucide-react"
+import { tagColorClasses } from "@/lib/tag-colors"
+import type { TagSummary } from "@/hooks/use-library"
+
+interface TagPickerProps {
+  tags: TagSummary[]
+  // Tags shown with a check mark
+  selected?: string[]
+  // Called with an existing tag's name or a new one typed into the box
+  onSelect: (name: string) => void
+  children: ReactNode
+}
+
+// Autocompleting tag chooser. Typing a name that doesn't exist offers to
+// create it; the server creates tags on first use.
+export function TagPicker({ tags, selected = [], onSelect, children }: TagPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+
+  const typed = query.trim().replace(/\s+/g, " ")
+  const exists = tags.some((tag) => tag.name.toLowerCase() === typed.toLowerCase())
+  const selectedKeys = new Set(selected.map((name) => name.toLowerCase()))
+
+  const choose = (name: string) => {
+    onSelect(name)
+    setQuery("")
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-56 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Find or create a tag..." value={query} onValueChange={setQuery} maxLength={40} />
+          <CommandList>
+            <CommandEmpty>{typed ? "No matching tags" : "No tags yet"}</CommandEmpty>
+            <CommandGroup>
+              {tags.map((tag) => (
+                <CommandItem key={tag._id} value={tag.name} onSelect={() => choose(tag.name)}>
+                  <span className={`h-2 w-2 rounded-full ${tagColorClasses(tag.color).swatch}`} />
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  {selectedKeys.has(tag.name.toLowerCase()) && <Check className="h-3 w-3" />}
+                </CommandItem>
+              ))}
+              {typed && !exists && !typed.includes(",") && (
+                <CommandItem value={`create:${typed}`} onSelect={() => choose(typed)}>
+                  <Plus className="h-3 w-3" />
+                  Create "{typed}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
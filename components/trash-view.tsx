@@ -0,0 +1,197 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, FileVideo, RotateCcw, Trash2 } from "lucide-react"
+
+interface TrashedRecording {
+  _id: string
+  title: string
+  deletedAt: string
+  // When the retention period runs out and it is deleted for good
+  purgeAt: string
+  thumbnailUrl: string
+}
+
+interface TrashViewProps {
+  onClose: () => void
+  // Called after recordings are put back, so the main list can reload
+  onRestored: () => void
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+
+async function request(url: string, method: string) {
+  const response = await fetch(url, { method })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+function TrashThumbnail({ src }: { src: string }) {
+  const [failed, setFailed] = useState(false)
+
+  return (
+    <div className="relative w-28 flex-shrink-0 overflow-hidden rounded-md bg-muted" style={{ aspectRatio: "16/9" }}>
+      {failed ? (
+        <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+          <FileVideo className="h-5 w-5" />
+        </div>
+      ) : (
+        <img
+          src={src}
+          alt=""
+          loading="lazy"
+          className="absolute inset-0 h-full w-full object-cover opacity-60"
+          onError={() => setFailed(true)}
+        />
+      )}
+    </div>
+  )
+}
+
+// Recordings that were deleted but not yet purged, with restore and
+// delete-forever actions
+export function TrashView({ onClose, onRestored }: TrashViewProps) {
+  const [recordings, setRecordings] = useState<TrashedRecording[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set())
+
+  const load = useCallback(async () => {
+    try {
+      const data = await request("/api/trash", "GET")
+      setRecordings(data.recordings)
+      setRetentionDays(data.retentionDays)
+    } catch (error) {
+      console.error("Failed to fetch trash:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (id: string, action: () => Promise<unknown>) => {
+    setBusyIds((prev) => new Set(prev).add(id))
+    try {
+      await action()
+      setRecordings((prev) => prev.filter((r) => r._id !== id))
+    } catch (error) {
+      alert((error as Error).message)
+    } finally {
+      setBusyIds((prev) => {
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }
+  }
+
+  const restore = (id: string) =>
+    run(id, async () => {
+      await request(`/api/recordings/${id}/restore`, "POST")
+      onRestored()
+    })
+
+  const deleteForever = (recording: TrashedRecording) => {
+    if (!confirm(`Permanently delete "${recording.title}"? This action cannot be undone.`)) return
+    run(recording._id, () => request(`/api/trash/${recording._id}`, "DELETE"))
+  }
+
+  const emptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${recordings.length} recording(s) in the trash? This cannot be undone.`)) {
+      return
+    }
+    try {
+      await request("/api/trash", "DELETE")
+      setRecordings([])
+    } catch (error) {
+      alert((error as Error).message)
+      load()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={onClose} title="Back to recordings">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <span>Trash</span>
+            <Badge variant="secondary">{recordings.length}</Badge>
+          </div>
+          {recordings.length > 0 && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={emptyTrash}
+              disabled={busyIds.size > 0}
+              className="gap-1"
+            >
+              <Trash2 className="h-3 w-3" />
+              Empty Trash
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {retentionDays !== null && (
+          <p className="text-sm text-muted-foreground">
+            Recordings are permanently deleted {retentionDays} day{retentionDays === 1 ? "" : "s"} after they are
+            moved to the trash.
+          </p>
+        )}
+
+        {loading ? (
+          <div className="text-center text-muted-foreground py-8">Loading trash...</div>
+        ) : recordings.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">The trash is empty.</div>
+        ) : (
+          <div className="space-y-2">
+            {recordings.map((recording) => (
+              <div key={recording._id} className="flex items-center gap-4 rounded-lg border border-border p-3">
+                <TrashThumbnail src={recording.thumbnailUrl} />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{recording.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Deleted {formatDate(recording.deletedAt)} · Removed permanently on {formatDate(recording.purgeAt)}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restore(recording._id)}
+                    disabled={busyIds.has(recording._id)}
+                    className="gap-1"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteForever(recording)}
+                    disabled={busyIds.has(recording._id)}
+                    className="gap-1 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Delete Forever
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { Ban, Copy, LogOut, UserMinus, UserPlus } from "lucide-react"
+import type { WorkspaceRole, WorkspaceSummary } from "@/hooks/use-workspaces"
+
+interface Member {
+  userId: string
+  email: string | null
+  name: string
+  role: WorkspaceRole
+}
+
+interface Invite {
+  _id: string
+  role: "viewer" | "editor"
+  expiresAt: string
+  // Only present right after the invite is created
+  url?: string
+}
+
+interface WorkspaceMembersDialogProps {
+  // The workspace to manage; null keeps the dialog closed
+  workspace: WorkspaceSummary | null
+  onClose: () => void
+  // Called after the member list changes, so counts can reload
+  onChanged: () => void
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = { owner: "Owner", editor: "Editor", viewer: "Viewer" }
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+
+async function requestJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`)
+  return data
+}
+
+// Members of a workspace and their roles. Owners change roles, remove people
+// and create one-time invite links; anyone else can only leave.
+export function WorkspaceMembersDialog({ workspace, onClose, onChanged }: WorkspaceMembersDialogProps) {
+  const { toast } = useToast()
+  const { data: session } = useSession()
+  const [members, setMembers] = useState<Member[]>([])
+  const [invites, setInvites] = useState<Invite[]>([])
+  const [inviteRole, setInviteRole] = useState<Invite["role"]>("editor")
+  const [creating, setCreating] = useState(false)
+
+  const baseUrl = workspace ? `/api/workspaces/${workspace._id}` : null
+  const isOwner = workspace?.role === "owner"
+  const canInvite = isOwner && !workspace?.personal
+
+  const load = useCallback(async () => {
+    if (!baseUrl) return
+    try {
+      setMembers(await requestJson(`${baseUrl}/members`, "GET"))
+      if (canInvite) setInvites(await requestJson(`${baseUrl}/invites`, "GET"))
+    } catch (error) {
+      console.error("Failed to fetch workspace members:", error)
+    }
+  }, [baseUrl, canInvite])
+
+  useEffect(() => {
+    setMembers([])
+    setInvites([])
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+      load()
+      onChanged()
+    } catch (error) {
+      toast({ title: "Couldn't update the workspace", description: (error as Error).message, variant: "destructive" })
+    }
+  }
+
+  const copyInvite = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(new URL(url, window.location.origin).toString())
+      toast({ title: "Invite link copied", description: "It works once and expires in 7 days." })
+    } catch {
+      toast({ title: "Couldn't copy the invite link", variant: "destructive" })
+    }
+  }
+
+  const createInvite = async () => {
+    if (!baseUrl) return
+    setCreating(true)
+    try {
+      const invite: Invite = await requestJson(`${baseUrl}/invites`, "POST", { role: inviteRole })
+      setInvites((prev) => [invite, ...prev])
+      if (invite.url) copyInvite(invite.url)
+    } catch (error) {
+      toast({ title: "Couldn't create the invite", description: (error as Error).message, variant: "destructive" })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const removeMember = (member: Member) => {
+    const self = member.userId === session?.user.id
+    const message = self
+      ? `Leave "${workspace?.name}"? You'll need a new invite to rejoin.`
+      : `Remove ${member.name || member.email} from "${workspace?.name}"?`
+    if (!confirm(message)) return
+    if (self) {
+      // Requests fall back to the personal workspace once this one is gone
+      requestJson(`${baseUrl}/members/${member.userId}`, "DELETE")
+        .then(() => window.location.reload())
+        .catch((error) => toast({ title: "Couldn't leave", description: error.message, variant: "destructive" }))
+      return
+    }
+    run(() => requestJson(`${baseUrl}/members/${member.userId}`, "DELETE"))
+  }
+
+  return (
+    <Dialog open={workspace !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{workspace?.name} members</DialogTitle>
+          <DialogDescription>
+            Viewers can watch and download recordings, editors can also change them, and owners manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 space-y-2 overflow-y-auto">
+          {members.map((member) => (
+            <div key={member.userId} className="flex items-center gap-3 rounded-lg border border-border p-2 text-sm">
+              <div className="min-w-0 flex-1">
+                <div className="truncate font-medium">{member.name || member.email}</div>
+                {member.name && <div className="truncate text-xs text-muted-foreground">{member.email}</div>}
+              </div>
+              {isOwner ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(role) =>
+                    run(() => requestJson(`${baseUrl}/members/${member.userId}`, "PATCH", { role }))
+                  }
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+              )}
+              {!workspace?.personal && (isOwner || member.userId === session?.user.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeMember(member)}
+                  title={member.userId === session?.user.id ? "Leave workspace" : "Remove member"}
+                  className="text-destructive hover:text-destructive"
+                >
+                  {member.userId === session?.user.id ? (
+                    <LogOut className="h-3 w-3" />
+                  ) : (
+                    <UserMinus className="h-3 w-3" />
+                  )}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canInvite && (
+          <div className="space-y-2 rounded-lg border border-border p-3">
+            <div className="flex items-center gap-2">
+              <Select value={inviteRole} onValueChange={(role: Invite["role"]) => setInviteRole(role)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="editor">Editor</SelectItem>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={createInvite} disabled={creating} className="gap-1">
+                <UserPlus className="h-3 w-3" />
+                {creating ? "Creating..." : "Create Invite Link"}
+              </Button>
+            </div>
+            {invites.map((invite) => (
+              <div key={invite._id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="flex-1">
+                  {ROLE_LABELS[invite.role]} invite · expires {formatDate(invite.expiresAt)}
+                </span>
+                {invite.url && (
+                  <Button variant="ghost" size="sm" onClick={() => copyInvite(invite.url!)} title="Copy link">
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => run(() => requestJson(`${baseUrl}/invites/${invite._id}`, "DELETE"))}
+                  title="Revoke invite"
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Ban className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        {isOwner && workspace?.personal && (
+          <p className="text-sm text-muted-foreground">
+            Your personal workspace can't be shared. Create a new workspace to invite people.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
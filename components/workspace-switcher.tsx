@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Check, ChevronDown, Plus, ScrollText, Users } from "lucide-react"
+import { useWorkspaces } from "@/hooks/use-workspaces"
+import { WorkspaceMembersDialog } from "@/components/workspace-members-dialog"
+
+const ROLE_LABELS = { owner: "Owner", editor: "Editor", viewer: "Viewer" }
+
+// Picks the workspace the page shows, and opens its members, invites and audit log
+export function WorkspaceSwitcher() {
+  const { workspaces, current, refresh, switchTo } = useWorkspaces()
+  const [managing, setManaging] = useState(false)
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (error) {
+      alert((error as Error).message)
+    }
+  }
+
+  const createWorkspace = () => {
+    const name = prompt("New workspace name:")
+    if (!name?.trim()) return
+    run(async () => {
+      const response = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to create workspace")
+      await switchTo(data._id)
+    })
+  }
+
+  if (!current) return null
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <span className="max-w-48 truncate">{current.name}</span>
+            <span className="text-xs text-muted-foreground">{ROLE_LABELS[current.role]}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem
+              key={workspace._id}
+              onSelect={() => workspace._id !== current._id && run(() => switchTo(workspace._id))}
+            >
+              <Check className={`h-3 w-3 ${workspace._id === current._id ? "" : "invisible"}`} />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="text-xs text-muted-foreground">{ROLE_LABELS[workspace.role]}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={createWorkspace}>
+            <Plus className="h-3 w-3" />
+            New workspace...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setManaging(true)}>
+            <Users className="h-3 w-3" />
+            Members...
+          </DropdownMenuItem>
+          {current.role === "owner" && (
+            <DropdownMenuItem asChild>
+              <Link href="/audit">
+                <ScrollText className="h-3 w-3" />
+                Audit log
+              </Link>
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <WorkspaceMembersDialog
+        workspace={managing ? current : null}
+        onClose={() => setManaging(false)}
+        onChanged={refresh}
+      />
+    </>
+  )
+}
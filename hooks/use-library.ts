@@ -0,0 +1,37 @@
+import * as React from 'react'
+import type { TagSummary } from '@/lib/tags'
+import type { FolderSummary } from '@/lib/folders'
+
+export type { TagSummary, FolderSummary }
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status}`)
+  return response.json()
+}
+
+// Tags and folders used to organize recordings. `refresh` reloads both, e.g.
+// after a change that affects their counts.
+export function useLibrary() {
+  const [tags, setTags] = React.useState<TagSummary[]>([])
+  const [folders, setFolders] = React.useState<FolderSummary[]>([])
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const [loadedTags, loadedFolders] = await Promise.all([
+        fetchJson<TagSummary[]>('/api/tags'),
+        fetchJson<FolderSummary[]>('/api/folders'),
+      ])
+      setTags(loadedTags)
+      setFolders(loadedFolders)
+    } catch (error) {
+      console.error('Failed to load tags and folders:', error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { tags, folders, refresh }
+}
@@ -0,0 +1,39 @@
+import * as React from 'react'
+import { DEFAULT_LIMITS, type Limits } from '@/lib/limits'
+
+// Fetched once per page load and shared by every component that asks
+let limitsPromise: Promise<Limits> | null = null
+
+function fetchLimits() {
+  if (!limitsPromise) {
+    limitsPromise = fetch('/api/config')
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load config: ${response.status}`)
+        return response.json()
+      })
+      .then((data) => ({ ...DEFAULT_LIMITS, ...data.limits }))
+      .catch((error) => {
+        console.warn('Using default limits:', error)
+        limitsPromise = null
+        return DEFAULT_LIMITS
+      })
+  }
+  return limitsPromise
+}
+
+// Server-configured limits; DEFAULT_LIMITS until /api/config has answered
+export function useLimits() {
+  const [limits, setLimits] = React.useState<Limits>(DEFAULT_LIMITS)
+
+  React.useEffect(() => {
+    let cancelled = false
+    fetchLimits().then((loaded) => {
+      if (!cancelled) setLimits(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return limits
+}
@@ -0,0 +1,26 @@
+import * as React from 'react'
+
+// Lists the available input devices of one kind, refreshing when devices are
+// plugged in or removed. Labels are only filled in once the page has been
+// granted access to that kind of device, so call refresh() after getUserMedia.
+export function useMediaDevices(kind: MediaDeviceKind) {
+  const [devices, setDevices] = React.useState<MediaDeviceInfo[]>([])
+
+  const refresh = React.useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      setDevices(all.filter((device) => device.kind === kind && device.deviceId))
+    } catch (error) {
+      console.warn('Could not enumerate media devices:', error)
+    }
+  }, [kind])
+
+  React.useEffect(() => {
+    refresh()
+    navigator.mediaDevices?.addEventListener('devicechange', refresh)
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh)
+  }, [refresh])
+
+  return { devices, refresh }
+}
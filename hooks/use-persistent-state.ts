@@ -0,0 +1,39 @@
+import * as React from 'react'
+
+// useState that is mirrored to localStorage, so the value survives reloads.
+// Starts from the default during render and loads the stored value on mount,
+// which keeps server and client renders identical.
+export function usePersistentState<T>(key: string, defaultValue: T) {
+  const [value, setValue] = React.useState<T>(defaultValue)
+  const loaded = React.useRef(false)
+
+  React.useEffect(() => {
+    try {
+      const stored = localStorage.getItem(key)
+      if (stored !== null) {
+        const parsed = JSON.parse(stored)
+        // Merge objects so newly added fields keep their defaults
+        setValue(
+          typeof defaultValue === 'object' && defaultValue !== null && !Array.isArray(defaultValue)
+            ? { ...defaultValue, ...parsed }
+            : parsed,
+        )
+      }
+    } catch {
+      // Ignore unreadable or corrupt entries
+    }
+    loaded.current = true
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key])
+
+  React.useEffect(() => {
+    if (!loaded.current) return
+    try {
+      localStorage.setItem(key, JSON.stringify(value))
+    } catch {
+      // Storage may be full or disabled
+    }
+  }, [key, value])
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,44 @@
+import * as React from 'react'
+import { parseStoryboardVtt, type Storyboard } from '@/lib/storyboard-vtt'
+
+// Parsed tracks by URL, shared between a card's hover preview and its player
+const storyboards = new Map<string, Promise<Storyboard | null>>()
+
+function fetchStoryboard(url: string) {
+  let storyboard = storyboards.get(url)
+  if (!storyboard) {
+    storyboard = fetch(url)
+      .then(async (response) => {
+        // 404 just means there is no storyboard (e.g. no ffmpeg on the server)
+        if (!response.ok) return null
+        const parsed = parseStoryboardVtt(await response.text(), new URL(url, window.location.href).toString())
+        return parsed.tiles.length > 0 ? parsed : null
+      })
+      .catch((error) => {
+        console.warn('Could not load storyboard:', error)
+        storyboards.delete(url)
+        return null
+      })
+    storyboards.set(url, storyboard)
+  }
+  return storyboard
+}
+
+// Loads a storyboard track once `url` is set; pass null to defer loading
+// until it's needed, e.g. the first hover
+export function useStoryboard(url: string | null) {
+  const [storyboard, setStoryboard] = React.useState<Storyboard | null>(null)
+
+  React.useEffect(() => {
+    if (!url) return
+    let cancelled = false
+    fetchStoryboard(url).then((loaded) => {
+      if (!cancelled) setStoryboard(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  return storyboard
+}
@@ -0,0 +1,52 @@
+import * as React from 'react'
+import type { WorkspaceRole } from '@/lib/workspaces'
+
+export type { WorkspaceRole }
+
+export interface WorkspaceSummary {
+  _id: string
+  name: string
+  personal: boolean
+  role: WorkspaceRole
+  memberCount: number
+}
+
+// The signed-in user's workspaces and the one requests currently apply to.
+// Switching reloads the page, since everything on it belongs to a workspace.
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = React.useState<WorkspaceSummary[]>([])
+  const [currentId, setCurrentId] = React.useState<string | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/workspaces')
+      if (!response.ok) throw new Error(`Failed to load workspaces: ${response.status}`)
+      const data: { workspaces: WorkspaceSummary[]; currentId: string } = await response.json()
+      setWorkspaces(data.workspaces)
+      setCurrentId(data.currentId)
+    } catch (error) {
+      console.error('Failed to load workspaces:', error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const switchTo = React.useCallback(async (workspaceId: string) => {
+    const response = await fetch('/api/workspaces/current', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workspaceId }),
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to switch workspace')
+    }
+    window.location.reload()
+  }, [])
+
+  const current = workspaces.find((workspace) => workspace._id === currentId) ?? null
+
+  return { workspaces, current, refresh, switchTo }
+}
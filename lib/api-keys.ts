@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from "crypto"
+import { z } from "zod"
+import { API_KEY_SCOPES, ApiKey, type ApiKeyScope, type IApiKey } from "@/lib/models/ApiKey"
+import { User, type IUser } from "@/lib/models/User"
+import { RequestError } from "@/lib/request-error"
+import { roleError, workspaceAccess, type WorkspaceAccess } from "@/lib/workspaces"
+
+// API keys let scripts, like uploads from CI, use the /api/recordings routes
+// with an `Authorization: Bearer <key>` header. A key works in the workspace it
+// was created in, with the role its creator has there now, and only for its
+// scopes: `read` to list, search, stream and download, `write` to upload,
+// edit, restore and share, and `delete` to move recordings to the trash.
+
+export { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/models/ApiKey"
+
+const KEY_PREFIX = "srp_"
+const KEY_BYTES = 32
+// lastUsedAt is only written when it is older than this, so streaming a video
+// with many range requests doesn't write on every one
+const LAST_USED_PRECISION_MS = 60 * 1000
+
+export const createApiKeySchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+    scopes: z
+      .array(z.enum(API_KEY_SCOPES))
+      .min(1, "Pick at least one scope")
+      .transform((scopes) => API_KEY_SCOPES.filter((scope) => scopes.includes(scope))),
+  })
+  .strict()
+
+// Why the caller can't do something that needs the scope, if they can't;
+// routes answer with it as a 403. Sessions have every scope, so for them only
+// the role counts.
+export function scopeError(access: WorkspaceAccess, scope: ApiKeyScope) {
+  if (access.scopes && !access.scopes.includes(scope)) {
+    return `This API key doesn't have the ${scope} scope`
+  }
+  return roleError(access.role, scope === "read" ? "viewer" : "editor")
+}
+
+// The key from an Authorization header, if it carries one
+export function bearerToken(header: string | null) {
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match && match[1].startsWith(KEY_PREFIX) ? match[1] : null
+}
+
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex")
+}
+
+interface ApiKeySummary {
+  _id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  createdBy: string | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+function serializeApiKey(key: IApiKey, createdBy: string | null): ApiKeySummary {
+  return {
+    _id: String(key._id),
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    createdBy,
+    lastUsedAt: key.lastUsedAt,
+    revokedAt: key.revokedAt,
+    createdAt: key.createdAt,
+  }
+}
+
+// Owners see every key in the workspace; everyone else sees their own
+function visibleKeys(access: WorkspaceAccess) {
+  return access.role === "owner"
+    ? { workspaceId: access.workspaceId }
+    : { workspaceId: access.workspaceId, createdBy: access.userId }
+}
+
+export async function listApiKeys(access: WorkspaceAccess) {
+  const keys = (await ApiKey.find(visibleKeys(access)).sort({ createdAt: -1 })) as IApiKey[]
+  const users = await User.find({ _id: { $in: keys.map((key) => key.createdBy) } })
+    .select("email name")
+    .lean<Pick<IUser, "_id" | "email" | "name">[]>()
+  const names = new Map(users.map((user) => [String(user._id), user.name || user.email]))
+  return keys.map((key) => serializeApiKey(key, names.get(String(key.createdBy)) ?? null))
+}
+
+// The key itself is only returned here; afterwards only its hash is known.
+// Keys can't have scopes their creator's role doesn't allow.
+export async function createApiKey(access: WorkspaceAccess, input: z.infer<typeof createApiKeySchema>) {
+  for (const scope of input.scopes) {
+    const denied = scopeError(access, scope)
+    if (denied) throw new RequestError(denied, 403)
+  }
+
+  const secret = `${KEY_PREFIX}${randomBytes(KEY_BYTES).toString("base64url")}`
+  const key = (await ApiKey.create({
+    workspaceId: access.workspaceId,
+    createdBy: access.userId,
+    name: input.name,
+    prefix: secret.slice(0, KEY_PREFIX.length + 6),
+    keyHash: hashKey(secret),
+    scopes: input.scopes,
+  })) as IApiKey
+  return { ...serializeApiKey(key, null), key: secret }
+}
+
+// Returns false if there is no such key the caller may see, or it is already
+// revoked
+export async function revokeApiKey(access: WorkspaceAccess, id: string) {
+  const result = await ApiKey.updateOne(
+    { ...visibleKeys(access), _id: id, revokedAt: null },
+    { $set: { revokedAt: new Date() } },
+  )
+  return result.modifiedCount > 0
+}
+
+// The access a key grants, or null if it is unknown, revoked, or its creator
+// has left the workspace
+export async function authenticateApiKey(secret: string): Promise<WorkspaceAccess | null> {
+  const key = (await ApiKey.findOne({ keyHash: hashKey(secret), revokedAt: null })) as IApiKey | null
+  if (!key) return null
+
+  const access = await workspaceAccess(String(key.createdBy), String(key.workspaceId))
+  if (!access) return null
+
+  if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+    await ApiKey.updateOne({ _id: key._id }, { $set: { lastUsedAt: new Date() } })
+  }
+  return { ...access, apiKeyId: String(key._id), scopes: key.scopes }
+}
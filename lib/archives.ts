@@ -0,0 +1,158 @@
+import { GridFSBucket, type Db, type ObjectId } from "mongodb"
+import { Archive, type IArchive } from "@/lib/models/Archive"
+import { Folder, type IFolder } from "@/lib/models/Folder"
+import { Recording } from "@/lib/models/Recording"
+import type { ZipEntry } from "@/lib/zip-stream"
+import type { WorkspaceAccess } from "@/lib/workspaces"
+
+// Multi-recording downloads. The bulk endpoint stores the selection and hands
+// out a link; GET /api/archives/[id] then streams the recordings out of GridFS
+// into a ZIP as the browser downloads it, after a metadata.json manifest
+// describing each file.
+
+export const ARCHIVE_TTL_MS = 60 * 60 * 1000 // Download links work for an hour
+
+const MANIFEST_NAME = "metadata.json"
+const ARCHIVED_FIELDS =
+  "title description tags folderId filename fileId contentType size duration width height frameRate createdAt"
+
+interface ArchivedRecording {
+  _id: ObjectId
+  title: string
+  description?: string
+  tags?: string[]
+  folderId?: ObjectId | null
+  filename: string
+  fileId: ObjectId
+  contentType: string
+  duration: number
+  width?: number
+  height?: number
+  frameRate?: number
+  createdAt: Date
+}
+
+export async function createArchive({ userId, workspaceId }: WorkspaceAccess, recordingIds: string[]) {
+  const archive = await Archive.create({
+    owner: userId,
+    workspaceId,
+    recordingIds,
+    expiresAt: new Date(Date.now() + ARCHIVE_TTL_MS),
+  })
+  return archive as IArchive
+}
+
+// The TTL monitor only runs once a minute, so check the time as well
+export function isArchiveExpired(archive: IArchive) {
+  return archive.expiresAt.getTime() < Date.now()
+}
+
+// "Parent/Child" paths of every folder, by ID
+async function folderPaths(workspaceId: ObjectId) {
+  const folders = await Folder.find({ workspaceId }).select("name parentId").lean<IFolder[]>()
+  const byId = new Map(folders.map((folder) => [String(folder._id), folder]))
+  const paths = new Map<string, string>()
+  const pathOf = (id: string): string => {
+    if (!paths.has(id)) {
+      const folder = byId.get(id)!
+      const parent = folder.parentId ? String(folder.parentId) : null
+      paths.set(id, parent && byId.has(parent) ? `${pathOf(parent)}/${folder.name}` : folder.name)
+    }
+    return paths.get(id)!
+  }
+  for (const id of Array.from(byId.keys())) pathOf(id)
+  return paths
+}
+
+// Titles become file names, minus characters that aren't allowed in them on
+// common file systems, with " (2)", " (3)"... added to repeats
+function entryName(recording: ArchivedRecording, used: Set<string>) {
+  const base =
+    recording.title
+      .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_")
+      .replace(/^[\s.]+|[\s.]+$/g, "")
+      .slice(0, 150) || "recording"
+  const dot = recording.filename.lastIndexOf(".")
+  const extension = dot > 0 ? recording.filename.slice(dot) : ""
+
+  let name = `${base}${extension}`
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})${extension}`
+  used.add(name.toLowerCase())
+  return name
+}
+
+// The manifest entry followed by one entry per recording still in the
+// workspace, in the order they were selected, and the IDs of those recordings.
+// Recordings deleted since the archive was created are left out.
+export async function archiveEntries(
+  db: Db,
+  archive: IArchive,
+): Promise<{ entries: ZipEntry[]; recordingIds: string[] }> {
+  const recordings = await Recording.find({
+    _id: { $in: archive.recordingIds },
+    workspaceId: archive.workspaceId,
+    deletedAt: null,
+  })
+    .select(ARCHIVED_FIELDS)
+    .lean<ArchivedRecording[]>()
+  const byId = new Map(recordings.map((recording) => [String(recording._id), recording]))
+
+  const bucket = new GridFSBucket(db, { bucketName: "recordings" })
+  const files = await bucket.find({ _id: { $in: recordings.map((recording) => recording.fileId) } }).toArray()
+  const lengths = new Map(files.map((file) => [String(file._id), file.length]))
+
+  const ordered = archive.recordingIds
+    .map((id) => byId.get(String(id)))
+    .filter((recording) => recording !== undefined && lengths.has(String(recording.fileId))) as ArchivedRecording[]
+  if (ordered.length === 0) return { entries: [], recordingIds: [] }
+
+  const folders = await folderPaths(archive.workspaceId)
+  const used = new Set([MANIFEST_NAME])
+  const entries: ZipEntry[] = ordered.map((recording) => ({
+    name: entryName(recording, used),
+    size: lengths.get(String(recording.fileId))!,
+    modified: recording.createdAt,
+    open: () => bucket.openDownloadStream(recording.fileId),
+  }))
+
+  const manifest = Buffer.from(
+    JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        recordings: ordered.map((recording, index) => ({
+          file: entries[index].name,
+          id: String(recording._id),
+          title: recording.title,
+          description: recording.description ?? "",
+          tags: recording.tags ?? [],
+          folder: recording.folderId ? (folders.get(String(recording.folderId)) ?? null) : null,
+          contentType: recording.contentType,
+          size: entries[index].size,
+          duration: recording.duration,
+          width: recording.width ?? null,
+          height: recording.height ?? null,
+          frameRate: recording.frameRate ?? null,
+          createdAt: recording.createdAt.toISOString(),
+        })),
+      },
+      null,
+      2,
+    ),
+    "utf8",
+  )
+
+  return {
+    entries: [
+      {
+        name: MANIFEST_NAME,
+        size: manifest.length,
+        modified: new Date(),
+        open: async function* () {
+          yield manifest
+        },
+      },
+      ...entries,
+    ],
+    recordingIds: ordered.map((recording) => String(recording._id)),
+  }
+}
@@ -0,0 +1,43 @@
+// What the audit log records, shared by the AuditEvent model and the audit
+// log page. Actions are "<target>.<verb>".
+
+export const AUDIT_ACTIONS = [
+  "recording.upload",
+  "recording.view",
+  "recording.update",
+  "recording.download",
+  "recording.delete",
+  "recording.restore",
+  "recording.purge",
+  "share.create",
+  "share.revoke",
+  "tag.create",
+  "tag.update",
+  "tag.delete",
+  "folder.create",
+  "folder.update",
+  "folder.delete",
+  "workspace.create",
+  "workspace.update",
+  "member.join",
+  "member.update",
+  "member.remove",
+  "invite.create",
+  "invite.revoke",
+  "apiKey.create",
+  "apiKey.revoke",
+  "audit.export",
+] as const
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export const AUDIT_TARGET_TYPES = [
+  "recording",
+  "share",
+  "tag",
+  "folder",
+  "workspace",
+  "user",
+  "invite",
+  "apiKey",
+] as const
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number]
@@ -0,0 +1,228 @@
+import { z } from "zod"
+import { ObjectId } from "mongodb"
+import { AuditEvent, type IAuditEvent } from "@/lib/models/AuditEvent"
+import { AUDIT_ACTIONS, type AuditAction, type AuditTargetType } from "@/lib/audit-actions"
+import { ApiKey } from "@/lib/models/ApiKey"
+import { User, type IUser } from "@/lib/models/User"
+import { describeQueryError, queryParams } from "@/lib/recording-query"
+import { csvRow } from "@/lib/csv"
+import { config } from "@/lib/config"
+import type { WorkspaceAccess } from "@/lib/workspaces"
+
+// Routes record what they did with recordAudit(): uploads, views, downloads,
+// edits, deletes and restores of recordings, and every change to shares, tags,
+// folders, members, invites and API keys. Plain listings aren't recorded.
+// Workspace owners read the log through GET /api/audit and export it as CSV.
+
+export { AUDIT_ACTIONS, type AuditAction } from "@/lib/audit-actions"
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+interface AuditTarget {
+  type: AuditTargetType
+  id: string
+}
+
+// The workspace an event belongs to and who acted; without a user it was the
+// app itself or an anonymous share link visitor
+type AuditAccess = Pick<WorkspaceAccess, "workspaceId"> & Partial<Pick<WorkspaceAccess, "userId" | "apiKeyId">>
+
+interface AuditRecord {
+  // Where the IP address and user agent come from; absent for the app's own actions
+  request?: Request
+  access: AuditAccess
+  action: AuditAction
+  // One event is written per target
+  targets: AuditTarget | AuditTarget[]
+  details?: Record<string, unknown>
+}
+
+// A player fetches a video in many range requests; only one from the start
+// counts as a view
+export function isNewView(range: string | null) {
+  return !range || /^bytes=0-/.test(range.trim())
+}
+
+// Clients can send their own X-Forwarded-For, and proxies append to it, so only
+// the entries added by our own proxies can be trusted. Without any, no header is.
+function clientIp(request: Request) {
+  const { trustedProxies } = config
+  if (trustedProxies === 0) return null
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return hops[hops.length - trustedProxies] || request.headers.get("x-real-ip") || null
+}
+
+// Writes the events. A failed write is logged rather than failing the request
+// it describes, which has already happened by then.
+export async function recordAudit({ request, access, action, targets, details = {} }: AuditRecord) {
+  const list = Array.isArray(targets) ? targets : [targets]
+  if (list.length === 0) return
+
+  const shared = {
+    workspaceId: access.workspaceId,
+    actor: { userId: access.userId ?? null, apiKeyId: access.apiKeyId ?? null },
+    action,
+    ip: request ? clientIp(request) : null,
+    userAgent: request?.headers.get("user-agent")?.slice(0, 500) ?? null,
+    details,
+  }
+  try {
+    await AuditEvent.insertMany(list.map((target) => ({ ...shared, target })))
+  } catch (error) {
+    console.error(`Error recording audit event ${action}:`, error)
+  }
+}
+
+const objectId = (message: string) => z.string().refine((id) => ObjectId.isValid(id), message)
+
+const auditQuerySchema = z
+  .object({
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    actor: objectId("Invalid actor").optional(),
+    target: z.string().trim().max(100).optional(),
+    from: z.coerce.date({ message: "Invalid from date" }).optional(),
+    // Exclusive
+    to: z.coerce.date({ message: "Invalid to date" }).optional(),
+    // The _id of the last event on the previous page
+    cursor: objectId("Invalid cursor").optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  })
+  .strict()
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>
+
+// Validates the log's query string. Empty parameters are ignored.
+export function parseAuditQuery(params: URLSearchParams): { query: AuditQuery } | { error: string } {
+  const parsed = auditQuerySchema.safeParse(queryParams(params))
+  if (!parsed.success) {
+    return { error: describeQueryError(parsed.error) }
+  }
+  return { query: parsed.data }
+}
+
+function auditFilter(workspaceId: string, query: AuditQuery) {
+  const filter: Record<string, unknown> = { workspaceId }
+  if (query.action) filter.action = query.action
+  if (query.actor) filter["actor.userId"] = query.actor
+  if (query.target) filter["target.id"] = query.target
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from && { $gte: query.from }),
+      ...(query.to && { $lt: query.to }),
+    }
+  }
+  if (query.cursor) filter._id = { $lt: new ObjectId(query.cursor) }
+  return filter
+}
+
+// Names of the users and API keys behind a batch of events
+async function actorNames(events: IAuditEvent[]) {
+  const userIds = new Set(events.flatMap((event) => (event.actor.userId ? [String(event.actor.userId)] : [])))
+  const keyIds = new Set(events.flatMap((event) => (event.actor.apiKeyId ? [String(event.actor.apiKeyId)] : [])))
+  const [users, keys] = await Promise.all([
+    User.find({ _id: { $in: Array.from(userIds) } })
+      .select("email name")
+      .lean<Pick<IUser, "_id" | "email" | "name">[]>(),
+    ApiKey.find({ _id: { $in: Array.from(keyIds) } })
+      .select("name")
+      .lean<{ _id: unknown; name: string }[]>(),
+  ])
+  return {
+    users: new Map(users.map((user) => [String(user._id), user])),
+    keys: new Map(keys.map((key) => [String(key._id), key.name])),
+  }
+}
+
+function serializeEvent(event: IAuditEvent, names: Awaited<ReturnType<typeof actorNames>>) {
+  const userId = event.actor.userId ? String(event.actor.userId) : null
+  const apiKeyId = event.actor.apiKeyId ? String(event.actor.apiKeyId) : null
+  const user = userId ? names.users.get(userId) : undefined
+  return {
+    _id: String(event._id),
+    createdAt: event.createdAt,
+    action: event.action,
+    actor: {
+      userId,
+      email: user?.email ?? null,
+      name: user?.name ?? "",
+      apiKeyId,
+      apiKeyName: apiKeyId ? (names.keys.get(apiKeyId) ?? null) : null,
+    },
+    target: event.target,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    details: event.details,
+  }
+}
+
+export type AuditEventSummary = ReturnType<typeof serializeEvent>
+
+export async function listAuditEvents(workspaceId: string, query: AuditQuery) {
+  const events = (await AuditEvent.find(auditFilter(workspaceId, query))
+    .sort({ _id: -1 })
+    .limit(query.limit + 1)
+    .lean()) as unknown as IAuditEvent[]
+
+  const page = events.slice(0, query.limit)
+  const names = await actorNames(page)
+  return {
+    events: page.map((event) => serializeEvent(event, names)),
+    nextCursor: events.length > query.limit ? String(page[page.length - 1]._id) : null,
+  }
+}
+
+const CSV_COLUMNS = [
+  "time",
+  "action",
+  "actor_id",
+  "actor_email",
+  "api_key_id",
+  "api_key_name",
+  "target_type",
+  "target_id",
+  "ip",
+  "user_agent",
+  "details",
+]
+
+// The whole filtered log as CSV, oldest first, a batch at a time; the cursor
+// and limit in the query are ignored
+export async function* auditCsv(workspaceId: string, query: AuditQuery) {
+  const encoder = new TextEncoder()
+  yield encoder.encode(csvRow(CSV_COLUMNS))
+
+  const filter = auditFilter(workspaceId, { ...query, cursor: undefined })
+  let after: unknown = null
+  for (;;) {
+    const events = (await AuditEvent.find(after ? { ...filter, _id: { $gt: after } } : filter)
+      .sort({ _id: 1 })
+      .limit(MAX_PAGE_SIZE)
+      .lean()) as unknown as IAuditEvent[]
+    if (events.length === 0) return
+
+    const names = await actorNames(events)
+    const rows = events.map((event) => {
+      const { actor, target, ...rest } = serializeEvent(event, names)
+      return csvRow([
+        rest.createdAt.toISOString(),
+        rest.action,
+        actor.userId,
+        actor.email,
+        actor.apiKeyId,
+        actor.apiKeyName,
+        target.type,
+        target.id,
+        rest.ip,
+        rest.userAgent,
+        JSON.stringify(rest.details),
+      ])
+    })
+    yield encoder.encode(rows.join(""))
+    after = events[events.length - 1]._id
+  }
+}
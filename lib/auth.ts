@@ -0,0 +1,85 @@
+import { cookies, headers } from "next/headers"
+import { getServerSession, type NextAuthOptions } from "next-auth"
+import CredentialsProvider from "next-auth/providers/credentials"
+import { z } from "zod"
+import { connectToDatabase } from "@/lib/mongodb"
+import { User } from "@/lib/models/User"
+import { verifyPassword } from "@/lib/passwords"
+import { WORKSPACE_COOKIE, resolveAccess, type WorkspaceAccess } from "@/lib/workspaces"
+import { authenticateApiKey, bearerToken } from "@/lib/api-keys"
+
+// Email and password accounts stored in the users collection, signed in with
+// NextAuth's credentials provider. Sessions are JWTs in a cookie signed with
+// NEXTAUTH_SECRET, so no session store is needed.
+
+declare module "next-auth" {
+  interface Session {
+    user: {
+      id: string
+      email: string
+      name?: string | null
+    }
+  }
+}
+
+const credentialsSchema = z.object({
+  email: z.string().trim().toLowerCase().min(1),
+  password: z.string().min(1),
+})
+
+export const authOptions: NextAuthOptions = {
+  session: { strategy: "jwt" },
+  pages: { signIn: "/login" },
+  providers: [
+    CredentialsProvider({
+      name: "Email",
+      credentials: {
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" },
+      },
+      async authorize(credentials) {
+        const parsed = credentialsSchema.safeParse(credentials)
+        if (!parsed.success) return null
+
+        await connectToDatabase()
+        const user = await User.findOne({ email: parsed.data.email }).select("+passwordHash")
+        if (!user || !(await verifyPassword(parsed.data.password, user.passwordHash))) return null
+
+        return { id: String(user._id), email: user.email, name: user.name || null }
+      },
+    }),
+  ],
+  callbacks: {
+    // The token's subject is the user ID; expose it to the app
+    session({ session, token }) {
+      if (token.sub) session.user.id = token.sub
+      return session
+    },
+  },
+}
+
+// ID of the signed-in user, or null. middleware.ts already turns away requests
+// without a session; routes still check, since they scope data by this ID.
+export async function getUserId() {
+  const session = await getServerSession(authOptions)
+  return session?.user?.id ?? null
+}
+
+// The signed-in user, their current workspace and their role in it, or null
+// when signed out. Routes scope data by the workspace and check the role.
+// Routes that pass apiKeys also take a bearer API key in place of a session;
+// they check its scopes with scopeError().
+export async function getAccess({ apiKeys = false } = {}): Promise<WorkspaceAccess | null> {
+  const token = apiKeys ? bearerToken((await headers()).get("authorization")) : null
+  if (token) {
+    await connectToDatabase()
+    return authenticateApiKey(token)
+  }
+
+  const userId = await getUserId()
+  if (!userId) return null
+
+  await connectToDatabase()
+  const requested = (await cookies()).get(WORKSPACE_COOKIE)?.value
+  return resolveAccess(userId, requested)
+}
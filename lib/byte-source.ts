@@ -0,0 +1,52 @@
+import type { GridFSBucket, ObjectId } from "mongodb"
+
+// Random access to a file that may be too large to hold in memory: a Blob in
+// the browser, a GridFS file on the server.
+export interface ByteSource {
+  size: number
+  read: (offset: number, length: number) => Promise<Uint8Array>
+}
+
+const WINDOW_SIZE = 1024 * 1024
+
+// Serves small reads from a 1MB window, so a forward scan over a file costs one
+// source read per window instead of one per element header
+export class ByteReader {
+  private window: Uint8Array = new Uint8Array(0)
+  private windowStart = 0
+
+  constructor(private source: ByteSource) {}
+
+  get size() {
+    return this.source.size
+  }
+
+  async bytes(offset: number, length: number) {
+    const end = Math.min(offset + length, this.size)
+    if (offset < this.windowStart || end > this.windowStart + this.window.length) {
+      this.windowStart = offset
+      this.window = await this.source.read(offset, Math.max(end - offset, Math.min(WINDOW_SIZE, this.size - offset)))
+    }
+    return this.window.subarray(offset - this.windowStart, end - this.windowStart)
+  }
+}
+
+export function blobByteSource(blob: Blob): ByteSource {
+  return {
+    size: blob.size,
+    read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+  }
+}
+
+export function gridFSByteSource(bucket: GridFSBucket, fileId: ObjectId, size: number): ByteSource {
+  return {
+    size,
+    read: async (offset, length) => {
+      const parts: Buffer[] = []
+      for await (const chunk of bucket.openDownloadStream(fileId, { start: offset, end: offset + length })) {
+        parts.push(chunk as Buffer)
+      }
+      return Buffer.concat(parts)
+    },
+  }
+}
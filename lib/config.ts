@@ -0,0 +1,71 @@
+import { DEFAULT_LIMITS, baseMimeType, type Limits } from "@/lib/limits"
+
+// Server configuration read from environment variables. Importing this module
+// validates them, so a bad value fails at startup (see instrumentation.ts)
+// rather than on the first request that needs it.
+
+export interface AppConfig {
+  limits: Limits
+  // Used for storyboards and for thumbnails of recordings uploaded without one
+  ffmpegPath: string
+  // Days a deleted recording stays in the trash before it is purged for good
+  trashRetentionDays: number
+  // The account that takes over recordings, tags and folders from before
+  // accounts existed when it registers; without one they stay unowned
+  ownerEmail: string | null
+  // Reverse proxies in front of the app that append to X-Forwarded-For; the
+  // audit log takes the client IP from the entry the outermost one added
+  trustedProxies: number
+}
+
+function readInteger(name: string, fallback: number, min: number, max: number) {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === "") return fallback
+
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Invalid ${name}: expected an integer between ${min} and ${max}, got "${raw}"`)
+  }
+  return value
+}
+
+function readMimeTypes(name: string, fallback: string[]) {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === "") return fallback
+
+  const types = raw.split(",").map(baseMimeType).filter(Boolean)
+  const invalid = types.filter((type) => !type.startsWith("video/"))
+  if (types.length === 0 || invalid.length > 0) {
+    throw new Error(`Invalid ${name}: expected a comma-separated list of video/* MIME types, got "${raw}"`)
+  }
+  return Array.from(new Set(types))
+}
+
+function readEmail(name: string) {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === "") return null
+
+  const email = raw.trim().toLowerCase()
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new Error(`Invalid ${name}: expected an email address, got "${raw}"`)
+  }
+  return email
+}
+
+function loadConfig(): AppConfig {
+  return {
+    limits: {
+      maxDurationSeconds: readInteger("MAX_RECORDING_DURATION", DEFAULT_LIMITS.maxDurationSeconds, 1, 24 * 60 * 60),
+      maxFileSize:
+        readInteger("MAX_UPLOAD_SIZE_MB", DEFAULT_LIMITS.maxFileSize / (1024 * 1024), 1, 10 * 1024) * 1024 * 1024,
+      allowedMimeTypes: readMimeTypes("ALLOWED_VIDEO_TYPES", DEFAULT_LIMITS.allowedMimeTypes),
+      maxFilesPerBatch: readInteger("MAX_FILES_PER_UPLOAD", DEFAULT_LIMITS.maxFilesPerBatch, 1, 100),
+    },
+    ffmpegPath: process.env.FFMPEG_PATH?.trim() || "ffmpeg",
+    trashRetentionDays: readInteger("TRASH_RETENTION_DAYS", 30, 1, 3650),
+    ownerEmail: readEmail("OWNER_EMAIL"),
+    trustedProxies: readInteger("TRUSTED_PROXY_COUNT", 1, 0, 10),
+  }
+}
+
+export const config = loadConfig()
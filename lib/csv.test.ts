@@ -0,0 +1,29 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { csvField, csvRow } from "@/lib/csv"
+
+test("csvField leaves plain values alone", () => {
+  assert.equal(csvField("recording.view"), "recording.view")
+  assert.equal(csvField(42), "42")
+  assert.equal(csvField(null), "")
+  assert.equal(csvField(undefined), "")
+})
+
+test("csvField quotes separators, quotes and line breaks", () => {
+  assert.equal(csvField("a,b"), '"a,b"')
+  assert.equal(csvField('say "hi"'), '"say ""hi"""')
+  assert.equal(csvField("one\ntwo"), '"one\ntwo"')
+})
+
+test("csvField neutralizes values a spreadsheet would run as formulas", () => {
+  assert.equal(csvField('=HYPERLINK("http://evil.example","x")'), `"'=HYPERLINK(""http://evil.example"",""x"")"`)
+  assert.equal(csvField("@SUM(A1:A2)"), "'@SUM(A1:A2)")
+  assert.equal(csvField("+1"), "'+1")
+  assert.equal(csvField("-1+1"), "'-1+1")
+  assert.equal(csvField("\t=1"), "'\t=1")
+  assert.equal(csvField("\r=1"), `"'\r=1"`)
+})
+
+test("csvRow ends rows with CRLF", () => {
+  assert.equal(csvRow(["a", null, "=1"]), "a,,'=1\r\n")
+})
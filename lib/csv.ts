@@ -0,0 +1,16 @@
+// CSV for spreadsheets (RFC 4180, CRLF line endings). Spreadsheet apps run a
+// field that starts with =, +, -, @, a tab or a carriage return as a formula,
+// so those get a leading ' to keep user-supplied text (user agents, titles)
+// from turning into one.
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function csvField(value: unknown) {
+  let text = value === null || value === undefined ? "" : String(value)
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function csvRow(values: unknown[]) {
+  return `${values.map(csvField).join(",")}\r\n`
+}
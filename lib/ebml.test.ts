@@ -0,0 +1,96 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import {
+  EBML_ID,
+  concatBytes,
+  ebmlChildren,
+  ebmlFloat,
+  ebmlString,
+  ebmlUint,
+  encodeElement,
+  encodeFloat,
+  encodeId,
+  encodeSize,
+  encodeUint,
+  parseBlockHeader,
+  parseEbmlHeader,
+} from "@/lib/ebml"
+
+const text = (value: string) => new TextEncoder().encode(value)
+
+test("element headers round-trip through the encoders", () => {
+  for (const size of [0, 1, 126, 127, 16382, 16383, 2 ** 21, 2 ** 35]) {
+    const bytes = concatBytes([encodeId(EBML_ID.Cluster), encodeSize(size)])
+    assert.deepEqual(parseEbmlHeader(bytes, 0, 100), { id: EBML_ID.Cluster, dataStart: 100 + bytes.length, size })
+  }
+})
+
+test("an all-ones size is unknown", () => {
+  const oneByte = Uint8Array.of(0x1f, 0x43, 0xb6, 0x75, 0xff)
+  assert.equal(parseEbmlHeader(oneByte, 0, 0)?.size, null)
+
+  const eightBytes = Uint8Array.of(0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff)
+  assert.deepEqual(parseEbmlHeader(eightBytes, 0, 0), { id: EBML_ID.Segment, dataStart: 12, size: null })
+
+  // Not every byte is 0xff, so this one is known
+  const almost = Uint8Array.of(0x1f, 0x43, 0xb6, 0x75, 0x41, 0xfe)
+  assert.equal(parseEbmlHeader(almost, 0, 0)?.size, 0x1fe)
+})
+
+test("truncated or invalid headers are rejected", () => {
+  const header = concatBytes([encodeId(EBML_ID.Segment), encodeSize(300)])
+  for (let length = 0; length < header.length; length++) {
+    assert.equal(parseEbmlHeader(header.subarray(0, length), 0, 0), null, `length ${length}`)
+  }
+  // IDs are at most four bytes, and a zero byte has no length marker
+  assert.equal(parseEbmlHeader(Uint8Array.of(0x08, 0, 0, 0, 0, 0x81), 0, 0), null)
+  assert.equal(parseEbmlHeader(Uint8Array.of(0xa3, 0x00, 0x01), 0, 0), null)
+})
+
+test("ebmlChildren walks siblings and stops at an unknown size", () => {
+  const data = concatBytes([
+    encodeElement(EBML_ID.TrackNumber, encodeUint(1)),
+    encodeElement(EBML_ID.CodecID, text("V_VP8")),
+    Uint8Array.of(0xa3, 0xff),
+    encodeElement(EBML_ID.TrackType, encodeUint(1)),
+  ])
+  const children = [...ebmlChildren(data)]
+  assert.deepEqual(
+    children.map((child) => child.id),
+    [EBML_ID.TrackNumber, EBML_ID.CodecID],
+  )
+  assert.equal(ebmlUint(children[0].data), 1)
+  assert.equal(ebmlString(children[1].data), "V_VP8")
+})
+
+test("ebmlChildren stops at a truncated header", () => {
+  const data = concatBytes([encodeElement(EBML_ID.TrackNumber, encodeUint(2)), Uint8Array.of(0x2a, 0xd7)])
+  assert.deepEqual(
+    [...ebmlChildren(data)].map((child) => child.id),
+    [EBML_ID.TrackNumber],
+  )
+})
+
+test("numbers decode as written", () => {
+  assert.equal(ebmlUint(encodeUint(1_000_000)), 1_000_000)
+  assert.equal(ebmlUint(encodeUint(7, 4)), 7)
+  assert.equal(ebmlFloat(encodeFloat(1234.5)), 1234.5)
+  assert.equal(ebmlFloat(Uint8Array.of(0x44, 0x9a, 0x52, 0x2b)), Math.fround(1234.5678))
+  // Floats of any other length aren't valid
+  assert.equal(ebmlFloat(Uint8Array.of(1, 2, 3)), 0)
+})
+
+test("parseBlockHeader reads the track, timecode and keyframe flag", () => {
+  assert.deepEqual(parseBlockHeader(Uint8Array.of(0x81, 0xff, 0xf6, 0x80, 0)), {
+    track: 1,
+    timecode: -10,
+    keyframe: true,
+  })
+  assert.deepEqual(parseBlockHeader(Uint8Array.of(0x40, 0x85, 0x01, 0x00, 0x00)), {
+    track: 133,
+    timecode: 256,
+    keyframe: false,
+  })
+  assert.equal(parseBlockHeader(Uint8Array.of(0x81, 0x00)), null)
+  assert.equal(parseBlockHeader(Uint8Array.of(0x00, 0x00, 0x00, 0x00)), null)
+})
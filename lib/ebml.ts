@@ -0,0 +1,207 @@
+import type { ByteReader } from "@/lib/byte-source"
+
+// Minimal EBML (Matroska/WebM) reading and writing. Works on plain Uint8Arrays
+// so it can run in the browser as well as on the server.
+
+export const EBML_ID = {
+  Header: 0x1a45dfa3,
+  Void: 0xec,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Chapters: 0x1043a770,
+  Tags: 0x1254c367,
+  Attachments: 0x1941a469,
+}
+
+// Elements that can only appear directly inside the Segment; seeing one ends an
+// unknown-size Cluster
+export const SEGMENT_CHILD_IDS = new Set([
+  EBML_ID.SeekHead,
+  EBML_ID.Info,
+  EBML_ID.Tracks,
+  EBML_ID.Cluster,
+  EBML_ID.Cues,
+  EBML_ID.Chapters,
+  EBML_ID.Tags,
+  EBML_ID.Attachments,
+])
+
+export interface EbmlHeader {
+  id: number
+  dataStart: number
+  size: number | null // null for "unknown size", which MediaRecorder uses for live output
+}
+
+export interface BlockHeader {
+  track: number
+  timecode: number // relative to the cluster
+  keyframe: boolean // only meaningful for SimpleBlock
+}
+
+export function vintLength(byte: number) {
+  for (let i = 0; i < 8; i++) {
+    if (byte & (0x80 >> i)) return i + 1
+  }
+  return 0
+}
+
+// Parses an element header at data[position]; offsets in the result are
+// relative to `offset`, the position of data[position] in the file
+export function parseEbmlHeader(data: Uint8Array, position: number, offset: number): EbmlHeader | null {
+  const idLength = vintLength(data[position])
+  if (idLength === 0 || idLength > 4 || position + idLength >= data.length) return null
+
+  const sizeLength = vintLength(data[position + idLength])
+  if (sizeLength === 0 || position + idLength + sizeLength > data.length) return null
+
+  let id = 0
+  for (let i = 0; i < idLength; i++) id = id * 256 + data[position + i]
+
+  const mask = 0xff >> sizeLength
+  let size = data[position + idLength] & mask
+  let unknown = size === mask
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = data[position + idLength + i]
+    size = size * 256 + byte
+    unknown &&= byte === 0xff
+  }
+
+  return { id, dataStart: offset + idLength + sizeLength, size: unknown ? null : size }
+}
+
+export async function readEbmlHeader(reader: ByteReader, offset: number) {
+  if (offset >= reader.size) return null
+  return parseEbmlHeader(await reader.bytes(offset, 12), 0, offset)
+}
+
+// Children of a master element whose data is already in memory
+export function* ebmlChildren(data: Uint8Array) {
+  let position = 0
+  while (position < data.length) {
+    const header = parseEbmlHeader(data, position, position)
+    if (!header || header.size === null) return
+    const end = header.dataStart + header.size
+    yield { id: header.id, data: data.subarray(header.dataStart, end) }
+    position = end
+  }
+}
+
+export function ebmlUint(data: Uint8Array) {
+  let value = 0
+  for (const byte of data) value = value * 256 + byte
+  return value
+}
+
+export function ebmlFloat(data: Uint8Array) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (data.length === 4) return view.getFloat32(0)
+  if (data.length === 8) return view.getFloat64(0)
+  return 0
+}
+
+export function ebmlString(data: Uint8Array) {
+  return new TextDecoder("ascii").decode(data).replace(/\0+$/, "")
+}
+
+// Track number, relative timecode and flags at the start of a (Simple)Block
+export function parseBlockHeader(data: Uint8Array): BlockHeader | null {
+  const trackLength = vintLength(data[0])
+  if (trackLength === 0 || trackLength + 3 > data.length) return null
+
+  let track = data[0] & (0xff >> trackLength)
+  for (let i = 1; i < trackLength; i++) track = track * 256 + data[i]
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  return {
+    track,
+    timecode: view.getInt16(trackLength),
+    keyframe: (data[trackLength + 2] & 0x80) !== 0,
+  }
+}
+
+// --- Writing -----------------------------------------------------------------
+
+export function concatBytes(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+export function encodeId(id: number) {
+  const bytes: number[] = []
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256)
+  return Uint8Array.from(bytes)
+}
+
+// Size as a vint; a fixed length lets a size be patched later without moving data
+export function encodeSize(size: number, length?: number) {
+  let bytes = length ?? 1
+  while (!length && size >= 2 ** (7 * bytes) - 1) bytes++
+
+  const result = new Uint8Array(bytes)
+  let value = size
+  for (let i = bytes - 1; i >= 0; i--) {
+    result[i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  result[0] |= 0x80 >> (bytes - 1)
+  return result
+}
+
+export function encodeElement(id: number, data: Uint8Array, sizeLength?: number) {
+  return concatBytes([encodeId(id), encodeSize(data.length, sizeLength), data])
+}
+
+export function encodeElementHeader(id: number, size: number, sizeLength?: number) {
+  return concatBytes([encodeId(id), encodeSize(size, sizeLength)])
+}
+
+export function encodeUint(value: number, length?: number) {
+  let bytes = length ?? 1
+  while (!length && value >= 2 ** (8 * bytes)) bytes++
+
+  const result = new Uint8Array(bytes)
+  let remaining = value
+  for (let i = bytes - 1; i >= 0; i--) {
+    result[i] = remaining % 256
+    remaining = Math.floor(remaining / 256)
+  }
+  return result
+}
+
+export function encodeFloat(value: number) {
+  const result = new Uint8Array(8)
+  new DataView(result.buffer).setFloat64(0, value)
+  return result
+}
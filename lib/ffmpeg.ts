@@ -0,0 +1,50 @@
+import { spawn } from "child_process"
+import { GridFSBucket, type Db, type ObjectId } from "mongodb"
+import { config } from "@/lib/config"
+
+// Runs ffmpeg over a stored recording, piping it from GridFS into stdin, and
+// collects whatever the arguments write to stdout. Used for thumbnails and
+// storyboards; both are optional, so failures resolve to null.
+
+let ffmpegMissing = false
+
+export function isFfmpegAvailable() {
+  return !ffmpegMissing
+}
+
+export function runFfmpeg(db: Db, fileId: ObjectId, args: string[], timeoutMs: number): Promise<Buffer | null> {
+  if (ffmpegMissing) return Promise.resolve(null)
+  const bucket = new GridFSBucket(db, { bucketName: "recordings" })
+
+  return new Promise((resolve) => {
+    const ffmpeg = spawn(config.ffmpegPath, ["-hide_banner", "-loglevel", "error", "-i", "pipe:0", ...args, "pipe:1"])
+
+    const output: Buffer[] = []
+    const input = bucket.openDownloadStream(fileId)
+    const timer = setTimeout(() => ffmpeg.kill("SIGKILL"), timeoutMs)
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => output.push(chunk))
+    ffmpeg.stderr.resume()
+    // ffmpeg may close stdin before reading everything, e.g. once it has a frame
+    ffmpeg.stdin.on("error", () => input.destroy())
+    input.on("error", () => ffmpeg.stdin.destroy())
+    input.pipe(ffmpeg.stdin)
+
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer)
+      input.destroy()
+      if (error.code === "ENOENT") {
+        ffmpegMissing = true
+        console.warn(`ffmpeg not found at "${config.ffmpegPath}"; server-side thumbnails and storyboards are disabled`)
+      } else {
+        console.error("Error running ffmpeg:", error)
+      }
+      resolve(null)
+    })
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer)
+      input.destroy()
+      resolve(code === 0 && output.length > 0 ? Buffer.concat(output) : null)
+    })
+  })
+}
@@ -0,0 +1,118 @@
+import { z } from "zod"
+import { ObjectId } from "mongodb"
+import { Folder, type IFolder } from "@/lib/models/Folder"
+import { Recording } from "@/lib/models/Recording"
+import { RequestError, isDuplicateKeyError } from "@/lib/request-error"
+
+// Folders form a tree through parentId. Each recording is in at most one
+// folder; deleting a folder hands its recordings and subfolders to its parent.
+// Each workspace has its own tree.
+
+export const folderNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Folder name cannot be empty")
+  .max(100, "Folder names must be at most 100 characters")
+
+// A folder ID, or null for the top level
+export const folderIdSchema = z
+  .string()
+  .refine((id) => ObjectId.isValid(id), "Invalid folder ID")
+  .nullable()
+
+export interface FolderSummary {
+  _id: string
+  name: string
+  parentId: string | null
+  // Recordings directly in the folder, not in its subfolders
+  count: number
+}
+
+export async function listFolders(workspaceId: string): Promise<FolderSummary[]> {
+  const [folders, counts] = await Promise.all([
+    Folder.find({ workspaceId }).collation({ locale: "en", strength: 2 }).sort({ name: 1 }).lean<IFolder[]>(),
+    Recording.aggregate<{ _id: ObjectId; count: number }>([
+      { $match: { workspaceId: new ObjectId(workspaceId), folderId: { $ne: null }, deletedAt: null } },
+      { $group: { _id: "$folderId", count: { $sum: 1 } } },
+    ]),
+  ])
+  const countById = new Map(counts.map((entry) => [String(entry._id), entry.count]))
+  return folders.map((folder) => ({
+    _id: String(folder._id),
+    name: folder.name,
+    parentId: folder.parentId ? String(folder.parentId) : null,
+    count: countById.get(String(folder._id)) ?? 0,
+  }))
+}
+
+// Resolves a folder ID from a request body, rejecting ones that don't exist or
+// are in another workspace
+export async function requireFolder(workspaceId: string, id: string | null) {
+  if (id === null) return null
+  const exists = await Folder.exists({ _id: id, workspaceId })
+  if (!exists) throw new RequestError("Folder not found", 400)
+  return new ObjectId(id)
+}
+
+function duplicateName(name: string) {
+  return new RequestError(`A folder named "${name}" already exists there`, 409)
+}
+
+export async function createFolder(workspaceId: string, name: string, parentId: string | null) {
+  const parent = await requireFolder(workspaceId, parentId)
+  try {
+    return await Folder.create({ workspaceId, name, parentId: parent })
+  } catch (error) {
+    if (isDuplicateKeyError(error)) throw duplicateName(name)
+    throw error
+  }
+}
+
+// Renames and/or moves a folder. Moving it into itself or one of its own
+// subfolders is refused.
+export async function updateFolder(folder: IFolder, changes: { name?: string; parentId?: string | null }) {
+  if (changes.parentId !== undefined) {
+    const parent = await requireFolder(String(folder.workspaceId), changes.parentId)
+    let ancestor = parent
+    while (ancestor) {
+      if (ancestor.equals(folder._id as ObjectId)) {
+        throw new RequestError("A folder can't be moved into itself or one of its subfolders")
+      }
+      const next = await Folder.findById(ancestor).select("parentId").lean<{ parentId: ObjectId | null }>()
+      ancestor = next?.parentId ?? null
+    }
+    folder.parentId = parent
+  }
+  if (changes.name) folder.name = changes.name
+
+  try {
+    return await folder.save()
+  } catch (error) {
+    if (isDuplicateKeyError(error)) throw duplicateName(folder.name)
+    throw error
+  }
+}
+
+export async function deleteFolder(folder: IFolder) {
+  const children = await Folder.find({ parentId: folder._id }).select("name").lean<IFolder[]>()
+  if (children.length > 0) {
+    const clash = await Folder.findOne({
+      workspaceId: folder.workspaceId,
+      parentId: folder.parentId,
+      _id: { $ne: folder._id },
+      name: { $in: children.map((child) => child.name) },
+    })
+      .collation({ locale: "en", strength: 2 })
+      .lean<IFolder>()
+    if (clash) {
+      throw new RequestError(`Rename or move the subfolder "${clash.name}" first; its parent already has one`, 409)
+    }
+  }
+
+  await Folder.updateMany({ parentId: folder._id }, { $set: { parentId: folder.parentId } })
+  await Recording.updateMany(
+    { workspaceId: folder.workspaceId, folderId: folder._id },
+    { $set: { folderId: folder.parentId } },
+  )
+  await folder.deleteOne()
+}
@@ -0,0 +1,31 @@
+// Upload and recording limits shared by the API routes and the browser. The
+// server reads the actual values from the environment (see lib/config.ts) and
+// publishes them at GET /api/config; DEFAULT_LIMITS is what the client assumes
+// until that response arrives.
+
+export interface Limits {
+  maxDurationSeconds: number
+  maxFileSize: number // in bytes
+  allowedMimeTypes: string[]
+  maxFilesPerBatch: number
+}
+
+export const DEFAULT_LIMITS: Limits = {
+  maxDurationSeconds: 180,
+  maxFileSize: 100 * 1024 * 1024,
+  allowedMimeTypes: ["video/webm", "video/mp4", "video/quicktime"],
+  maxFilesPerBatch: 5,
+}
+
+// "video/webm;codecs=vp9,opus" -> "video/webm"
+export function baseMimeType(type: string) {
+  return type.split(";")[0].trim().toLowerCase()
+}
+
+export function isAllowedMimeType(type: string, limits: Limits) {
+  return limits.allowedMimeTypes.includes(baseMimeType(type))
+}
+
+export function formatMegabytes(bytes: number) {
+  return `${Math.round(bytes / (1024 * 1024))}MB`
+}
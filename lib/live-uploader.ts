@@ -0,0 +1,194 @@
+// Browser client for app/api/live-uploads: streams MediaRecorder timeslices to
+// the server while the recording is still running, so that finalizing after
+// Stop only has to assemble what the server already has.
+
+export interface LiveUploadOptions {
+  title: string
+  contentType: string
+  // Called whenever the number of chunks not yet acknowledged changes
+  onPendingChange?: (pending: number) => void
+}
+
+export interface LiveUploader {
+  enqueue: (chunk: Blob) => void
+  finish: (duration: number) => Promise<{ id: string; url: string }>
+  cancel: () => Promise<void>
+}
+
+const MAX_CONCURRENT_REQUESTS = 2
+const MAX_RETRY_DELAY = 15000
+const MAX_FINALIZE_ATTEMPTS = 5
+const FINALIZE_POLL_INTERVAL = 2000
+const MAX_FINALIZE_POLLS = 150 // Five minutes of waiting for another finalize request
+const MAX_CHUNK_ATTEMPTS = 8
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+async function readError(response: Response, fallback: string) {
+  const errorData = await response.json().catch(() => null)
+  return errorData?.error || fallback
+}
+
+export async function startLiveUpload({ title, contentType, onPendingChange }: LiveUploadOptions): Promise<LiveUploader> {
+  const response = await fetch("/api/live-uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ title, contentType }),
+  })
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to start live upload"))
+  }
+  const { id } = await response.json()
+
+  // Chunks are kept until the upload is finalized, in case the server reports
+  // any of them missing
+  const chunks: Blob[] = []
+  const acknowledged = new Set<number>()
+  const queue: number[] = []
+  const attempts = new Map<number, number>()
+  let inFlight = 0
+  let fatalError: Error | null = null
+  let cancelled = false
+  let idleWaiters: (() => void)[] = []
+
+  const reportPending = () => onPendingChange?.(chunks.length - acknowledged.size)
+
+  const notifyIfIdle = () => {
+    if (queue.length === 0 && inFlight === 0) {
+      idleWaiters.forEach((resolve) => resolve())
+      idleWaiters = []
+    }
+  }
+
+  const whenIdle = () =>
+    new Promise<void>((resolve) => {
+      idleWaiters.push(resolve)
+      notifyIfIdle()
+    })
+
+  const send = async (seq: number) => {
+    inFlight++
+    try {
+      const result = await fetch(`/api/live-uploads/${id}/chunks/${seq}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: chunks[seq],
+      })
+
+      if (result.ok) {
+        acknowledged.add(seq)
+        reportPending()
+      } else if (result.status >= 500) {
+        retryLater(seq)
+      } else {
+        // 4xx: the server refused the chunk (e.g. size limit); retrying won't help
+        fatalError = new Error(await readError(result, "Live upload failed"))
+      }
+    } catch {
+      retryLater(seq)
+    } finally {
+      inFlight--
+      pump()
+      notifyIfIdle()
+    }
+  }
+
+  // Keeps the chunk counted as queued while it waits out its backoff
+  const retryLater = (seq: number) => {
+    const attempt = (attempts.get(seq) ?? 0) + 1
+    attempts.set(seq, attempt)
+    if (attempt > MAX_CHUNK_ATTEMPTS) {
+      fatalError = new Error("Network error during live upload")
+      return
+    }
+    inFlight++
+    setTimeout(
+      () => {
+        inFlight--
+        if (!cancelled && !fatalError) {
+          queue.unshift(seq)
+          pump()
+        }
+        notifyIfIdle()
+      },
+      Math.min(500 * 2 ** attempt, MAX_RETRY_DELAY),
+    )
+  }
+
+  function pump() {
+    while (!cancelled && !fatalError && inFlight < MAX_CONCURRENT_REQUESTS && queue.length > 0) {
+      send(queue.shift()!)
+    }
+  }
+
+  // Network errors and 5xx responses count as failed attempts. A 409 without
+  // missing chunks means an earlier attempt is still assembling the recording,
+  // so that is polled until it finishes.
+  const finalize = async (duration: number) => {
+    let attempt = 0
+    let polls = 0
+    while (attempt < MAX_FINALIZE_ATTEMPTS && polls < MAX_FINALIZE_POLLS) {
+      await whenIdle()
+      if (fatalError) throw fatalError
+
+      let result: Response
+      try {
+        result = await fetch(`/api/live-uploads/${id}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ chunkCount: chunks.length, duration }),
+        })
+      } catch {
+        attempt++
+        await wait(Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY))
+        continue
+      }
+
+      if (result.ok) {
+        const data = await result.json()
+        return { id: data.id as string, url: data.url as string }
+      }
+
+      const errorData = await result.json().catch(() => null)
+      if (result.status === 409 && Array.isArray(errorData?.missing)) {
+        // The server lost track of some chunks; send them again
+        attempt++
+        errorData.missing.forEach((seq: number) => {
+          acknowledged.delete(seq)
+          queue.push(seq)
+        })
+        reportPending()
+        pump()
+      } else if (result.status === 409) {
+        polls++
+        await wait(FINALIZE_POLL_INTERVAL)
+      } else if (result.status < 500) {
+        throw new Error(errorData?.error || "Failed to finalize live upload")
+      } else {
+        attempt++
+        await wait(Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY))
+      }
+    }
+    throw new Error("Failed to finalize live upload")
+  }
+
+  return {
+    enqueue: (chunk) => {
+      if (cancelled || chunk.size === 0) return
+      queue.push(chunks.push(chunk) - 1)
+      reportPending()
+      pump()
+    },
+    finish: (duration) => {
+      if (chunks.length === 0) {
+        return Promise.reject(new Error("No data was recorded"))
+      }
+      return finalize(duration)
+    },
+    cancel: async () => {
+      cancelled = true
+      queue.length = 0
+      await fetch(`/api/live-uploads/${id}`, { method: "DELETE" }).catch(() => {})
+    },
+  }
+}
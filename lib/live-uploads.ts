@@ -0,0 +1,202 @@
+import { GridFSBucket, type Binary, type Db, type ObjectId } from "mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { LiveUpload, type ILiveUpload } from "@/lib/models/LiveUpload"
+import { discardUpload } from "@/lib/multipart-upload"
+import { RequestError } from "@/lib/request-error"
+import { readBody } from "@/lib/request-body"
+import { videoExtension } from "@/lib/utils"
+import { formatMegabytes } from "@/lib/limits"
+import { inspectStoredRecording, remuxStoredRecording } from "@/lib/recording-processing"
+
+// Live uploads receive MediaRecorder timeslices while the recording is still
+// running. Each timeslice is staged as its own document keyed by (upload_id, seq),
+// so retried or reordered deliveries are harmless. On finalize the staged chunks
+// are streamed in sequence order into the "recordings" GridFS bucket.
+export const LIVE_UPLOAD_TTL_MS = 60 * 60 * 1000 // Sessions expire an hour after their last chunk
+export const MAX_LIVE_CHUNK_SIZE = 16 * 1024 * 1024 - 1024 // Must fit in a BSON document
+
+const LIVE_CHUNKS_COLLECTION = "liveuploads.chunks"
+
+interface LiveChunk {
+  upload_id: unknown
+  seq: number
+  data: Binary
+}
+
+let indexesReady: Promise<unknown> | null = null
+
+function ensureChunkIndex(db: Db) {
+  if (!indexesReady) {
+    indexesReady = db
+      .collection(LIVE_CHUNKS_COLLECTION)
+      .createIndex({ upload_id: 1, seq: 1 }, { unique: true })
+      .catch((error) => {
+        indexesReady = null
+        throw error
+      })
+  }
+  return indexesReady
+}
+
+// Stages one timeslice. Re-sending a sequence number that is already stored is a
+// no-op, so clients can retry freely.
+export async function storeLiveChunk(
+  db: Db,
+  upload: ILiveUpload,
+  seq: number,
+  body: ReadableStream<Uint8Array>,
+  maxTotalSize: number,
+) {
+  await ensureChunkIndex(db)
+
+  const data = await readBody(body, MAX_LIVE_CHUNK_SIZE, "Chunk too large")
+  const tooLarge = () =>
+    new RequestError(`Recording too large. Maximum size is ${formatMegabytes(maxTotalSize)}.`, 413)
+  if (upload.receivedBytes + data.length > maxTotalSize) {
+    throw tooLarge()
+  }
+
+  const chunks = db.collection(LIVE_CHUNKS_COLLECTION)
+  const result = await chunks.updateOne({ upload_id: upload._id, seq }, { $setOnInsert: { data } }, { upsert: true })
+
+  const isNew = result.upsertedCount === 1
+  const expiresAt = new Date(Date.now() + LIVE_UPLOAD_TTL_MS)
+  if (!isNew) {
+    await LiveUpload.updateOne({ _id: upload._id }, { $set: { expiresAt } })
+    return false
+  }
+
+  // Concurrent requests all passed the check above against the same snapshot, so
+  // the limit is enforced again atomically while counting the bytes
+  const counted = await LiveUpload.updateOne(
+    { _id: upload._id, receivedBytes: { $lte: maxTotalSize - data.length } },
+    { $set: { expiresAt }, $inc: { receivedChunks: 1, receivedBytes: data.length } },
+  )
+  if (counted.matchedCount === 0) {
+    await chunks.deleteOne({ upload_id: upload._id, seq })
+    throw tooLarge()
+  }
+
+  return true
+}
+
+// Sequence numbers below chunkCount that have not arrived yet
+export async function findMissingChunks(db: Db, upload: ILiveUpload, chunkCount: number) {
+  const stored = await db
+    .collection(LIVE_CHUNKS_COLLECTION)
+    .find({ upload_id: upload._id, seq: { $lt: chunkCount } }, { projection: { seq: 1 } })
+    .toArray()
+
+  const present = new Set(stored.map((chunk) => chunk.seq as number))
+  const missing: number[] = []
+  for (let seq = 0; seq < chunkCount; seq++) {
+    if (!present.has(seq)) missing.push(seq)
+  }
+  return missing
+}
+
+// Assembles the staged chunks into a GridFS file and creates the Recording.
+// Safe to call more than once.
+export async function finalizeLiveUpload(db: Db, upload: ILiveUpload, chunkCount: number) {
+  if (upload.status === "complete" && upload.recordingId) {
+    return upload.recordingId.toString()
+  }
+
+  // Claim the upload so a concurrent finalize cannot assemble it twice
+  const claimed = await LiveUpload.updateOne(
+    { _id: upload._id, status: "recording" },
+    { $set: { status: "finalizing" } },
+  )
+  if (claimed.modifiedCount === 0) {
+    throw new RequestError("Upload is already being finalized", 409)
+  }
+
+  try {
+    return await assembleLiveUpload(db, upload, chunkCount)
+  } catch (error) {
+    await LiveUpload.updateOne({ _id: upload._id }, { $set: { status: "recording" } })
+    throw error
+  }
+}
+
+async function assembleLiveUpload(db: Db, upload: ILiveUpload, chunkCount: number) {
+  const chunks = db.collection<LiveChunk>(LIVE_CHUNKS_COLLECTION)
+  const bucket = new GridFSBucket(db, { bucketName: "recordings" })
+
+  // Generate unique filename
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+  const filename = `recording-${timestamp}.${videoExtension(upload.contentType)}`
+
+  const uploadStream = bucket.openUploadStream(filename, {
+    metadata: {
+      contentType: upload.contentType,
+      uploadDate: new Date(),
+    },
+  })
+
+  let size = 0
+  try {
+    const cursor = chunks.find({ upload_id: upload._id, seq: { $lt: chunkCount } }).sort({ seq: 1 })
+    for await (const chunk of cursor) {
+      const data = Buffer.from(chunk.data.buffer)
+      size += data.length
+      if (!uploadStream.write(data)) {
+        await new Promise((resolve) => uploadStream.once("drain", resolve))
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      uploadStream.once("error", reject)
+      uploadStream.end(() => resolve())
+    })
+  } catch (error) {
+    await discardUpload(bucket, uploadStream)
+    throw error
+  }
+
+  // MediaRecorder timeslices concatenate into an unseekable stream; fix that first
+  const stored = await remuxStoredRecording(bucket, { fileId: uploadStream.id as ObjectId, size })
+
+  try {
+    const media = await inspectStoredRecording(bucket, stored.fileId, stored.size)
+    const recording = new Recording({
+      workspaceId: upload.workspaceId,
+      owner: upload.owner,
+      title: upload.title,
+      filename,
+      fileId: stored.fileId,
+      size: stored.size,
+      ...media,
+      contentType: upload.contentType,
+      createdAt: new Date(),
+    })
+    await recording.save()
+
+    upload.status = "complete"
+    upload.recordingId = recording._id
+    await upload.save()
+  } catch (error) {
+    await bucket.delete(stored.fileId).catch(() => {})
+    throw error
+  }
+
+  await chunks.deleteMany({ upload_id: upload._id })
+
+  return upload.recordingId!.toString()
+}
+
+export async function discardLiveUpload(db: Db, upload: ILiveUpload) {
+  await db.collection(LIVE_CHUNKS_COLLECTION).deleteMany({ upload_id: upload._id })
+  await LiveUpload.deleteOne({ _id: upload._id })
+}
+
+// Deletes the staged chunks of live uploads that were never finalized
+export async function purgeExpiredLiveUploads(db: Db) {
+  const now = new Date()
+  const expired = await LiveUpload.find({ expiresAt: { $lt: now } })
+
+  for (const upload of expired) {
+    await discardLiveUpload(db, upload)
+  }
+
+  return expired.length
+}
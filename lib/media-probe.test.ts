@@ -0,0 +1,200 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { ByteSource } from "@/lib/byte-source"
+import { EBML_ID, concatBytes, encodeElement, encodeFloat, encodeId, encodeUint } from "@/lib/ebml"
+import { MediaProbeError, probeMedia } from "@/lib/media-probe"
+
+function bufferSource(data: Uint8Array): ByteSource {
+  return { size: data.length, read: async (offset, length) => data.subarray(offset, offset + length) }
+}
+
+const probe = (data: Uint8Array) => probeMedia(bufferSource(data))
+const round = (value: number) => Math.round(value * 100) / 100
+
+// --- MP4 ---------------------------------------------------------------------
+
+function box(type: string, ...payload: Uint8Array[]) {
+  const data = Buffer.concat(payload)
+  const header = Buffer.alloc(8)
+  header.writeUInt32BE(data.length + 8, 0)
+  header.write(type, 4, "latin1")
+  return Buffer.concat([header, data])
+}
+
+// A full box's payload: version and flags, then big-endian uint32 fields
+function fullBox(type: string, flags: number, ...fields: number[]) {
+  const data = Buffer.alloc(4 + fields.length * 4)
+  data.writeUInt32BE(flags & 0xffffff, 0)
+  fields.forEach((field, index) => data.writeUInt32BE(field, 4 + index * 4))
+  return box(type, data)
+}
+
+function videoTrak(id: number, timescale: number, duration: number) {
+  const tkhd = Buffer.alloc(84)
+  tkhd.writeUInt32BE(id, 12)
+  tkhd.writeUInt32BE(1280 * 65536, 76)
+  tkhd.writeUInt32BE(720 * 65536, 80)
+
+  const mdhd = Buffer.alloc(24)
+  mdhd.writeUInt32BE(timescale, 12)
+  mdhd.writeUInt32BE(duration, 16)
+
+  const hdlr = Buffer.alloc(25)
+  hdlr.write("vide", 8, "latin1")
+
+  return box("trak", box("tkhd", tkhd), box("mdia", box("mdhd", mdhd), box("hdlr", hdlr)))
+}
+
+const ftyp = box("ftyp", Buffer.from("isom\0\0\0\0isomiso6", "latin1"))
+
+// A fragmented MP4 as MediaRecorder writes it: an empty moov, then moof boxes
+function fragmentedMp4(...fragments: Buffer[]) {
+  const mvex = box("mvex", fullBox("trex", 0, 1, 1, 40, 0, 0))
+  return Buffer.concat([ftyp, box("moov", videoTrak(1, 1000, 0), mvex), ...fragments])
+}
+
+function fragment(baseTime: number, trun: Buffer) {
+  return box("moof", box("traf", fullBox("tfhd", 0, 1), fullBox("tfdt", 0, baseTime), trun))
+}
+
+test("fragmented MP4 durations add up the track runs", async () => {
+  // 25 samples at the trex default of 40ms, then 10 with their own durations
+  const info = await probe(
+    fragmentedMp4(
+      fragment(0, fullBox("trun", 0, 25)),
+      fragment(1000, fullBox("trun", 0x100, 10, 50, 50, 50, 50, 50, 50, 50, 50, 50, 50)),
+    ),
+  )
+  assert.equal(info?.container, "mp4")
+  assert.equal(info?.duration, 1.5)
+  assert.equal(info?.width, 1280)
+  assert.equal(info?.height, 720)
+  assert.equal(info?.frameRate, round(35 / 1.5))
+})
+
+test("a tfhd default sample duration overrides trex", async () => {
+  const tfhd = fullBox("tfhd", 0x08, 1, 100)
+  const moof = box("moof", box("traf", tfhd, fullBox("tfdt", 0, 0), fullBox("trun", 0, 30)))
+  const info = await probe(fragmentedMp4(moof))
+  assert.equal(info?.duration, 3)
+})
+
+test("a huge sample count without per-sample entries is multiplied, not looped", async () => {
+  const started = Date.now()
+  const info = await probe(fragmentedMp4(fragment(0, fullBox("trun", 0, 0xffffffff))))
+  assert.equal(info?.duration, (0xffffffff * 40) / 1000)
+  assert.ok(Date.now() - started < 1000)
+})
+
+test("a sample count larger than the track run holds is rejected", async () => {
+  await assert.rejects(probe(fragmentedMp4(fragment(0, fullBox("trun", 0x100, 0xffffffff, 40)))), MediaProbeError)
+  await assert.rejects(probe(fragmentedMp4(fragment(0, fullBox("trun", 0x300, 2, 40, 100, 40)))), MediaProbeError)
+})
+
+test("a progressive MP4 takes its duration from mdhd", async () => {
+  const info = await probe(Buffer.concat([ftyp, box("moov", videoTrak(1, 90000, 900000)), box("mdat")]))
+  assert.equal(info?.duration, 10)
+})
+
+test("truncated MP4 boxes are reported as malformed", async () => {
+  const shortTkhd = box("trak", box("tkhd", Buffer.alloc(6)))
+  await assert.rejects(probe(Buffer.concat([ftyp, box("moov", shortTkhd)])), MediaProbeError)
+  await assert.rejects(probe(fragmentedMp4(box("moof", box("traf", box("tfhd", Buffer.alloc(2)))))), MediaProbeError)
+  // No moov at all
+  await assert.rejects(probe(Buffer.concat([ftyp, box("mdat", Buffer.alloc(16))])), MediaProbeError)
+})
+
+test("a file cut off mid-box still probes what is there", async () => {
+  const file = Buffer.concat([ftyp, box("moov", videoTrak(1, 1000, 4000)), box("mdat", Buffer.alloc(1000))])
+  const info = await probe(file.subarray(0, file.length - 500))
+  assert.equal(info?.duration, 4)
+})
+
+// --- WebM --------------------------------------------------------------------
+
+const UNKNOWN_SIZE = Uint8Array.of(0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff)
+const text = (value: string) => new TextEncoder().encode(value)
+
+function simpleBlock(timecode: number) {
+  return encodeElement(EBML_ID.SimpleBlock, Uint8Array.of(0x81, timecode >> 8, timecode & 0xff, 0x80, 0))
+}
+
+function cluster(timecode: number, ...blocks: Uint8Array[]) {
+  const timecodeElement = encodeElement(EBML_ID.Timecode, encodeUint(timecode))
+  return concatBytes([encodeId(EBML_ID.Cluster), UNKNOWN_SIZE, timecodeElement, ...blocks])
+}
+
+// A WebM file as MediaRecorder streams it: unknown-size Segment and Clusters,
+// and no Duration unless one is passed
+function webm(duration: number | null, ...clusters: Uint8Array[]) {
+  const info = encodeElement(
+    EBML_ID.Info,
+    concatBytes([
+      encodeElement(EBML_ID.TimecodeScale, encodeUint(1000000)),
+      ...(duration === null ? [] : [encodeElement(EBML_ID.Duration, encodeFloat(duration))]),
+    ]),
+  )
+  const tracks = encodeElement(
+    EBML_ID.Tracks,
+    encodeElement(
+      EBML_ID.TrackEntry,
+      concatBytes([
+        encodeElement(EBML_ID.TrackNumber, encodeUint(1)),
+        encodeElement(EBML_ID.TrackType, encodeUint(1)),
+        encodeElement(EBML_ID.CodecID, text("V_VP8")),
+        encodeElement(
+          EBML_ID.Video,
+          concatBytes([
+            encodeElement(EBML_ID.PixelWidth, encodeUint(640)),
+            encodeElement(EBML_ID.PixelHeight, encodeUint(480)),
+          ]),
+        ),
+      ]),
+    ),
+  )
+  return concatBytes([
+    encodeElement(EBML_ID.Header, encodeElement(0x4282, text("webm"))),
+    encodeId(EBML_ID.Segment),
+    UNKNOWN_SIZE,
+    info,
+    tracks,
+    ...clusters,
+  ])
+}
+
+test("WebM without a Duration is timed from its unknown-size clusters", async () => {
+  const info = await probe(webm(null, cluster(0, simpleBlock(0), simpleBlock(1000)), cluster(2000, simpleBlock(500))))
+  assert.deepEqual(info, {
+    container: "webm",
+    duration: 2.5,
+    width: 640,
+    height: 480,
+    frameRate: round(2 / 2.5),
+    videoCodec: "vp8",
+    audioCodec: undefined,
+    hasAudio: false,
+  })
+})
+
+test("a declared WebM Duration wins over the block timecodes", async () => {
+  const info = await probe(webm(4200, cluster(0, simpleBlock(0), simpleBlock(1000))))
+  assert.equal(info?.duration, 4.2)
+})
+
+test("a WebM file cut off mid-block keeps the blocks whose headers are there", async () => {
+  const file = webm(null, cluster(0, simpleBlock(0), simpleBlock(800), simpleBlock(1600)))
+  assert.equal((await probe(file.subarray(0, file.length - 1)))?.duration, 1.6)
+  assert.equal((await probe(file.subarray(0, file.length - 3)))?.duration, 0.8)
+})
+
+test("a broken EBML header is rejected", async () => {
+  const header = concatBytes([encodeId(EBML_ID.Header), UNKNOWN_SIZE])
+  await assert.rejects(probe(concatBytes([header, new Uint8Array(8)])), MediaProbeError)
+  const noSegment = concatBytes([encodeElement(EBML_ID.Header, new Uint8Array(4)), new Uint8Array(8)])
+  await assert.rejects(probe(noSegment), MediaProbeError)
+})
+
+test("unknown containers probe as null", async () => {
+  assert.equal(await probe(Buffer.from("RIFF\0\0\0\0AVI LIST", "latin1")), null)
+  assert.equal(await probe(new Uint8Array(4)), null)
+})
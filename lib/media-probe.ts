@@ -0,0 +1,412 @@
+import { ByteReader, type ByteSource } from "@/lib/byte-source"
+import { EBML_ID, ebmlChildren, ebmlFloat, ebmlString, ebmlUint, parseBlockHeader, readEbmlHeader } from "@/lib/ebml"
+
+// Reads duration, dimensions and codecs straight from an uploaded file's
+// container: WebM/Matroska (EBML) and MP4/QuickTime (ISO BMFF boxes). Only
+// container metadata and block headers are parsed; frames are never decoded.
+
+export interface MediaInfo {
+  container: "webm" | "mp4"
+  duration: number // in seconds
+  width?: number
+  height?: number
+  frameRate?: number
+  videoCodec?: string
+  audioCodec?: string
+  hasAudio: boolean
+}
+
+// Raised when a file looks like a supported container but cannot be parsed
+export class MediaProbeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MediaProbeError"
+  }
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+
+function frameRateFrom(frames: number, seconds: number) {
+  return frames > 1 && seconds > 0 ? round(frames / seconds, 2) : undefined
+}
+
+// --- WebM / Matroska ---------------------------------------------------------
+
+const MATROSKA_CODECS: Record<string, string> = {
+  V_VP8: "vp8",
+  V_VP9: "vp9",
+  V_AV1: "av1",
+  "V_MPEG4/ISO/AVC": "h264",
+  "V_MPEGH/ISO/HEVC": "hevc",
+  A_OPUS: "opus",
+  A_VORBIS: "vorbis",
+  A_AAC: "aac",
+  A_PCM: "pcm",
+}
+
+interface MatroskaTrack {
+  number: number
+  type: number // 1 = video, 2 = audio
+  codec?: string
+  defaultDuration?: number // in nanoseconds
+  width?: number
+  height?: number
+}
+
+function parseMatroskaTrack(data: Uint8Array): MatroskaTrack {
+  const track: MatroskaTrack = { number: 0, type: 0 }
+  for (const child of ebmlChildren(data)) {
+    if (child.id === EBML_ID.TrackNumber) track.number = ebmlUint(child.data)
+    else if (child.id === EBML_ID.TrackType) track.type = ebmlUint(child.data)
+    else if (child.id === EBML_ID.CodecID) {
+      const codecId = ebmlString(child.data)
+      track.codec = MATROSKA_CODECS[codecId] ?? codecId.toLowerCase()
+    } else if (child.id === EBML_ID.DefaultDuration) track.defaultDuration = ebmlUint(child.data)
+    else if (child.id === EBML_ID.Video) {
+      for (const video of ebmlChildren(child.data)) {
+        if (video.id === EBML_ID.PixelWidth) track.width = ebmlUint(video.data)
+        else if (video.id === EBML_ID.PixelHeight) track.height = ebmlUint(video.data)
+      }
+    }
+  }
+  return track
+}
+
+async function probeWebM(reader: ByteReader): Promise<MediaInfo> {
+  const ebml = await readEbmlHeader(reader, 0)
+  if (!ebml || ebml.size === null) throw new MediaProbeError("Invalid EBML header")
+
+  const segment = await readEbmlHeader(reader, ebml.dataStart + ebml.size)
+  if (!segment || segment.id !== EBML_ID.Segment) throw new MediaProbeError("Missing Matroska segment")
+  const segmentEnd = segment.size === null ? reader.size : Math.min(segment.dataStart + segment.size, reader.size)
+
+  let timecodeScale = 1000000 // nanoseconds per timecode unit
+  let declaredDuration: number | null = null
+  const tracks = new Map<number, MatroskaTrack>()
+  let clusterTimecode = 0
+  let lastTimecode = 0
+  let firstVideoTimecode: number | null = null
+  let lastVideoTimecode = 0
+  let videoFrames = 0
+
+  const videoTrack = () => [...tracks.values()].find((track) => track.type === 1)
+
+  // Clusters and block groups are entered rather than skipped, so their children
+  // are visited in this same loop. That works whether or not their size is known.
+  let offset = segment.dataStart
+  while (offset < segmentEnd) {
+    const element = await readEbmlHeader(reader, offset)
+    if (!element) break
+
+    if (element.id === EBML_ID.Cluster) {
+      // Info and Tracks come first; skip the blocks if they already say everything
+      if (declaredDuration !== null && tracks.size > 0 && (!videoTrack() || videoTrack()!.defaultDuration)) break
+      offset = element.dataStart
+      continue
+    }
+    if (element.id === EBML_ID.BlockGroup) {
+      offset = element.dataStart
+      continue
+    }
+    if (element.size === null) break
+
+    const end = element.dataStart + element.size
+    if (element.id === EBML_ID.Info || element.id === EBML_ID.Tracks) {
+      const data = await reader.bytes(element.dataStart, element.size)
+      for (const child of ebmlChildren(data)) {
+        if (child.id === EBML_ID.TimecodeScale) timecodeScale = ebmlUint(child.data)
+        else if (child.id === EBML_ID.Duration) declaredDuration = ebmlFloat(child.data)
+        else if (child.id === EBML_ID.TrackEntry) {
+          const track = parseMatroskaTrack(child.data)
+          tracks.set(track.number, track)
+        }
+      }
+    } else if (element.id === EBML_ID.Timecode) {
+      clusterTimecode = ebmlUint(await reader.bytes(element.dataStart, element.size))
+    } else if (element.id === EBML_ID.SimpleBlock || element.id === EBML_ID.Block) {
+      const block = parseBlockHeader(await reader.bytes(element.dataStart, 12))
+      if (block) {
+        const timecode = clusterTimecode + block.timecode
+        lastTimecode = Math.max(lastTimecode, timecode)
+        if (tracks.get(block.track)?.type === 1) {
+          videoFrames++
+          firstVideoTimecode ??= timecode
+          lastVideoTimecode = Math.max(lastVideoTimecode, timecode)
+        }
+      }
+    }
+    offset = end
+  }
+
+  const toSeconds = (timecode: number) => (timecode * timecodeScale) / 1e9
+  const video = videoTrack()
+  const audio = [...tracks.values()].find((track) => track.type === 2)
+
+  return {
+    container: "webm",
+    duration: toSeconds(declaredDuration ?? lastTimecode),
+    width: video?.width,
+    height: video?.height,
+    frameRate: video?.defaultDuration
+      ? round(1e9 / video.defaultDuration, 2)
+      : frameRateFrom(videoFrames - 1, toSeconds(lastVideoTimecode - (firstVideoTimecode ?? 0))),
+    videoCodec: video?.codec,
+    audioCodec: audio?.codec,
+    hasAudio: Boolean(audio),
+  }
+}
+
+// --- MP4 / QuickTime ---------------------------------------------------------
+
+const MP4_TOP_LEVEL_BOXES = new Set(["ftyp", "moov", "mdat", "free", "skip", "wide", "pnot", "styp"])
+
+const MP4_CODECS: Record<string, string> = {
+  avc1: "h264",
+  avc3: "h264",
+  hvc1: "hevc",
+  hev1: "hevc",
+  av01: "av1",
+  vp08: "vp8",
+  vp09: "vp9",
+  mp4a: "aac",
+  Opus: "opus",
+}
+
+// Box parsing leans on Buffer's big-endian readers; the copy also detaches the
+// data from the reader's window
+const toBuffer = (data: Uint8Array) => Buffer.from(data)
+
+interface Mp4Track {
+  id: number
+  handler?: string // "vide", "soun", ...
+  timescale: number
+  duration: number // in media timescale units
+  samples: number
+  codec?: string
+  width?: number
+  height?: number
+  defaultSampleDuration: number // from trex, for fragments that don't say
+  fragmentEnd: number // running end time across movie fragments
+  fragmentSamples: number
+}
+
+function* mp4Boxes(data: Buffer) {
+  let position = 0
+  while (position + 8 <= data.length) {
+    let size = data.readUInt32BE(position)
+    const type = data.toString("latin1", position + 4, position + 8)
+    let headerSize = 8
+    if (size === 1 && position + 16 <= data.length) {
+      size = Number(data.readBigUInt64BE(position + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = data.length - position
+    }
+    if (size < headerSize) return
+    yield { type, data: data.subarray(position + headerSize, position + size) }
+    position += size
+  }
+}
+
+function findBox(data: Buffer, path: string[]): Buffer | undefined {
+  let current: Buffer | undefined = data
+  for (const type of path) {
+    current = current && [...mp4Boxes(current)].find((box) => box.type === type)?.data
+  }
+  return current
+}
+
+// Reads a full box's version-dependent 32/64-bit field
+function readVersioned(data: Buffer, version: number, offset32: number, offset64: number) {
+  return version === 1 ? Number(data.readBigUInt64BE(offset64)) : data.readUInt32BE(offset32)
+}
+
+function parseMp4Track(trak: Buffer): Mp4Track {
+  const track: Mp4Track = {
+    id: 0,
+    timescale: 0,
+    duration: 0,
+    samples: 0,
+    defaultSampleDuration: 0,
+    fragmentEnd: 0,
+    fragmentSamples: 0,
+  }
+
+  const tkhd = findBox(trak, ["tkhd"])
+  if (tkhd) {
+    track.id = tkhd.readUInt32BE(tkhd[0] === 1 ? 20 : 12)
+    // Width and height are 16.16 fixed point, the last two fields of the box
+    track.width = Math.round(tkhd.readUInt32BE(tkhd.length - 8) / 65536) || undefined
+    track.height = Math.round(tkhd.readUInt32BE(tkhd.length - 4) / 65536) || undefined
+  }
+
+  const mdhd = findBox(trak, ["mdia", "mdhd"])
+  if (mdhd) {
+    track.timescale = mdhd.readUInt32BE(mdhd[0] === 1 ? 20 : 12)
+    track.duration = readVersioned(mdhd, mdhd[0], 16, 24)
+  }
+
+  const hdlr = findBox(trak, ["mdia", "hdlr"])
+  if (hdlr) track.handler = hdlr.toString("latin1", 8, 12)
+
+  const stbl = findBox(trak, ["mdia", "minf", "stbl"])
+  const stsd = stbl && findBox(stbl, ["stsd"])
+  if (stsd && stsd.length >= 16) {
+    const format = stsd.toString("latin1", 12, 16)
+    track.codec = MP4_CODECS[format] ?? format.trim().toLowerCase()
+  }
+
+  const stts = stbl && findBox(stbl, ["stts"])
+  if (stts) {
+    const entries = stts.readUInt32BE(4)
+    for (let i = 0; i < entries && 8 + i * 8 + 8 <= stts.length; i++) {
+      track.samples += stts.readUInt32BE(8 + i * 8)
+    }
+  }
+
+  return track
+}
+
+// Adds one movie fragment's sample count and end time to its tracks
+function applyMovieFragment(moof: Buffer, tracks: Map<number, Mp4Track>) {
+  for (const traf of mp4Boxes(moof)) {
+    if (traf.type !== "traf") continue
+
+    const tfhd = findBox(traf.data, ["tfhd"])
+    if (!tfhd) continue
+    const tfhdFlags = tfhd.readUIntBE(1, 3)
+    const track = tracks.get(tfhd.readUInt32BE(4))
+    if (!track) continue
+
+    let defaultDuration = track.defaultSampleDuration
+    if (tfhdFlags & 0x08) {
+      let position = 8
+      if (tfhdFlags & 0x01) position += 8
+      if (tfhdFlags & 0x02) position += 4
+      defaultDuration = tfhd.readUInt32BE(position)
+    }
+
+    const tfdt = findBox(traf.data, ["tfdt"])
+    let time = tfdt ? readVersioned(tfdt, tfdt[0], 4, 4) : track.fragmentEnd
+
+    for (const trun of mp4Boxes(traf.data)) {
+      if (trun.type !== "trun") continue
+      const flags = trun.data.readUIntBE(1, 3)
+      const sampleCount = trun.data.readUInt32BE(4)
+      let position = 8
+      if (flags & 0x001) position += 4 // data offset
+      if (flags & 0x004) position += 4 // first sample flags
+      const fieldSize = [0x100, 0x200, 0x400, 0x800].filter((flag) => flags & flag).length * 4
+      // The count is a uint32 from the file; it must match the entries actually there
+      if (sampleCount * fieldSize > trun.data.length - position) {
+        throw new MediaProbeError("Track run has more samples than it holds")
+      }
+
+      if (flags & 0x100) {
+        for (let i = 0; i < sampleCount; i++) {
+          time += trun.data.readUInt32BE(position)
+          position += fieldSize
+        }
+      } else {
+        time += sampleCount * defaultDuration
+      }
+      track.fragmentSamples += sampleCount
+    }
+
+    track.fragmentEnd = Math.max(track.fragmentEnd, time)
+  }
+}
+
+async function probeMp4(reader: ByteReader): Promise<MediaInfo> {
+  let movie: Buffer | null = null
+  const tracks = new Map<number, Mp4Track>()
+  const fragments: Buffer[] = []
+
+  // Walk the top-level boxes, reading only moov and moof; mdat is skipped
+  let offset = 0
+  while (offset + 8 <= reader.size) {
+    const head = toBuffer(await reader.bytes(offset, 16))
+    const type = head.toString("latin1", 4, 8)
+    let size = head.readUInt32BE(0)
+    let headerSize = 8
+    if (size === 1) {
+      size = Number(head.readBigUInt64BE(8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = reader.size - offset
+    }
+    if (size < headerSize) break
+
+    if (type === "moov") {
+      movie = toBuffer(await reader.bytes(offset + headerSize, size - headerSize))
+      for (const trak of mp4Boxes(movie)) {
+        if (trak.type !== "trak") continue
+        const track = parseMp4Track(trak.data)
+        tracks.set(track.id, track)
+      }
+      for (const trex of mp4Boxes(findBox(movie, ["mvex"]) ?? Buffer.alloc(0))) {
+        const track = trex.type === "trex" ? tracks.get(trex.data.readUInt32BE(4)) : undefined
+        if (track) track.defaultSampleDuration = trex.data.readUInt32BE(12)
+      }
+    } else if (type === "moof") {
+      fragments.push(toBuffer(await reader.bytes(offset + headerSize, size - headerSize)))
+    }
+    offset += size
+  }
+
+  if (!movie) throw new MediaProbeError("Missing moov box")
+  fragments.forEach((moof) => applyMovieFragment(moof, tracks))
+
+  const seconds = (track: Mp4Track) =>
+    track.timescale > 0 ? Math.max(track.duration, track.fragmentEnd) / track.timescale : 0
+
+  let duration = Math.max(0, ...[...tracks.values()].map(seconds))
+  if (duration === 0) {
+    // Fall back to the movie header (or fragmented movie header) duration
+    const mvhd = findBox(movie, ["mvhd"])
+    const mehd = findBox(movie, ["mvex", "mehd"])
+    if (mvhd) {
+      const timescale = mvhd.readUInt32BE(mvhd[0] === 1 ? 20 : 12)
+      const movieDuration = Math.max(
+        readVersioned(mvhd, mvhd[0], 16, 24),
+        mehd ? readVersioned(mehd, mehd[0], 4, 4) : 0,
+      )
+      duration = timescale > 0 ? movieDuration / timescale : 0
+    }
+  }
+
+  const video = [...tracks.values()].find((track) => track.handler === "vide")
+  const audio = [...tracks.values()].find((track) => track.handler === "soun")
+
+  return {
+    container: "mp4",
+    duration,
+    width: video?.width,
+    height: video?.height,
+    frameRate: video ? frameRateFrom(video.samples + video.fragmentSamples, seconds(video)) : undefined,
+    videoCodec: video?.codec,
+    audioCodec: audio?.codec,
+    hasAudio: Boolean(audio),
+  }
+}
+
+// Returns null for containers this module does not understand (e.g. AVI)
+export async function probeMedia(source: ByteSource): Promise<MediaInfo | null> {
+  const reader = new ByteReader(source)
+  const head = toBuffer(await reader.bytes(0, 12))
+  if (head.length < 8) return null
+
+  try {
+    if (head.readUInt32BE(0) === EBML_ID.Header) {
+      return await probeWebM(reader)
+    }
+    if (MP4_TOP_LEVEL_BOXES.has(head.toString("latin1", 4, 8))) {
+      return await probeMp4(reader)
+    }
+  } catch (error) {
+    if (error instanceof MediaProbeError) throw error
+    // Buffer reads past the end of a truncated or corrupt box
+    throw new MediaProbeError(`Malformed media file: ${(error as Error).message}`)
+  }
+  return null
+}
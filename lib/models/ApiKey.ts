@@ -0,0 +1,73 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+// A key for scripts that call the recordings API without a browser session.
+// It acts as the member who created it, in one workspace, limited to its
+// scopes. Only a hash of the key is stored.
+export const API_KEY_SCOPES = ["read", "write", "delete"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface IApiKey extends Document {
+  workspaceId: ObjectId;
+  createdBy: ObjectId;
+  name: string;
+  // The start of the key, so people can tell their keys apart
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: {
+      type: [{ type: String, enum: API_KEY_SCOPES }],
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A workspace's keys, newest first
+ApiKeySchema.index({ workspaceId: 1, createdAt: -1 });
+
+export const ApiKey = mongoose.models.ApiKey || mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+// A ZIP download prepared by the bulk endpoint: the recordings to pack, kept
+// until the link expires
+export interface IArchive extends Document {
+  // The user who prepared it (only they can download it) and the workspace
+  // its recordings are in
+  owner: ObjectId;
+  workspaceId: ObjectId;
+  recordingIds: ObjectId[];
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ArchiveSchema = new Schema<IArchive>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    recordingIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Recording" }],
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// MongoDB removes expired archives on its own
+ArchiveSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Archive = mongoose.models.Archive || mongoose.model<IArchive>("Archive", ArchiveSchema);
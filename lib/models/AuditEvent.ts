@@ -0,0 +1,107 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, type AuditAction, type AuditTargetType } from "@/lib/audit-actions";
+
+// One thing someone did in a workspace, kept for compliance. Events are only
+// ever inserted; the hooks below refuse to change or delete them.
+export interface IAuditEvent extends Document {
+  workspaceId: ObjectId;
+  // Both null for the app's own actions, like purging expired trash, and for
+  // views through share links, which nobody signs in for
+  actor: {
+    userId: ObjectId | null;
+    apiKeyId: ObjectId | null;
+  };
+  action: AuditAction;
+  target: {
+    type: AuditTargetType;
+    id: string;
+  };
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    actor: {
+      userId: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        default: null,
+      },
+      apiKeyId: {
+        type: Schema.Types.ObjectId,
+        ref: "ApiKey",
+        default: null,
+      },
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+    },
+    target: {
+      type: {
+        type: String,
+        enum: AUDIT_TARGET_TYPES,
+        required: true,
+      },
+      id: {
+        type: String,
+        required: true,
+      },
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+    userAgent: {
+      type: String,
+      default: null,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// The log is listed newest first, usually narrowed to one action, actor or target
+AuditEventSchema.index({ workspaceId: 1, _id: -1 });
+AuditEventSchema.index({ workspaceId: 1, action: 1, _id: -1 });
+AuditEventSchema.index({ workspaceId: 1, "actor.userId": 1, _id: -1 });
+AuditEventSchema.index({ workspaceId: 1, "target.id": 1, _id: -1 });
+
+AuditEventSchema.pre("save", function () {
+  if (!this.isNew) throw new Error("Audit events can't be changed");
+});
+
+AuditEventSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  function () {
+    throw new Error("Audit events can't be changed or deleted");
+  }
+);
+
+export const AuditEvent =
+  mongoose.models.AuditEvent || mongoose.model<IAuditEvent>("AuditEvent", AuditEventSchema);
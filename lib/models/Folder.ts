@@ -0,0 +1,43 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+export interface IFolder extends Document {
+  workspaceId: ObjectId;
+  name: string;
+  // null for top-level folders
+  parentId: ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FolderSchema = new Schema<IFolder>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Sibling folders can't share a name
+FolderSchema.index(
+  { workspaceId: 1, parentId: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } }
+);
+
+export const Folder = mongoose.models.Folder || mongoose.model<IFolder>("Folder", FolderSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+export interface ILiveUpload extends Document {
+  // The user recording, and the workspace the recording will go in
+  owner: ObjectId;
+  workspaceId: ObjectId;
+  title: string;
+  contentType: string;
+  receivedChunks: number;
+  receivedBytes: number;
+  status: "recording" | "finalizing" | "complete";
+  recordingId?: ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LiveUploadSchema = new Schema<ILiveUpload>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    contentType: {
+      type: String,
+      required: true,
+      validate: {
+        validator: (v: string) => v.startsWith("video/"),
+        message: "Content type must be a video format",
+      },
+    },
+    receivedChunks: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    receivedBytes: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ["recording", "finalizing", "complete"],
+      default: "recording",
+    },
+    recordingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Recording",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Used by the garbage collector to find abandoned sessions
+LiveUploadSchema.index({ status: 1, expiresAt: 1 });
+
+export const LiveUpload =
+  mongoose.models.LiveUpload ||
+  mongoose.model<ILiveUpload>("LiveUpload", LiveUploadSchema);
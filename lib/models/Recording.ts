@@ -1,25 +1,87 @@
 import mongoose, { Schema, type Document } from "mongoose";
 import type { ObjectId } from "mongodb";
+import { config } from "@/lib/config";
+
+// Sprite sheet of frames for scrub previews; the layout matches StoryboardLayout
+export interface IStoryboard {
+  fileId: ObjectId;
+  interval: number;
+  count: number;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+}
 
 export interface IRecording extends Document {
+  // The workspace it belongs to, and the user who uploaded it
+  workspaceId: ObjectId;
+  owner: ObjectId;
   title: string;
+  description: string;
+  // Plain text of what is said in the recording, when one has been provided
+  transcript?: string;
+  // Tag names (see Tag); the folder is null for recordings outside any folder
+  tags: string[];
+  folderId: ObjectId | null;
   filename: string;
   fileId: ObjectId;
   size: number;
   duration: number;
   contentType: string;
+  // Probed from the container; absent for formats that can't be probed
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  hasAudio?: boolean;
+  // Poster image in the "thumbnails" GridFS bucket
+  thumbnailId?: ObjectId;
+  // Sprite in the same bucket, generated on first request
+  storyboard?: IStoryboard;
+  // Set while the recording is in the trash; null otherwise
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const RecordingSchema = new Schema<IRecording>(
   {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
     title: {
       type: String,
       required: true,
       trim: true,
       maxlength: 200,
     },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+      default: "",
+    },
+    transcript: {
+      type: String,
+      maxlength: 200000,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    folderId: {
+      type: Schema.Types.ObjectId,
+      ref: "Folder",
+      default: null,
+    },
     filename: {
       type: String,
       required: true,
@@ -39,7 +101,7 @@ const RecordingSchema = new Schema<IRecording>(
       type: Number,
       required: true,
       min: 0,
-      max: 180, // 3 minutes max
+      max: config.limits.maxDurationSeconds,
     },
     contentType: {
       type: String,
@@ -49,6 +111,33 @@ const RecordingSchema = new Schema<IRecording>(
         message: "Content type must be a video format",
       },
     },
+    width: { type: Number, min: 0 },
+    height: { type: Number, min: 0 },
+    frameRate: { type: Number, min: 0 },
+    videoCodec: { type: String },
+    audioCodec: { type: String },
+    hasAudio: { type: Boolean },
+    thumbnailId: {
+      type: Schema.Types.ObjectId,
+      ref: "thumbnails.files",
+    },
+    storyboard: {
+      type: new Schema<IStoryboard>(
+        {
+          fileId: { type: Schema.Types.ObjectId, required: true, ref: "thumbnails.files" },
+          interval: { type: Number, required: true, min: 0 },
+          count: { type: Number, required: true, min: 1 },
+          columns: { type: Number, required: true, min: 1 },
+          tileWidth: { type: Number, required: true, min: 1 },
+          tileHeight: { type: Number, required: true, min: 1 },
+        },
+        { _id: false }
+      ),
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -64,10 +153,24 @@ const RecordingSchema = new Schema<IRecording>(
 );
 
 // Indexes for better query performance
-RecordingSchema.index({ createdAt: -1 });
+// Sort orders of each workspace's paginated list, with _id as its tie-breaker
+RecordingSchema.index({ workspaceId: 1, createdAt: -1, _id: -1 });
+RecordingSchema.index({ workspaceId: 1, size: 1, _id: 1 });
+RecordingSchema.index({ workspaceId: 1, duration: 1, _id: 1 });
+RecordingSchema.index({ workspaceId: 1, title: 1, _id: 1 }, { collation: { locale: "en", strength: 2 } });
+RecordingSchema.index({ workspaceId: 1, tags: 1 });
+RecordingSchema.index({ folderId: 1 });
+// Trash listing and the retention purge
+RecordingSchema.index({ deletedAt: 1 });
+// Full-text search. A collection can only have one text index, so every
+// searchable field goes in this one.
+RecordingSchema.index(
+  { title: "text", tags: "text", description: "text", transcript: "text" },
+  { name: "recording_text", weights: { title: 10, tags: 5, description: 3, transcript: 1 } }
+);
 // Note: filename already has unique index from unique: true property
 
-// Pre-remove middleware to clean up GridFS files
+// Pre-remove middleware to clean up GridFS files and share links
 RecordingSchema.pre("findOneAndDelete", async function () {
   const doc = await this.model.findOne(this.getQuery());
   if (doc) {
@@ -81,6 +184,23 @@ RecordingSchema.pre("findOneAndDelete", async function () {
     } catch (error) {
       console.error("Error deleting GridFS file:", error);
     }
+
+    const images = [doc.thumbnailId, doc.storyboard?.fileId].filter(Boolean);
+    for (const imageId of images) {
+      try {
+        const { db } = await connectToDatabase();
+        await new GridFSBucket(db, { bucketName: "thumbnails" }).delete(imageId);
+      } catch (error) {
+        console.error("Error deleting thumbnail:", error);
+      }
+    }
+
+    try {
+      const { ShareLink } = require("./ShareLink");
+      await ShareLink.deleteMany({ recordingId: doc._id });
+    } catch (error) {
+      console.error("Error deleting share links:", error);
+    }
   }
 });
 
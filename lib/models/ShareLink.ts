@@ -0,0 +1,89 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+// A public link to one recording (see lib/share-links.ts). Every limit is
+// optional; a link with none works until it is revoked.
+export interface IShareLink extends Document {
+  workspaceId: ObjectId;
+  // The user who created it
+  owner: ObjectId;
+  recordingId: ObjectId;
+  // Random and URL-safe; the link is /share/<token>
+  token: string;
+  expiresAt: Date | null;
+  // scrypt hash (see lib/passwords.ts) when the link needs a password
+  passwordHash?: string;
+  // Incorrect passwords since the last lockout or correct one; too many lock
+  // the link until lockedUntil
+  failedAttempts: number;
+  lockedUntil: Date | null;
+  maxViews: number | null;
+  views: number;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShareLinkSchema = new Schema<IShareLink>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    recordingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Recording",
+      required: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    passwordHash: {
+      type: String,
+      select: false,
+    },
+    failedAttempts: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    maxViews: {
+      type: Number,
+      min: 1,
+      default: null,
+    },
+    views: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A recording's links, for its share dialog
+ShareLinkSchema.index({ recordingId: 1, createdAt: -1 });
+
+export const ShareLink = mongoose.models.ShareLink || mongoose.model<IShareLink>("ShareLink", ShareLinkSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+import { TAG_COLORS, type TagColor } from "@/lib/tag-colors";
+
+// Recordings store tag names rather than IDs so the text index can search
+// them; renaming a tag rewrites the name on every recording that has it.
+export interface ITag extends Document {
+  workspaceId: ObjectId;
+  name: string;
+  color: TagColor;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const TAG_COLLATION = { locale: "en", strength: 2 };
+
+const TagSchema = new Schema<ITag>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 40,
+    },
+    color: {
+      type: String,
+      enum: TAG_COLORS,
+      default: "gray",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Tag names are unique within a workspace regardless of case ("Demo" and "demo" are the same tag)
+TagSchema.index({ workspaceId: 1, name: 1 }, { unique: true, collation: TAG_COLLATION });
+
+export const Tag = mongoose.models.Tag || mongoose.model<ITag>("Tag", TagSchema);
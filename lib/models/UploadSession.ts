@@ -0,0 +1,91 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+export interface IUploadSession extends Document {
+  // The user uploading, and the workspace the recording will go in
+  owner: ObjectId;
+  workspaceId: ObjectId;
+  fileId: ObjectId;
+  filename: string;
+  title: string;
+  contentType: string;
+  size: number;
+  offset: number;
+  chunkSize: number;
+  status: "active" | "finalizing" | "complete";
+  recordingId?: ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UploadSessionSchema = new Schema<IUploadSession>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    fileId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      unique: true,
+    },
+    filename: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    contentType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    offset: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    chunkSize: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["active", "finalizing", "complete"],
+      default: "active",
+    },
+    recordingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Recording",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Used by the garbage collector to find abandoned sessions
+UploadSessionSchema.index({ status: 1, expiresAt: 1 });
+
+export const UploadSession =
+  mongoose.models.UploadSession ||
+  mongoose.model<IUploadSession>("UploadSession", UploadSessionSchema);
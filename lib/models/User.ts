@@ -0,0 +1,39 @@
+import mongoose, { Schema, type Document } from "mongoose";
+
+export interface IUser extends Document {
+  email: string;
+  name: string;
+  // scrypt hash (see lib/passwords.ts); not selected unless asked for
+  passwordHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSchema = new Schema<IUser>(
+  {
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+      maxlength: 254,
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+      default: "",
+    },
+    passwordHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const User = mongoose.models.User || mongoose.model<IUser>("User", UserSchema);
@@ -0,0 +1,65 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+
+// Recordings, tags and folders belong to a workspace. Every user gets a
+// personal one; shared ones have several members, each in a role (see
+// lib/workspaces.ts for what each role may do).
+export const WORKSPACE_ROLES = ["viewer", "editor", "owner"] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export interface IWorkspaceMember {
+  userId: ObjectId;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export interface IWorkspace extends Document {
+  name: string;
+  // Set on each user's personal workspace, which can't be left or shared
+  personalFor: ObjectId | null;
+  members: IWorkspaceMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceSchema = new Schema<IWorkspace>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    personalFor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    members: {
+      type: [
+        new Schema<IWorkspaceMember>(
+          {
+            userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+            role: { type: String, enum: WORKSPACE_ROLES, required: true },
+            joinedAt: { type: Date, default: Date.now },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user's workspaces
+WorkspaceSchema.index({ "members.userId": 1 });
+// One personal workspace per user
+WorkspaceSchema.index(
+  { personalFor: 1 },
+  { unique: true, partialFilterExpression: { personalFor: { $type: "objectId" } } }
+);
+
+export const Workspace = mongoose.models.Workspace || mongoose.model<IWorkspace>("Workspace", WorkspaceSchema);
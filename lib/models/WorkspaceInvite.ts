@@ -0,0 +1,68 @@
+import mongoose, { Schema, type Document } from "mongoose";
+import type { ObjectId } from "mongodb";
+import type { WorkspaceRole } from "./Workspace";
+
+// A one-time link that adds whoever opens it to a workspace. Only a hash of
+// the token is stored, so the link can't be rebuilt from the database.
+export interface IWorkspaceInvite extends Document {
+  workspaceId: ObjectId;
+  role: Exclude<WorkspaceRole, "owner">;
+  tokenHash: string;
+  createdBy: ObjectId;
+  expiresAt: Date;
+  // Set once someone has joined with it
+  usedAt: Date | null;
+  usedBy: ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceInviteSchema = new Schema<IWorkspaceInvite>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ["viewer", "editor"],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+    usedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A workspace's pending invites
+WorkspaceInviteSchema.index({ workspaceId: 1, createdAt: -1 });
+// MongoDB removes invites a day after they expire
+WorkspaceInviteSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const WorkspaceInvite =
+  mongoose.models.WorkspaceInvite ||
+  mongoose.model<IWorkspaceInvite>("WorkspaceInvite", WorkspaceInviteSchema);
@@ -1,4 +1,5 @@
 import mongoose from "mongoose"
+import type { Db, MongoClient } from "mongodb"
 
 const MONGODB_URI = process.env.MONGODB_URI
 
@@ -22,12 +23,23 @@ if (!cached) {
   cached = global.myMongoose = { conn: null, promise: null }
 }
 
-export async function connectToDatabase() {
+interface DatabaseConnection {
+  db: Db
+  client: MongoClient
+}
+
+// Mongoose bundles its own copy of the driver, so its Db is typed against that
+// copy; at runtime it is the same object the top-level "mongodb" APIs expect
+function toConnection(conn: typeof mongoose): DatabaseConnection {
+  return {
+    db: conn.connection.db as unknown as Db,
+    client: conn.connection.getClient() as unknown as MongoClient,
+  }
+}
+
+export async function connectToDatabase(): Promise<DatabaseConnection> {
   if (cached!.conn) {
-    return {
-      db: cached!.conn.connection.db,
-      client: cached!.conn.connection.getClient(),
-    }
+    return toConnection(cached!.conn)
   }
 
   if (!cached!.promise) {
@@ -44,10 +56,7 @@ export async function connectToDatabase() {
 
   try {
     cached!.conn = await cached!.promise
-    return {
-      db: cached!.conn.connection.db,
-      client: cached!.conn.connection.getClient(),
-    }
+    return toConnection(cached!.conn)
   } catch (e) {
     cached!.promise = null
     throw e
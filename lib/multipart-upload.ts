@@ -0,0 +1,156 @@
+import Busboy from "busboy"
+import { Readable } from "stream"
+import type { ReadableStream as WebReadableStream } from "stream/web"
+import type { GridFSBucket, GridFSBucketWriteStream, ObjectId } from "mongodb"
+import { formatMegabytes } from "@/lib/limits"
+import { RequestError } from "@/lib/request-error"
+
+export interface StreamedUpload {
+  fileId: ObjectId
+  filename: string
+  originalName: string
+  contentType: string
+  size: number
+  fields: Record<string, string>
+}
+
+interface StreamUploadOptions {
+  fileField: string
+  // Called with the file part's MIME type once it is known
+  filenameFor: (contentType: string) => string
+  maxSize: number
+  // Rejects the upload before any data is stored if this returns false
+  acceptType: (contentType: string) => boolean
+  metadata?: Record<string, unknown>
+}
+
+// Deletes whatever part of an upload already reached GridFS
+export async function discardUpload(bucket: GridFSBucket, uploadStream: GridFSBucketWriteStream) {
+  try {
+    if (uploadStream.writableFinished) {
+      await bucket.delete(uploadStream.id)
+    } else {
+      await uploadStream.abort()
+    }
+  } catch (error) {
+    console.error("Error discarding partial upload:", error)
+  }
+}
+
+// Streams a multipart/form-data request body straight into GridFS. The file part
+// is piped into the bucket as it is parsed, so memory use stays at a few chunks
+// regardless of file size, and the size limit is enforced while streaming.
+export function streamMultipartToGridFS(
+  request: Request,
+  bucket: GridFSBucket,
+  { fileField, filenameFor, maxSize, acceptType, metadata }: StreamUploadOptions,
+): Promise<StreamedUpload> {
+  const contentType = request.headers.get("content-type")
+  if (!contentType?.startsWith("multipart/form-data") || !request.body) {
+    return Promise.reject(new RequestError("Expected a multipart/form-data request"))
+  }
+
+  return new Promise((resolve, reject) => {
+    const body = Readable.fromWeb(request.body as WebReadableStream<Uint8Array>)
+    const busboy = Busboy({
+      headers: { "content-type": contentType },
+      limits: { files: 1, fileSize: maxSize },
+    })
+
+    const fields: Record<string, string> = {}
+    let uploadStream: GridFSBucketWriteStream | null = null
+    let fileDone: Promise<void> | null = null
+    let filename = ""
+    let originalName = ""
+    let fileType = ""
+    let size = 0
+    let settled = false
+
+    const fail = (error: unknown) => {
+      if (settled) return
+      settled = true
+      request.signal.removeEventListener("abort", onAbort)
+      body.unpipe(busboy)
+      body.destroy()
+      const cleanup = uploadStream ? discardUpload(bucket, uploadStream) : Promise.resolve()
+      cleanup.finally(() => reject(error))
+    }
+
+    const onAbort = () => fail(new RequestError("Upload aborted by client", 499))
+    request.signal.addEventListener("abort", onAbort, { once: true })
+
+    busboy.on("field", (name, value) => {
+      fields[name] = value
+    })
+
+    busboy.on("file", (name, file, info) => {
+      if (name !== fileField || settled) {
+        file.resume()
+        return
+      }
+
+      if (!acceptType(info.mimeType)) {
+        file.resume()
+        fail(new RequestError("Invalid file type. Only supported video formats are allowed."))
+        return
+      }
+
+      filename = filenameFor(info.mimeType)
+      originalName = info.filename
+      fileType = info.mimeType
+      uploadStream = bucket.openUploadStream(filename, {
+        metadata: {
+          originalName: info.filename,
+          contentType: info.mimeType,
+          uploadDate: new Date(),
+          ...metadata,
+        },
+      })
+
+      file.on("data", (chunk: Buffer) => {
+        size += chunk.length
+      })
+      file.on("limit", () => {
+        fail(new RequestError(`File too large. Maximum size is ${formatMegabytes(maxSize)}.`, 413))
+      })
+
+      const target = uploadStream
+      fileDone = new Promise<void>((resolveFile, rejectFile) => {
+        // pipe() pauses the parser whenever GridFS is still flushing chunks
+        file.pipe(target).on("error", rejectFile).on("finish", resolveFile)
+      })
+      fileDone.catch(fail)
+    })
+
+    busboy.on("error", (error) => fail(new RequestError(`Malformed upload: ${(error as Error).message}`)))
+    body.on("error", (error) => fail(error))
+
+    busboy.on("close", async () => {
+      if (settled) return
+      if (!uploadStream || !fileDone) {
+        fail(new RequestError("No file provided"))
+        return
+      }
+
+      try {
+        await fileDone
+      } catch {
+        return // already handled by fail()
+      }
+      if (settled) return
+
+      settled = true
+      request.signal.removeEventListener("abort", onAbort)
+      resolve({
+        fileId: uploadStream.id as ObjectId,
+        filename,
+        originalName,
+        contentType: fileType,
+        size,
+        fields,
+      })
+    })
+
+    body.pipe(busboy)
+  })
+}
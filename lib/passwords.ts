@@ -0,0 +1,28 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+
+// Password hashing with Node's built-in scrypt. Hashes are stored as
+// "scrypt$<salt>$<key>" (base64) so the scheme can change later.
+
+const KEY_LENGTH = 64
+const SALT_LENGTH = 16
+
+function deriveKey(password: string, salt: Buffer) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, expected] = stored.split("$")
+  if (scheme !== "scrypt" || !salt || !expected) return false
+
+  const key = await deriveKey(password, Buffer.from(salt, "base64"))
+  const expectedKey = Buffer.from(expected, "base64")
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey)
+}
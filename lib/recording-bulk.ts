@@ -0,0 +1,231 @@
+import mongoose, { type ClientSession } from "mongoose"
+import { z } from "zod"
+import { ObjectId } from "mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { listFilter, parseListQuery } from "@/lib/recording-query"
+import { MAX_TAGS_PER_RECORDING, resolveTags, tagNameSchema } from "@/lib/tags"
+import { folderIdSchema, requireFolder } from "@/lib/folders"
+import { createArchive } from "@/lib/archives"
+import type { WorkspaceAccess } from "@/lib/workspaces"
+import { RequestError } from "@/lib/request-error"
+
+// POST /api/recordings/bulk applies one action to many recordings, picked by ID
+// or by a list query. Every recording gets its own result, so one that is
+// missing or in the wrong state doesn't fail the rest. Recordings in other
+// workspaces count as missing.
+
+export const MAX_BULK_ITEMS = 500
+
+const selectionFields = {
+  ids: z
+    .array(z.string().refine((id) => ObjectId.isValid(id), "Invalid recording ID"))
+    .min(1, "No recordings selected")
+    .max(MAX_BULK_ITEMS, `At most ${MAX_BULK_ITEMS} recordings at a time`)
+    .optional(),
+  // A GET /api/recordings query string; every recording it matches is selected
+  filter: z.string().max(2000, "Filter is too long").optional(),
+}
+
+export const bulkRequestSchema = z
+  .discriminatedUnion("action", [
+    // Moves recordings to the trash
+    z.object({ action: z.literal("delete"), ...selectionFields }).strict(),
+    z.object({ action: z.literal("restore"), ...selectionFields }).strict(),
+    z
+      .object({
+        action: z.literal("tag"),
+        ...selectionFields,
+        // Names to add (created if they don't exist) and to remove
+        add: z.array(tagNameSchema).max(MAX_TAGS_PER_RECORDING).default([]),
+        remove: z.array(z.string().trim()).max(100).default([]),
+      })
+      .strict(),
+    z.object({ action: z.literal("move"), ...selectionFields, folderId: folderIdSchema }).strict(),
+    // Prepares a ZIP of the recordings; the response carries its downloadUrl
+    z.object({ action: z.literal("download"), ...selectionFields }).strict(),
+  ])
+  .superRefine((request, ctx) => {
+    if (Boolean(request.ids) === Boolean(request.filter)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Provide either ids or filter" })
+    }
+    if (request.action === "restore" && request.filter) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Restore takes a list of ids" })
+    }
+    if (request.action === "tag" && request.add.length === 0 && request.remove.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "No tags to add or remove" })
+    }
+  })
+
+export type BulkRequest = z.infer<typeof bulkRequestSchema>
+// What clients send, before defaults are filled in
+export type BulkRequestBody = z.input<typeof bulkRequestSchema>
+export type BulkAction = BulkRequest["action"]
+
+export interface BulkItemResult {
+  id: string
+  ok: boolean
+  error?: string
+  // The recording's tags or folder after a tag or move action
+  tags?: string[]
+  folderId?: string | null
+}
+
+export interface BulkResponse {
+  action: BulkAction
+  results: BulkItemResult[]
+  succeeded: number
+  failed: number
+  downloadUrl?: string
+}
+
+interface TargetRecording {
+  _id: ObjectId
+  tags?: string[]
+  deletedAt?: Date | null
+}
+
+// Transactions need a replica set. On a standalone server, like the one in
+// docker-compose.yml, the work runs without one; each write is still atomic
+// for the recording it touches.
+let transactionsSupported = true
+
+function isTransactionUnsupported(error: unknown) {
+  const { code, message } = (error ?? {}) as { code?: number; message?: string }
+  return code === 20 || /Transaction numbers are only allowed/.test(message ?? "")
+}
+
+async function inTransaction<T>(work: (session?: ClientSession) => Promise<T>): Promise<T> {
+  if (transactionsSupported) {
+    const session = await mongoose.startSession()
+    try {
+      let result: T | undefined
+      await session.withTransaction(async () => {
+        result = await work(session)
+      })
+      return result as T
+    } catch (error) {
+      if (!isTransactionUnsupported(error)) throw error
+      transactionsSupported = false
+    } finally {
+      await session.endSession()
+    }
+  }
+  return work()
+}
+
+async function selectIds(workspaceId: string, request: BulkRequest, session?: ClientSession) {
+  if (request.ids) return Array.from(new Set(request.ids))
+
+  const parsed = parseListQuery(new URLSearchParams(request.filter))
+  if ("error" in parsed) throw new RequestError(`Invalid filter: ${parsed.error}`)
+
+  const matches = await Recording.find(listFilter(workspaceId, parsed.query))
+    .select("_id")
+    .limit(MAX_BULK_ITEMS + 1)
+    .session(session ?? null)
+    .lean<{ _id: ObjectId }[]>()
+  if (matches.length > MAX_BULK_ITEMS) {
+    throw new RequestError(`The filter matches more than ${MAX_BULK_ITEMS} recordings`)
+  }
+  return matches.map((match) => String(match._id))
+}
+
+// Why the action can't apply to a recording, if it can't
+function problemWith(action: BulkAction, recording: TargetRecording | undefined) {
+  if (!recording) return "Recording not found"
+  if (action === "delete") return recording.deletedAt ? "Recording is already in the trash" : null
+  if (action === "restore") return recording.deletedAt ? null : "Recording is not in the trash"
+  return recording.deletedAt ? "Recording is in the trash" : null
+}
+
+// Tags after adding and removing, keeping the existing order. Names compare
+// case-insensitively, like tags themselves.
+function retag(tags: string[], add: string[], remove: string[]) {
+  const removed = new Set(remove.map((name) => name.toLowerCase()))
+  const kept = tags.filter((tag) => !removed.has(tag.toLowerCase()))
+  const present = new Set(kept.map((tag) => tag.toLowerCase()))
+  return [...kept, ...add.filter((name) => !present.has(name.toLowerCase()))]
+}
+
+export async function runBulkAction(access: WorkspaceAccess, request: BulkRequest): Promise<BulkResponse> {
+  const { workspaceId } = access
+  // Creating tags and checking the folder happen up front; neither needs undoing
+  // if the rest fails
+  const added = request.action === "tag" ? await resolveTags(workspaceId, request.add) : []
+  const folderId = request.action === "move" ? await requireFolder(workspaceId, request.folderId) : null
+
+  const results = await inTransaction(async (session) => {
+    const ids = await selectIds(workspaceId, request, session)
+    const recordings = await Recording.find({ _id: { $in: ids }, workspaceId })
+      .select("tags deletedAt")
+      .session(session ?? null)
+      .lean<TargetRecording[]>()
+    const byId = new Map(recordings.map((recording) => [String(recording._id), recording]))
+
+    const results: BulkItemResult[] = []
+    const eligible: string[] = []
+    const newTags = new Map<string, string[]>()
+    for (const id of ids) {
+      const recording = byId.get(id)
+      let error = problemWith(request.action, recording)
+
+      if (!error && request.action === "tag") {
+        const tags = retag(recording!.tags ?? [], added, request.remove)
+        if (tags.length > MAX_TAGS_PER_RECORDING) {
+          error = `A recording can have at most ${MAX_TAGS_PER_RECORDING} tags`
+        } else {
+          newTags.set(id, tags)
+        }
+      }
+
+      if (error) {
+        results.push({ id, ok: false, error })
+      } else {
+        eligible.push(id)
+        results.push({ id, ok: true })
+      }
+    }
+    if (eligible.length === 0) return results
+
+    const targets = { _id: { $in: eligible } }
+    switch (request.action) {
+      case "delete":
+        await Recording.updateMany(targets, { $set: { deletedAt: new Date() } }, { session })
+        break
+      case "restore":
+        await Recording.updateMany(targets, { $set: { deletedAt: null } }, { session })
+        break
+      case "move":
+        await Recording.updateMany(targets, { $set: { folderId } }, { session })
+        for (const result of results) {
+          if (result.ok) result.folderId = folderId ? String(folderId) : null
+        }
+        break
+      case "tag":
+        await Recording.bulkWrite(
+          eligible.map((id) => ({
+            updateOne: { filter: { _id: id }, update: { $set: { tags: newTags.get(id) } } },
+          })),
+          { session },
+        )
+        for (const result of results) {
+          if (result.ok) result.tags = newTags.get(result.id)
+        }
+        break
+    }
+    return results
+  })
+
+  const succeeded = results.filter((result) => result.ok)
+  const response: BulkResponse = {
+    action: request.action,
+    results,
+    succeeded: succeeded.length,
+    failed: results.length - succeeded.length,
+  }
+  if (request.action === "download" && succeeded.length > 0) {
+    const archive = await createArchive(access, succeeded.map((result) => result.id))
+    response.downloadUrl = `/api/archives/${archive._id}`
+  }
+  return response
+}
@@ -0,0 +1,77 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import {
+  DEFAULT_FILTERS,
+  hasActiveFilters,
+  listQuery,
+  readFilters,
+  searchQuery,
+  writeFilters,
+} from "@/lib/recording-filters"
+import { parseListQuery } from "@/lib/recording-query"
+
+test("readFilters falls back to defaults for malformed values", () => {
+  const filters = readFilters(
+    new URLSearchParams({
+      sort: "owner",
+      order: "sideways",
+      from: "May 1st",
+      to: "2024-06-01",
+      minSize: "-5",
+      maxSize: "lots",
+      minDuration: "30",
+      tags: ",,",
+    })
+  )
+  assert.deepEqual(filters, { ...DEFAULT_FILTERS, to: "2024-06-01", minDuration: 30 })
+})
+
+test("writeFilters and readFilters round-trip combined filters", () => {
+  const filters = {
+    q: "demo",
+    sort: "size" as const,
+    order: "asc" as const,
+    tags: ["work", "review"],
+    folder: "none",
+    from: "2024-05-01",
+    to: "2024-05-31",
+    minSize: 1000,
+    maxDuration: 60,
+  }
+  assert.deepEqual(readFilters(writeFilters(filters)), filters)
+  assert.equal(writeFilters(DEFAULT_FILTERS).toString(), "")
+  assert.equal(hasActiveFilters(DEFAULT_FILTERS), false)
+  assert.equal(hasActiveFilters({ ...DEFAULT_FILTERS, sort: "title" }), false)
+  assert.equal(hasActiveFilters({ ...DEFAULT_FILTERS, maxSize: 0 }), true)
+})
+
+test("listQuery sends the day range as local midnights with an exclusive end", () => {
+  const params = listQuery({ ...DEFAULT_FILTERS, from: "2024-05-01", to: "2024-05-31" }, "abc")
+  assert.equal(params.get("from"), new Date(2024, 4, 1).toISOString())
+  assert.equal(params.get("to"), new Date(2024, 5, 1).toISOString())
+  assert.equal(params.get("cursor"), "abc")
+})
+
+test("combined filters from the page pass the list API's validation", () => {
+  const params = listQuery({
+    q: "demo",
+    sort: "duration",
+    order: "asc",
+    tags: ["work"],
+    folder: "none",
+    from: "2024-05-01",
+    to: "2024-05-31",
+    minSize: 1,
+    maxSize: 2,
+    minDuration: 3,
+    maxDuration: 4,
+  })
+  const parsed = parseListQuery(params)
+  assert.ok("query" in parsed, "error" in parsed ? parsed.error : "")
+  assert.equal(parsed.query.sort, "duration")
+  assert.deepEqual(parsed.query.tags, ["work"])
+
+  const search = searchQuery({ ...DEFAULT_FILTERS, q: "demo", sort: "title" }, 20)
+  assert.equal(search.has("sort"), false)
+  assert.equal(search.get("limit"), "20")
+})
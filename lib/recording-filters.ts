@@ -0,0 +1,105 @@
+// Filters and sort order for the recordings list, as they appear in the page's
+// query string. Shared by RecordingsList and the list API's query parser.
+
+export const SORT_FIELDS = ["createdAt", "title", "size", "duration"] as const
+export type SortField = (typeof SORT_FIELDS)[number]
+export type SortOrder = "asc" | "desc"
+
+export interface RecordingFilters {
+  q: string
+  sort: SortField
+  order: SortOrder
+  // Tag names; recordings must have all of them
+  tags?: string[]
+  // Folder ID, or "none" for recordings outside any folder
+  folder?: string
+  // Calendar days (YYYY-MM-DD), both inclusive
+  from?: string
+  to?: string
+  // Bytes
+  minSize?: number
+  maxSize?: number
+  // Seconds
+  minDuration?: number
+  maxDuration?: number
+}
+
+export const DEFAULT_FILTERS: RecordingFilters = { q: "", sort: "createdAt", order: "desc" }
+
+const RANGE_KEYS = ["minSize", "maxSize", "minDuration", "maxDuration"] as const
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Lenient: anything malformed in a hand-edited URL falls back to the default
+export function readFilters(params: URLSearchParams): RecordingFilters {
+  const filters: RecordingFilters = { ...DEFAULT_FILTERS, q: params.get("q") ?? "" }
+
+  const sort = params.get("sort")
+  if (SORT_FIELDS.includes(sort as SortField)) filters.sort = sort as SortField
+  const order = params.get("order")
+  if (order === "asc" || order === "desc") filters.order = order
+
+  const tags = params.get("tags")?.split(",").filter(Boolean)
+  if (tags?.length) filters.tags = tags
+  const folder = params.get("folder")
+  if (folder) filters.folder = folder
+
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key)
+    if (value && DAY_PATTERN.test(value)) filters[key] = value
+  }
+  for (const key of RANGE_KEYS) {
+    const value = Number(params.get(key) ?? "")
+    if (params.get(key) && Number.isFinite(value) && value >= 0) filters[key] = value
+  }
+  return filters
+}
+
+// Only non-default values are written, so an unfiltered list has a clean URL
+export function writeFilters(filters: RecordingFilters) {
+  const params = new URLSearchParams()
+  if (filters.q.trim()) params.set("q", filters.q.trim())
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set("sort", filters.sort)
+  if (filters.order !== DEFAULT_FILTERS.order) params.set("order", filters.order)
+  if (filters.tags?.length) params.set("tags", filters.tags.join(","))
+  if (filters.folder) params.set("folder", filters.folder)
+  if (filters.from) params.set("from", filters.from)
+  if (filters.to) params.set("to", filters.to)
+  for (const key of RANGE_KEYS) {
+    if (filters[key] !== undefined) params.set(key, String(filters[key]))
+  }
+  return params
+}
+
+export function hasActiveFilters(filters: RecordingFilters) {
+  return Boolean(
+    filters.q.trim() ||
+      filters.tags?.length ||
+      filters.folder ||
+      filters.from ||
+      filters.to ||
+      RANGE_KEYS.some((key) => filters[key] !== undefined),
+  )
+}
+
+// Query for GET /api/recordings. Runs in the browser, so the day range is sent
+// as instants at local midnight; the API's `to` is exclusive.
+export function listQuery(filters: RecordingFilters, cursor?: string | null) {
+  const params = writeFilters(filters)
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set("to", end.toISOString())
+  }
+  if (cursor) params.set("cursor", cursor)
+  return params
+}
+
+// Query for GET /api/recordings/search, which ranks by relevance instead of sorting
+export function searchQuery(filters: RecordingFilters, limit = 50) {
+  const params = listQuery(filters)
+  params.delete("sort")
+  params.delete("order")
+  params.set("limit", String(limit))
+  return params
+}
@@ -0,0 +1,73 @@
+// Recording quality presets and codec selection for MediaRecorder.
+
+export interface QualitySettings {
+  width: number
+  height: number
+  frameRate: number
+  videoBitsPerSecond: number
+  audioBitsPerSecond: number
+}
+
+export type QualityPresetId = "low" | "standard" | "high" | "custom"
+
+export const QUALITY_PRESETS: Record<Exclude<QualityPresetId, "custom">, { label: string; settings: QualitySettings }> =
+  {
+    low: {
+      label: "Low bandwidth 720p15",
+      settings: { width: 1280, height: 720, frameRate: 15, videoBitsPerSecond: 1000000, audioBitsPerSecond: 96000 },
+    },
+    standard: {
+      label: "Standard 1080p30",
+      settings: { width: 1920, height: 1080, frameRate: 30, videoBitsPerSecond: 2500000, audioBitsPerSecond: 128000 },
+    },
+    high: {
+      label: "High 1440p60",
+      settings: { width: 2560, height: 1440, frameRate: 60, videoBitsPerSecond: 6000000, audioBitsPerSecond: 192000 },
+    },
+  }
+
+export type CodecPreference = "vp9" | "vp8" | "av1" | "h264"
+
+export const CODEC_LABELS: Record<CodecPreference, string> = {
+  vp9: "VP9 (WebM)",
+  vp8: "VP8 (WebM)",
+  av1: "AV1",
+  h264: "H.264 (MP4)",
+}
+
+// Container/codec strings to try for each preference, best first
+const CODEC_MIME_TYPES: Record<CodecPreference, string[]> = {
+  vp9: ["video/webm;codecs=vp9,opus"],
+  vp8: ["video/webm;codecs=vp8,opus"],
+  av1: ["video/webm;codecs=av01,opus", "video/mp4;codecs=av01,mp4a.40.2", "video/mp4;codecs=av01,opus"],
+  h264: [
+    "video/mp4;codecs=avc1.42E01E,mp4a.40.2",
+    "video/mp4;codecs=avc1,opus",
+    "video/webm;codecs=h264,opus",
+  ],
+}
+
+// Order used after the user's preference; matches the historical vp9 → vp8 → webm fallback
+const FALLBACK_ORDER: CodecPreference[] = ["vp9", "vp8", "av1", "h264"]
+const GENERIC_MIME_TYPES = ["video/webm", "video/mp4"]
+
+export function isCodecSupported(codec: CodecPreference) {
+  return typeof MediaRecorder !== "undefined" && CODEC_MIME_TYPES[codec].some((type) => MediaRecorder.isTypeSupported(type))
+}
+
+// Picks the first MIME type MediaRecorder supports, trying the preferred codec first
+export function selectMimeType(preference: CodecPreference) {
+  const order = [preference, ...FALLBACK_ORDER.filter((codec) => codec !== preference)]
+  const candidates = [...order.flatMap((codec) => CODEC_MIME_TYPES[codec]), ...GENERIC_MIME_TYPES]
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? ""
+}
+
+export function resolveQuality(preset: QualityPresetId, custom: QualitySettings) {
+  return preset === "custom" ? custom : QUALITY_PRESETS[preset].settings
+}
+
+// Bitrates are upper bounds, so this is a worst case; screen content with little
+// motion usually comes in well under it
+export function estimateMegabytesPerMinute(settings: QualitySettings) {
+  return ((settings.videoBitsPerSecond + settings.audioBitsPerSecond) * 60) / 8 / (1024 * 1024)
+}
@@ -0,0 +1,121 @@
+import type { GridFSBucket, ObjectId } from "mongodb"
+import { config } from "@/lib/config"
+import { gridFSByteSource } from "@/lib/byte-source"
+import { MediaProbeError, probeMedia } from "@/lib/media-probe"
+import { discardUpload } from "@/lib/multipart-upload"
+import { RequestError } from "@/lib/request-error"
+import { baseMimeType } from "@/lib/limits"
+import { remuxWebM } from "@/lib/webm-remux"
+
+// Work done on a recording's file once it is fully stored in GridFS, before the
+// Recording document is created
+
+export interface RecordingMedia {
+  duration: number
+  width?: number
+  height?: number
+  frameRate?: number
+  videoCodec?: string
+  audioCodec?: string
+  hasAudio?: boolean
+}
+
+export interface StoredFile {
+  fileId: ObjectId
+  size: number
+}
+
+async function write(stream: NodeJS.WritableStream, data: Uint8Array) {
+  if (!stream.write(data)) {
+    await new Promise((resolve) => stream.once("drain", resolve))
+  }
+}
+
+// Rewrites a MediaRecorder WebM file with a duration and a seek index (see
+// lib/webm-remux.ts) into a new GridFS file and deletes the original. Files that
+// are not WebM or are already seekable are returned unchanged, as is the
+// original if remuxing fails: an unseekable recording beats a lost one.
+export async function remuxStoredRecording(bucket: GridFSBucket, file: StoredFile): Promise<StoredFile> {
+  const original = await bucket.find({ _id: file.fileId }).next()
+  if (!original || baseMimeType(original.metadata?.contentType ?? "") !== "video/webm") {
+    return file
+  }
+
+  let parts
+  try {
+    parts = await remuxWebM(gridFSByteSource(bucket, file.fileId, file.size))
+  } catch (error) {
+    console.warn("Could not remux WebM recording, keeping the original:", error)
+    return file
+  }
+  if (!parts) return file
+
+  const uploadStream = bucket.openUploadStream(original.filename, { metadata: original.metadata })
+  let size = 0
+  try {
+    for (const part of parts) {
+      if (part instanceof Uint8Array) {
+        size += part.length
+        await write(uploadStream, part)
+        continue
+      }
+      for await (const chunk of bucket.openDownloadStream(file.fileId, { start: part.start, end: part.end })) {
+        size += chunk.length
+        await write(uploadStream, chunk)
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      uploadStream.once("error", reject)
+      uploadStream.end(() => resolve())
+    })
+  } catch (error) {
+    console.warn("Could not remux WebM recording, keeping the original:", error)
+    await discardUpload(bucket, uploadStream)
+    return file
+  }
+
+  await bucket.delete(file.fileId).catch((error) => console.error("Error deleting pre-remux file:", error))
+  return { fileId: uploadStream.id as ObjectId, size }
+}
+
+// MediaRecorder stops a little after the timer fires, so allow some slack
+const DURATION_TOLERANCE_SECONDS = 2
+
+// Reads the real duration and stream details from the stored file. Files that
+// cannot be probed are rejected, since their duration could not be checked.
+export async function inspectStoredRecording(
+  bucket: GridFSBucket,
+  fileId: ObjectId,
+  size: number,
+): Promise<RecordingMedia> {
+  const { maxDurationSeconds } = config.limits
+
+  let info
+  try {
+    info = await probeMedia(gridFSByteSource(bucket, fileId, size))
+  } catch (error) {
+    if (error instanceof MediaProbeError) {
+      console.warn("Could not probe uploaded recording:", error.message)
+      throw new RequestError("Could not read the video file. It may be corrupt or incomplete.", 422)
+    }
+    throw error
+  }
+
+  if (!info) {
+    throw new RequestError("Unsupported video format. Only WebM, MP4 and MOV files can be stored.", 422)
+  }
+
+  if (info.duration > maxDurationSeconds + DURATION_TOLERANCE_SECONDS) {
+    throw new RequestError(`Recording too long. Maximum duration is ${maxDurationSeconds} seconds.`, 400)
+  }
+
+  return {
+    duration: Math.min(Math.round(info.duration * 1000) / 1000, maxDurationSeconds),
+    width: info.width,
+    height: info.height,
+    frameRate: info.frameRate,
+    videoCodec: info.videoCodec,
+    audioCodec: info.audioCodec,
+    hasAudio: info.hasAudio,
+  }
+}
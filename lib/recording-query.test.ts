@@ -0,0 +1,187 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { ObjectId } from "mongodb"
+import {
+  encodeCursor,
+  listFilter,
+  listSort,
+  pageFilter,
+  parseListQuery,
+  type ListQuery,
+  type ListedRecording,
+} from "@/lib/recording-query"
+
+const workspaceId = new ObjectId().toHexString()
+
+function parse(params: Record<string, string>) {
+  const parsed = parseListQuery(new URLSearchParams(params))
+  if ("error" in parsed) throw new Error(parsed.error)
+  return parsed.query
+}
+
+function cursor(value: unknown, id: unknown) {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url")
+}
+
+function comparable(value: unknown) {
+  if (value instanceof ObjectId) return value.toHexString()
+  if (value instanceof Date) return value.getTime()
+  return value as number | string
+}
+
+// Just enough of MongoDB's matching for the filters pageFilter builds
+function matches(document: Record<string, unknown>, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") return (condition as Record<string, unknown>[]).every((part) => matches(document, part))
+    if (key === "$or") return (condition as Record<string, unknown>[]).some((part) => matches(document, part))
+    const value = comparable(document[key])
+    const operators = condition && typeof condition === "object" && !(condition instanceof Date)
+    if (operators && !(condition instanceof ObjectId)) {
+      const { $gt, $lt } = condition as { $gt?: unknown; $lt?: unknown }
+      if ($gt !== undefined) return value > comparable($gt)
+      if ($lt !== undefined) return value < comparable($lt)
+      throw new Error(`Unsupported condition on ${key}`)
+    }
+    return value === comparable(condition)
+  })
+}
+
+function sorted(documents: ListedRecording[], sort: Record<string, 1 | -1>) {
+  return [...documents].sort((a, b) => {
+    for (const [field, direction] of Object.entries(sort)) {
+      const x = comparable(a[field as keyof ListedRecording])
+      const y = comparable(b[field as keyof ListedRecording])
+      if (x !== y) return (x < y ? -1 : 1) * direction
+    }
+    return 0
+  })
+}
+
+// Pages through the documents the way listRecordings does, feeding each
+// page's cursor back through the query parser
+function pages(documents: ListedRecording[], params: Record<string, string>) {
+  const result: string[][] = []
+  let query: ListQuery = parse(params)
+  for (;;) {
+    const candidates = documents.filter((document) => matches(document as never, pageFilter({}, query)))
+    const page = sorted(candidates, listSort(query)).slice(0, query.limit + 1)
+    const hasMore = page.length > query.limit
+    const shown = page.slice(0, query.limit)
+    result.push(shown.map((document) => String(document._id)))
+    if (!hasMore) return result
+    query = parse({ ...params, cursor: encodeCursor(shown[shown.length - 1], query.sort) })
+  }
+}
+
+function recording(size: number, createdAt: string): ListedRecording {
+  return {
+    _id: new ObjectId(),
+    title: `Recording ${size}`,
+    filename: `${size}.webm`,
+    size,
+    duration: 10,
+    createdAt: new Date(createdAt),
+  }
+}
+
+test("parseListQuery rejects garbage and tampered cursors", () => {
+  const id = new ObjectId().toHexString()
+  const createdAt = cursor("2024-05-01T00:00:00.000Z", id)
+  const rejected: Record<string, string>[] = [
+    { cursor: "!!not a cursor!!" },
+    { cursor: Buffer.from("not json").toString("base64url") },
+    { cursor: Buffer.from("null").toString("base64url") },
+    { cursor: Buffer.from('{"value":1}').toString("base64url") },
+    { cursor: cursor("2024-05-01T00:00:00.000Z", "not-an-id") },
+    { cursor: cursor("not a date", id) },
+    { cursor: cursor(1, 42) },
+    // A valid createdAt cursor reused with another sort
+    { cursor: createdAt, sort: "size" },
+    { cursor: cursor(1024, id), sort: "title" },
+    { cursor: cursor("big", id), sort: "size" },
+  ]
+  for (const params of rejected) {
+    assert.deepEqual(parseListQuery(new URLSearchParams(params)), { error: "Invalid cursor" }, params.cursor)
+  }
+
+  assert.equal(parse({ cursor: createdAt }).cursor, createdAt)
+  assert.equal(parse({ cursor: cursor(1024, id), sort: "size" }).cursor, cursor(1024, id))
+})
+
+test("pageFilter ignores a cursor it cannot read instead of throwing", () => {
+  const query = { ...parse({}), cursor: "%%%" }
+  assert.deepEqual(pageFilter({ size: 1 }, query), { size: 1 })
+})
+
+test("pages are stable when recordings share a sort value", () => {
+  const documents = [
+    recording(100, "2024-05-01T10:00:00Z"),
+    recording(200, "2024-05-01T10:00:00Z"),
+    recording(100, "2024-05-01T10:00:00Z"),
+    recording(300, "2024-05-02T10:00:00Z"),
+    recording(100, "2024-05-01T10:00:00Z"),
+    recording(200, "2024-04-30T10:00:00Z"),
+    recording(100, "2024-05-01T10:00:00Z"),
+  ]
+
+  for (const params of [
+    { sort: "size", order: "asc", limit: "2" },
+    { sort: "size", order: "desc", limit: "3" },
+    { sort: "createdAt", order: "desc", limit: "2" },
+    { sort: "createdAt", order: "asc", limit: "1" },
+  ]) {
+    const all = sorted(documents, listSort(parse(params))).map((document) => String(document._id))
+    const paged = pages(documents, params)
+    assert.deepEqual(paged.flat(), all, JSON.stringify(params))
+    assert.ok(paged.length > 1)
+  }
+})
+
+test("listSort breaks ties on _id in the same direction", () => {
+  assert.deepEqual(listSort(parse({})), { createdAt: -1, _id: -1 })
+  assert.deepEqual(listSort(parse({ sort: "title", order: "asc" })), { title: 1, _id: 1 })
+})
+
+test("listFilter combines every filter with the workspace and trash conditions", () => {
+  const folder = new ObjectId().toHexString()
+  const filter = listFilter(
+    workspaceId,
+    parse({
+      q: " demo (1) ",
+      tags: "work, review,,",
+      folder,
+      from: "2024-05-01T00:00:00.000Z",
+      to: "2024-06-01T00:00:00.000Z",
+      minSize: "1000",
+      maxSize: "5000",
+      maxDuration: "60",
+    })
+  )
+
+  const pattern = /demo \(1\)/i
+  assert.deepEqual(filter, {
+    workspaceId: new ObjectId(workspaceId),
+    deletedAt: null,
+    tags: { $all: ["work", "review"] },
+    folderId: new ObjectId(folder),
+    createdAt: { $gte: new Date("2024-05-01T00:00:00.000Z"), $lt: new Date("2024-06-01T00:00:00.000Z") },
+    size: { $gte: 1000, $lte: 5000 },
+    duration: { $lte: 60 },
+    $or: [{ title: pattern }, { filename: pattern }, { description: pattern }],
+  })
+})
+
+test("listFilter without filters only scopes to the workspace", () => {
+  assert.deepEqual(listFilter(workspaceId, parse({ q: "", tags: "" })), {
+    workspaceId: new ObjectId(workspaceId),
+    deletedAt: null,
+  })
+  assert.deepEqual(listFilter(workspaceId, parse({ folder: "none" })).folderId, null)
+})
+
+test("parseListQuery rejects unknown and invalid parameters", () => {
+  assert.deepEqual(parseListQuery(new URLSearchParams({ owner: "x" })), { error: "Unknown parameter: owner" })
+  assert.match((parseListQuery(new URLSearchParams({ folder: "x" })) as { error: string }).error, /Invalid folder/)
+  assert.match((parseListQuery(new URLSearchParams({ sort: "owner" })) as { error: string }).error, /^Invalid sort/)
+  assert.match((parseListQuery(new URLSearchParams({ limit: "500" })) as { error: string }).error, /^Invalid limit/)
+})
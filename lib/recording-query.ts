@@ -0,0 +1,223 @@
+import { z } from "zod"
+import { ObjectId } from "mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { SORT_FIELDS, type SortField } from "@/lib/recording-filters"
+
+// Cursor-paginated listing for GET /api/recordings. Results are ordered by the
+// sort field with _id as a tie-breaker, and the cursor holds both values of the
+// last item returned, so pages stay stable while recordings are added.
+
+export const DEFAULT_PAGE_SIZE = 24
+const MAX_PAGE_SIZE = 100
+
+// Titles sort case-insensitively, like the list did when it sorted in memory
+export const TITLE_COLLATION = { locale: "en", strength: 2 }
+
+export const LIST_FIELDS = "title description tags folderId filename size duration createdAt"
+
+// Filters and page size shared with the search endpoint
+export const sharedFilterFields = {
+  // Comma-separated; recordings must have all of them
+  tags: z
+    .string()
+    .transform((value) => value.split(",").map((tag) => tag.trim()).filter(Boolean))
+    .optional(),
+  // A folder ID, or "none" for recordings outside any folder
+  folder: z
+    .string()
+    .refine((value) => value === "none" || ObjectId.isValid(value), "Invalid folder")
+    .optional(),
+  from: z.coerce.date({ message: "Invalid from date" }).optional(),
+  // Exclusive
+  to: z.coerce.date({ message: "Invalid to date" }).optional(),
+  minSize: z.coerce.number().int().min(0).optional(),
+  maxSize: z.coerce.number().int().min(0).optional(),
+  minDuration: z.coerce.number().min(0).optional(),
+  maxDuration: z.coerce.number().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+}
+
+const listQuerySchema = z
+  .object({
+    q: z.string().trim().max(200, "Search query is too long").optional(),
+    sort: z.enum(SORT_FIELDS).default("createdAt"),
+    order: z.enum(["asc", "desc"]).default("desc"),
+    cursor: z.string().optional(),
+    ...sharedFilterFields,
+  })
+  .strict()
+
+export type ListQuery = z.infer<typeof listQuerySchema>
+type SharedFilters = Pick<
+  ListQuery,
+  "tags" | "folder" | "from" | "to" | "minSize" | "maxSize" | "minDuration" | "maxDuration"
+>
+
+interface Cursor {
+  value: Date | number | string
+  id: ObjectId
+}
+
+export interface ListedRecording {
+  _id: unknown
+  title: string
+  description?: string
+  tags?: string[]
+  folderId?: unknown
+  filename: string
+  size: number
+  duration: number
+  createdAt: Date
+}
+
+export function encodeCursor(recording: ListedRecording, sort: SortField) {
+  const value = sort === "createdAt" ? recording.createdAt.toISOString() : recording[sort]
+  return Buffer.from(JSON.stringify([value, String(recording._id)])).toString("base64url")
+}
+
+function decodeCursor(cursor: string, sort: SortField): Cursor | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if (typeof id !== "string" || !ObjectId.isValid(id)) return null
+
+    if (sort === "createdAt") {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? null : { value: date, id: new ObjectId(id) }
+    }
+    if (sort === "title") {
+      return typeof value === "string" ? { value, id: new ObjectId(id) } : null
+    }
+    return typeof value === "number" ? { value, id: new ObjectId(id) } : null
+  } catch {
+    return null
+  }
+}
+
+export function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function range(min?: number | Date, max?: number | Date, maxExclusive = false) {
+  if (min === undefined && max === undefined) return undefined
+  return {
+    ...(min !== undefined && { $gte: min }),
+    ...(max !== undefined && { [maxExclusive ? "$lt" : "$lte"]: max }),
+  }
+}
+
+// Filters start with the current workspace: nobody sees recordings from
+// workspaces they aren't in
+export function sharedFilter(workspaceId: string, query: SharedFilters) {
+  // Trashed recordings only show up in the trash (lib/trash.ts). Matching null
+  // also matches recordings saved before the field existed.
+  const filter: Record<string, unknown> = { workspaceId: new ObjectId(workspaceId), deletedAt: null }
+  if (query.tags?.length) filter.tags = { $all: query.tags }
+  if (query.folder) filter.folderId = query.folder === "none" ? null : new ObjectId(query.folder)
+
+  const ranges = {
+    createdAt: range(query.from, query.to, true),
+    size: range(query.minSize, query.maxSize),
+    duration: range(query.minDuration, query.maxDuration),
+  }
+  for (const [field, condition] of Object.entries(ranges)) {
+    if (condition) filter[field] = condition
+  }
+  return filter
+}
+
+// Everything a list query matches, across all pages
+export function listFilter(workspaceId: string, query: ListQuery) {
+  const filter = sharedFilter(workspaceId, query)
+  if (query.q) {
+    const pattern = new RegExp(escapeRegExp(query.q), "i")
+    filter.$or = [{ title: pattern }, { filename: pattern }, { description: pattern }]
+  }
+  return filter
+}
+
+// First validation problem, phrased for an API error response
+export function describeQueryError(error: z.ZodError) {
+  const issue = error.issues[0]
+  if (!issue) return "Invalid query"
+  if (issue.code === "unrecognized_keys") return `Unknown parameter: ${issue.keys.join(", ")}`
+  const field = issue.path.join(".")
+  return field ? `Invalid ${field}: ${issue.message}` : issue.message
+}
+
+// Query parameters as an object, without empty ones
+export function queryParams(params: URLSearchParams) {
+  return Object.fromEntries(Array.from(params.entries()).filter(([, value]) => value !== ""))
+}
+
+// Validates the list endpoint's query string. Empty parameters are ignored.
+export function parseListQuery(params: URLSearchParams): { query: ListQuery } | { error: string } {
+  const parsed = listQuerySchema.safeParse(queryParams(params))
+  if (!parsed.success) {
+    return { error: describeQueryError(parsed.error) }
+  }
+  if (parsed.data.cursor && !decodeCursor(parsed.data.cursor, parsed.data.sort)) {
+    return { error: "Invalid cursor" }
+  }
+  return { query: parsed.data }
+}
+
+export function serializeRecording(recording: ListedRecording) {
+  const id = String(recording._id)
+  return {
+    ...recording,
+    _id: id,
+    url: `/api/recordings/${id}`,
+    thumbnailUrl: `/api/recordings/${id}/thumbnail`,
+    storyboardUrl: `/api/recordings/${id}/storyboard`,
+  }
+}
+
+// Sort order for a list query. _id breaks ties, so recordings with the same
+// sort value always come back in the same order.
+export function listSort(query: ListQuery) {
+  const direction = query.order === "asc" ? 1 : -1
+  return { [query.sort]: direction, _id: direction } as Record<string, 1 | -1>
+}
+
+// Narrows a list filter to what comes after the query's cursor, in listSort order
+export function pageFilter(filter: Record<string, unknown>, query: ListQuery) {
+  const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : null
+  if (!cursor) return filter
+  const beyond = query.order === "asc" ? "$gt" : "$lt"
+  return {
+    $and: [
+      filter,
+      {
+        $or: [
+          { [query.sort]: { [beyond]: cursor.value } },
+          { [query.sort]: cursor.value, _id: { [beyond]: cursor.id } },
+        ],
+      },
+    ],
+  }
+}
+
+// One page of recordings. The total is only counted for the first page; later
+// pages return null and clients keep the first page's value.
+export async function listRecordings(workspaceId: string, query: ListQuery) {
+  const filter = listFilter(workspaceId, query)
+
+  let find = Recording.find(pageFilter(filter, query))
+    .sort(listSort(query))
+    .limit(query.limit + 1)
+    .select(LIST_FIELDS)
+  if (query.sort === "title") find = find.collation(TITLE_COLLATION)
+
+  const [documents, total] = await Promise.all([
+    find.lean<ListedRecording[]>(),
+    query.cursor ? Promise.resolve(null) : Recording.countDocuments(filter),
+  ])
+
+  const hasMore = documents.length > query.limit
+  const page = hasMore ? documents.slice(0, query.limit) : documents
+  return {
+    recordings: page.map(serializeRecording),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1], query.sort) : null,
+    total,
+  }
+}
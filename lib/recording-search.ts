@@ -0,0 +1,149 @@
+import { z } from "zod"
+import { Recording } from "@/lib/models/Recording"
+import {
+  LIST_FIELDS,
+  describeQueryError,
+  escapeRegExp,
+  queryParams,
+  sharedFilter,
+  sharedFilterFields,
+  serializeRecording,
+  type ListedRecording,
+} from "@/lib/recording-query"
+
+// Ranked full-text search over the "recording_text" index (title, tags,
+// description, transcript), with snippets showing where each result matched.
+// Text search only matches whole (stemmed) words, so when it finds nothing the
+// query is retried as a substring match, which keeps search-as-you-type useful
+// while the last word is still half typed.
+
+const SNIPPET_RADIUS = 60
+const SEARCHED_FIELDS = ["title", "tags", "description", "transcript"] as const
+
+const searchQuerySchema = z
+  .object({
+    q: z.string().trim().min(1, "Search query is required").max(200, "Search query is too long"),
+    ...sharedFilterFields,
+  })
+  .strict()
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>
+
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+export interface SearchSnippet {
+  field: (typeof SEARCHED_FIELDS)[number]
+  segments: SnippetSegment[]
+}
+
+interface SearchedRecording extends ListedRecording {
+  transcript?: string
+  score?: number
+}
+
+export function parseSearchQuery(params: URLSearchParams): { query: SearchQuery } | { error: string } {
+  const parsed = searchQuerySchema.safeParse(queryParams(params))
+  return parsed.success ? { query: parsed.data } : { error: describeQueryError(parsed.error) }
+}
+
+// Words of the query, minus quotes and negations, which only mean something to $text
+function queryTerms(q: string) {
+  return q
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-"))
+    .map((term) => term.toLowerCase())
+}
+
+// $text matches stemmed words ("recording" finds "recorded"), so highlight
+// any word that starts with the term minus a common English suffix
+function termPattern(terms: string[]) {
+  const stems = terms.map((term) => escapeRegExp(term.length > 4 ? term.replace(/(ing|ed|es|s)$/, "") : term))
+  return stems.length > 0 ? new RegExp(`(${stems.join("|")})[\\p{L}\\p{N}]*`, "giu") : null
+}
+
+// Cuts a window of text around the first match, splitting it into highlighted
+// and plain segments
+function snippet(text: string, pattern: RegExp): SnippetSegment[] | null {
+  pattern.lastIndex = 0
+  const first = pattern.exec(text)
+  if (!first) return null
+
+  let start = Math.max(0, first.index - SNIPPET_RADIUS)
+  let end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS)
+  // Don't cut words in half
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end)
+    if (space > first.index + first[0].length) end = space
+  }
+  const window = text.slice(start, end).replace(/\s+/g, " ")
+
+  const segments: SnippetSegment[] = []
+  if (start > 0) segments.push({ text: "…", match: false })
+  let position = 0
+  // matchAll copies lastIndex, which exec() above moved past the first match
+  pattern.lastIndex = 0
+  for (const match of window.matchAll(pattern)) {
+    const index = match.index ?? 0
+    if (index > position) segments.push({ text: window.slice(position, index), match: false })
+    segments.push({ text: match[0], match: true })
+    position = index + match[0].length
+  }
+  if (position < window.length) segments.push({ text: window.slice(position), match: false })
+  if (end < text.length) segments.push({ text: "…", match: false })
+  return segments
+}
+
+function buildSnippets(recording: SearchedRecording, terms: string[]) {
+  const pattern = termPattern(terms)
+  if (!pattern) return []
+
+  const snippets: SearchSnippet[] = []
+  for (const field of SEARCHED_FIELDS) {
+    const value = recording[field]
+    const text = Array.isArray(value) ? value.join(", ") : value
+    const segments = text ? snippet(text, pattern) : null
+    if (segments) snippets.push({ field, segments })
+  }
+  return snippets
+}
+
+export async function searchRecordings(workspaceId: string, query: SearchQuery) {
+  const filter = sharedFilter(workspaceId, query)
+  const fields = `${LIST_FIELDS} transcript`
+
+  let results = await Recording.find({ ...filter, $text: { $search: query.q } })
+    .select({ score: { $meta: "textScore" } })
+    .select(fields)
+    .sort({ score: { $meta: "textScore" }, createdAt: -1 })
+    .limit(query.limit)
+    .lean<SearchedRecording[]>()
+  let mode: "text" | "substring" = "text"
+
+  if (results.length === 0) {
+    const pattern = new RegExp(escapeRegExp(query.q), "i")
+    results = await Recording.find({
+      ...filter,
+      $or: [{ title: pattern }, { filename: pattern }, { tags: pattern }, { description: pattern }],
+    })
+      .select(fields)
+      .sort({ createdAt: -1 })
+      .limit(query.limit)
+      .lean<SearchedRecording[]>()
+    mode = "substring"
+  }
+
+  const terms = mode === "text" ? queryTerms(query.q) : [query.q.toLowerCase()]
+  return {
+    mode,
+    results: results.map(({ transcript, score, ...recording }) => ({
+      ...serializeRecording(recording),
+      score: score ?? 0,
+      snippets: buildSnippets({ ...recording, transcript }, terms),
+    })),
+  }
+}
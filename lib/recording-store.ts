@@ -0,0 +1,194 @@
+// IndexedDB persistence for in-progress recordings.
+//
+// Every MediaRecorder timeslice is written to IndexedDB as it arrives, so a tab
+// crash or reload mid-take loses at most the last second. A recording stays in
+// the store until it is uploaded or discarded. While a tab owns a recording it
+// holds a Web Lock named after it; recordings nobody holds a lock on are orphans
+// left behind by a closed or crashed tab.
+
+export interface StoredRecording {
+  id: string
+  mimeType: string
+  startedAt: number
+  updatedAt: number
+  duration: number
+  size: number
+  chunkCount: number
+}
+
+interface StoredChunk {
+  recordingId: string
+  seq: number
+  data: Blob
+}
+
+const DB_NAME = "screen-recorder"
+const DB_VERSION = 1
+const RECORDINGS_STORE = "recordings"
+const CHUNKS_STORE = "chunks"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: "id" })
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ["recordingId", "seq"] })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function chunkRange(id: string) {
+  return IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER])
+}
+
+const lockName = (id: string) => `recording:${id}`
+
+export function isRecordingStoreSupported() {
+  return typeof indexedDB !== "undefined"
+}
+
+export async function createStoredRecording(mimeType: string) {
+  const db = await openDatabase()
+  const now = Date.now()
+  const recording: StoredRecording = {
+    id: crypto.randomUUID(),
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    duration: 0,
+    size: 0,
+    chunkCount: 0,
+  }
+
+  const transaction = db.transaction(RECORDINGS_STORE, "readwrite")
+  transaction.objectStore(RECORDINGS_STORE).add(recording)
+  await transactionDone(transaction)
+
+  return recording.id
+}
+
+// Stores one timeslice and bumps the recording's totals in the same transaction
+export async function appendStoredChunk(id: string, seq: number, data: Blob, duration: number) {
+  const db = await openDatabase()
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], "readwrite")
+  const recordings = transaction.objectStore(RECORDINGS_STORE)
+
+  transaction.objectStore(CHUNKS_STORE).put({ recordingId: id, seq, data } satisfies StoredChunk)
+
+  const recording = await requestResult<StoredRecording | undefined>(recordings.get(id))
+  if (recording) {
+    recordings.put({
+      ...recording,
+      updatedAt: Date.now(),
+      duration,
+      size: recording.size + data.size,
+      chunkCount: recording.chunkCount + 1,
+    })
+  }
+
+  await transactionDone(transaction)
+}
+
+export async function updateStoredDuration(id: string, duration: number) {
+  const db = await openDatabase()
+  const transaction = db.transaction(RECORDINGS_STORE, "readwrite")
+  const recordings = transaction.objectStore(RECORDINGS_STORE)
+
+  const recording = await requestResult<StoredRecording | undefined>(recordings.get(id))
+  if (recording) {
+    recordings.put({ ...recording, duration, updatedAt: Date.now() })
+  }
+
+  await transactionDone(transaction)
+}
+
+export async function loadStoredRecording(id: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], "readonly")
+
+  const recording = await requestResult<StoredRecording | undefined>(
+    transaction.objectStore(RECORDINGS_STORE).get(id),
+  )
+  // Keys sort by [recordingId, seq], so chunks come back in recording order
+  const chunks = await requestResult<StoredChunk[]>(transaction.objectStore(CHUNKS_STORE).getAll(chunkRange(id)))
+
+  if (!recording) {
+    throw new Error("Stored recording not found")
+  }
+
+  return new Blob(
+    chunks.map((chunk) => chunk.data),
+    { type: recording.mimeType },
+  )
+}
+
+export async function deleteStoredRecording(id: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], "readwrite")
+  transaction.objectStore(RECORDINGS_STORE).delete(id)
+  transaction.objectStore(CHUNKS_STORE).delete(chunkRange(id))
+  await transactionDone(transaction)
+}
+
+// Marks the recording as owned by this tab until the returned release function
+// is called (or the tab goes away)
+export function holdRecordingLock(id: string) {
+  let released = false
+  let release: (() => void) | null = null
+  if (navigator.locks) {
+    navigator.locks.request(lockName(id), () =>
+      released
+        ? undefined
+        : new Promise<void>((resolve) => {
+            release = resolve
+          }),
+    )
+  }
+  return () => {
+    released = true
+    release?.()
+  }
+}
+
+// Recordings with data that no open tab owns
+export async function listOrphanedRecordings() {
+  const db = await openDatabase()
+  const transaction = db.transaction(RECORDINGS_STORE, "readonly")
+  const recordings = await requestResult<StoredRecording[]>(transaction.objectStore(RECORDINGS_STORE).getAll())
+
+  const held = new Set<string>()
+  if (navigator.locks) {
+    const snapshot = await navigator.locks.query()
+    snapshot.held?.forEach((lock) => lock.name && held.add(lock.name))
+  }
+
+  return recordings
+    .filter((recording) => recording.chunkCount > 0 && !held.has(lockName(recording.id)))
+    .sort((a, b) => b.startedAt - a.startedAt)
+}
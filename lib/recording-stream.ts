@@ -0,0 +1,64 @@
+import { GridFSBucket, type Db, type ObjectId } from "mongodb"
+
+interface StreamedRecording {
+  fileId: ObjectId
+  filename: string
+  contentType?: string
+}
+
+// Streams a recording's file out of GridFS, honouring a Range header so the
+// player can seek. Returns null when the file is missing. Shared by the owner's
+// stream and public share links.
+export async function streamRecording(db: Db, recording: StreamedRecording, range: string | null) {
+  const bucket = new GridFSBucket(db, { bucketName: "recordings" })
+
+  // Check if file exists in GridFS
+  const files = await bucket.find({ _id: recording.fileId }).toArray()
+  if (files.length === 0) return null
+
+  const file = files[0]
+  // Recordings are private, so only the browser may cache them
+  const cacheControl = "private, max-age=3600"
+
+  if (range) {
+    const parts = range.replace(/bytes=/, "").split("-")
+    const start = Number.parseInt(parts[0], 10)
+    const end = parts[1] ? Number.parseInt(parts[1], 10) : file.length - 1
+    const chunksize = end - start + 1
+
+    // Create download stream with range
+    const downloadStream = bucket.openDownloadStream(recording.fileId, {
+      start,
+      end: end + 1,
+    })
+
+    const headers = new Headers({
+      "Content-Range": `bytes ${start}-${end}/${file.length}`,
+      "Accept-Ranges": "bytes",
+      "Content-Length": chunksize.toString(),
+      "Content-Type": recording.contentType || "video/webm",
+      "Cache-Control": cacheControl,
+    })
+
+    return new Response(downloadStream as any, {
+      status: 206,
+      headers,
+    })
+  }
+
+  // Full file download
+  const downloadStream = bucket.openDownloadStream(recording.fileId)
+
+  const headers = new Headers({
+    "Content-Length": file.length.toString(),
+    "Content-Type": recording.contentType || "video/webm",
+    "Content-Disposition": `inline; filename="${recording.filename}"`,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": cacheControl,
+  })
+
+  return new Response(downloadStream as any, {
+    status: 200,
+    headers,
+  })
+}
@@ -0,0 +1,32 @@
+import { z } from "zod"
+import { MAX_TAGS_PER_RECORDING, tagNameSchema } from "@/lib/tags"
+import { folderIdSchema } from "@/lib/folders"
+
+// Fields a client may change on an existing recording. Everything else is
+// derived from the stored file and only ever set by the server.
+export const recordingUpdateSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title cannot be empty").max(200, "Title must be at most 200 characters"),
+    description: z.string().trim().max(2000, "Description must be at most 2000 characters"),
+    transcript: z.string().trim().max(200000, "Transcript must be at most 200000 characters"),
+    // Replaces the recording's tags
+    tags: z.array(tagNameSchema).max(MAX_TAGS_PER_RECORDING, `At most ${MAX_TAGS_PER_RECORDING} tags per recording`),
+    folderId: folderIdSchema,
+  })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, "No editable fields provided")
+
+export type RecordingUpdate = z.infer<typeof recordingUpdateSchema>
+
+// The title sent along with a new upload. An empty one falls back to a
+// generated title.
+export const uploadTitleSchema = z.string().trim().max(200, "Title must be at most 200 characters").optional()
+
+// First validation problem, phrased for an API error response
+export function describeUpdateError(error: z.ZodError) {
+  const issue = error.issues[0]
+  if (!issue) return "Invalid update"
+  if (issue.code === "unrecognized_keys") return `Field cannot be edited: ${issue.keys.join(", ")}`
+  return issue.message
+}
@@ -0,0 +1,19 @@
+import { Readable } from "stream"
+import type { ReadableStream as WebReadableStream } from "stream/web"
+import { RequestError } from "@/lib/request-error"
+
+// Reads a small request body into memory, counting bytes as they arrive so an
+// oversized body is refused without being read in full, whatever its
+// Content-Length says (or whether it has one)
+export async function readBody(body: ReadableStream<Uint8Array>, maxSize: number, tooLarge: string) {
+  const parts: Buffer[] = []
+  let length = 0
+  for await (const part of Readable.fromWeb(body as WebReadableStream<Uint8Array>)) {
+    length += (part as Uint8Array).length
+    if (length > maxSize) {
+      throw new RequestError(tooLarge, 413)
+    }
+    parts.push(Buffer.from(part as Uint8Array))
+  }
+  return Buffer.concat(parts)
+}
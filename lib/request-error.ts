@@ -0,0 +1,16 @@
+// Error with an HTTP status, for problems a route reports back to the client
+// as { error }
+export class RequestError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "RequestError"
+    this.status = status
+  }
+}
+
+// MongoDB's code for a unique index violation
+export function isDuplicateKeyError(error: unknown) {
+  return (error as { code?: number } | null)?.code === 11000
+}
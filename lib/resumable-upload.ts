@@ -0,0 +1,258 @@
+// Browser client for the resumable upload API in app/api/uploads.
+//
+// The upload is sent as a series of PATCH requests; after a network error the
+// client asks the server for its offset (HEAD) and carries on from there. The
+// session id is kept in localStorage under a fingerprint of the file, so picking
+// the same file again after a page reload resumes instead of starting over.
+
+export interface ResumableUploadOptions {
+  filename: string
+  title: string
+  duration: number
+  fingerprint: string
+  onProgress?: (progress: number) => void
+  maxRetries?: number
+}
+
+export interface ResumableUploadResult {
+  id: string
+  url: string
+}
+
+export interface PendingUpload {
+  id: string
+  filename: string
+  size: number
+  chunkSize: number
+  expiresAt: string
+}
+
+interface UploadSessionInfo {
+  id: string
+  chunkSize: number
+}
+
+const STORAGE_KEY = "resumableUploads"
+const CHUNKS_PER_REQUEST = 16 // ~4MB per PATCH with 255KB GridFS chunks
+const MAX_RETRY_DELAY = 30000
+
+// Raised for failures worth retrying: network drops, timeouts and 5xx responses
+class RetryableUploadError extends Error {}
+
+// A session the server no longer knows about (expired or garbage-collected)
+class SessionGoneError extends Error {}
+
+export function fingerprintFile(file: File) {
+  return `file:${file.name}:${file.size}:${file.lastModified}`
+}
+
+function loadPendingUploads(): Record<string, PendingUpload> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+function savePendingUploads(uploads: Record<string, PendingUpload>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads))
+  } catch (error) {
+    console.warn("Could not persist upload session:", error)
+  }
+}
+
+function forgetUpload(fingerprint: string) {
+  const uploads = loadPendingUploads()
+  delete uploads[fingerprint]
+  savePendingUploads(uploads)
+}
+
+// Unfinished uploads from earlier page loads that can still be resumed
+export function getPendingUploads(): PendingUpload[] {
+  const uploads = loadPendingUploads()
+  const now = Date.now()
+  const live = Object.fromEntries(
+    Object.entries(uploads).filter(([, upload]) => new Date(upload.expiresAt).getTime() > now),
+  )
+  if (Object.keys(live).length !== Object.keys(uploads).length) {
+    savePendingUploads(live)
+  }
+  return Object.values(live)
+}
+
+async function readError(response: Response, fallback: string) {
+  const errorData = await response.json().catch(() => null)
+  return errorData?.error || fallback
+}
+
+async function createSession(blob: Blob, options: ResumableUploadOptions): Promise<UploadSessionInfo> {
+  let response: Response
+  try {
+    response = await fetch("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title: options.title,
+        duration: options.duration,
+        size: blob.size,
+        contentType: blob.type || "video/webm",
+      }),
+    })
+  } catch {
+    throw new RetryableUploadError("Network error during upload")
+  }
+
+  if (!response.ok) {
+    const message = await readError(response, "Failed to start upload")
+    throw response.status >= 500 ? new RetryableUploadError(message) : new Error(message)
+  }
+
+  const session = await response.json()
+  const uploads = loadPendingUploads()
+  uploads[options.fingerprint] = {
+    id: session.id,
+    filename: options.filename,
+    size: blob.size,
+    chunkSize: session.chunkSize,
+    expiresAt: session.expiresAt,
+  }
+  savePendingUploads(uploads)
+
+  return { id: session.id, chunkSize: session.chunkSize }
+}
+
+async function getServerOffset(id: string) {
+  let response: Response
+  try {
+    response = await fetch(`/api/uploads/${id}`, { method: "HEAD", cache: "no-store" })
+  } catch {
+    throw new RetryableUploadError("Network error during upload")
+  }
+
+  if (response.status === 404) throw new SessionGoneError("Upload session expired")
+  if (!response.ok) throw new RetryableUploadError("Failed to query upload offset")
+
+  return Number(response.headers.get("Upload-Offset"))
+}
+
+// Sends one PATCH and resolves with the offset the server confirmed
+function sendChunk(id: string, chunk: Blob, offset: number, onProgress: (loaded: number) => void) {
+  return new Promise<number>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+
+    xhr.upload.addEventListener("progress", (event) => onProgress(event.loaded))
+
+    xhr.addEventListener("load", () => {
+      const serverOffset = Number(xhr.getResponseHeader("Upload-Offset"))
+      if (xhr.status === 204) {
+        resolve(serverOffset)
+      } else if (xhr.status === 404) {
+        reject(new SessionGoneError("Upload session expired"))
+      } else if (xhr.status === 409 || xhr.status >= 500) {
+        // 409: our offset is stale, re-sync with HEAD and continue
+        reject(new RetryableUploadError("Upload interrupted"))
+      } else {
+        let message = "Upload failed"
+        try {
+          message = JSON.parse(xhr.responseText).error || message
+        } catch {}
+        reject(new Error(message))
+      }
+    })
+    xhr.addEventListener("error", () => reject(new RetryableUploadError("Network error during upload")))
+    xhr.addEventListener("timeout", () => reject(new RetryableUploadError("Upload timeout")))
+
+    xhr.open("PATCH", `/api/uploads/${id}`)
+    xhr.timeout = 120000 // 2 minutes per chunk
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream")
+    xhr.setRequestHeader("Upload-Offset", offset.toString())
+    xhr.send(chunk)
+  })
+}
+
+async function finalizeUpload(id: string): Promise<ResumableUploadResult> {
+  let response: Response
+  try {
+    response = await fetch(`/api/uploads/${id}`, { method: "POST" })
+  } catch {
+    throw new RetryableUploadError("Network error during upload")
+  }
+
+  if (response.status === 404) throw new SessionGoneError("Upload session expired")
+  if (!response.ok) {
+    const message = await readError(response, "Upload failed")
+    // 409: an earlier attempt is still finalizing, or bytes are missing; retrying
+    // re-syncs the offset and then picks up the finished recording
+    throw response.status >= 500 || response.status === 409 ? new RetryableUploadError(message) : new Error(message)
+  }
+
+  const data = await response.json()
+  return { id: data.id, url: data.url }
+}
+
+// Waits out an exponential backoff, and for the browser to come back online
+function waitBeforeRetry(attempt: number) {
+  const delay = Math.min(1000 * 2 ** (attempt - 1), MAX_RETRY_DELAY)
+  return new Promise<void>((resolve) => {
+    setTimeout(() => {
+      if (navigator.onLine) {
+        resolve()
+      } else {
+        window.addEventListener("online", () => resolve(), { once: true })
+      }
+    }, delay)
+  })
+}
+
+export async function uploadResumable(blob: Blob, options: ResumableUploadOptions): Promise<ResumableUploadResult> {
+  const { fingerprint, onProgress, maxRetries = 8 } = options
+  const stored = loadPendingUploads()[fingerprint]
+  let session: UploadSessionInfo | null = stored ? { id: stored.id, chunkSize: stored.chunkSize } : null
+  let attempt = 0
+
+  while (true) {
+    try {
+      if (!session) {
+        session = await createSession(blob, options)
+      }
+
+      let offset = await getServerOffset(session.id)
+      const requestSize = session.chunkSize * CHUNKS_PER_REQUEST
+
+      while (offset < blob.size) {
+        const end = Math.min(offset + requestSize, blob.size)
+        const start = offset
+        onProgress?.(Math.round((start / blob.size) * 100))
+        offset = await sendChunk(session.id, blob.slice(start, end), start, (loaded) =>
+          onProgress?.(Math.round(((start + loaded) / blob.size) * 100)),
+        )
+        // A "successful" request that stored nothing would otherwise loop forever
+        if (!(offset > start)) {
+          throw new Error("Upload made no progress")
+        }
+        attempt = 0
+      }
+
+      const result = await finalizeUpload(session.id)
+      forgetUpload(fingerprint)
+      onProgress?.(100)
+      return result
+    } catch (error) {
+      if (error instanceof SessionGoneError) {
+        // Start a fresh session; the old one's chunks are garbage-collected server-side
+        forgetUpload(fingerprint)
+        session = null
+      } else if (!(error instanceof RetryableUploadError)) {
+        throw error
+      }
+
+      attempt++
+      if (attempt > maxRetries) {
+        throw new Error(error instanceof Error ? error.message : "Upload failed")
+      }
+      console.warn(`Upload interrupted, retrying (attempt ${attempt}):`, error)
+      await waitBeforeRetry(attempt)
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { z } from "zod"
+import { ShareLink, type IShareLink } from "@/lib/models/ShareLink"
+import { Recording } from "@/lib/models/Recording"
+import { hashPassword, verifyPassword } from "@/lib/passwords"
+import { RequestError } from "@/lib/request-error"
+import type { ObjectId } from "mongodb"
+import type { WorkspaceAccess } from "@/lib/workspaces"
+
+// Share links give anyone with the URL access to one recording, without an
+// account. Opening a link counts a view and hands out a short-lived signed
+// stream URL, so seeking (many range requests) counts once and the password
+// isn't needed again for each request.
+
+const TOKEN_BYTES = 24
+const ACCESS_TTL_MS = 6 * 60 * 60 * 1000 // Stream URLs work for six hours after opening
+const MAX_VIEWS = 1_000_000
+const MAX_PASSWORD_ATTEMPTS = 5
+const PASSWORD_LOCKOUT_MS = 15 * 60 * 1000 // How long a link stays locked after too many incorrect passwords
+
+export const createShareLinkSchema = z
+  .object({
+    expiresAt: z.coerce
+      .date({ message: "Invalid expiry date" })
+      .refine((date) => date.getTime() > Date.now(), "The expiry date must be in the future")
+      .nullable()
+      .default(null),
+    password: z
+      .string()
+      .min(4, "Passwords must be at least 4 characters")
+      .max(200, "Passwords must be at most 200 characters")
+      .nullable()
+      .default(null),
+    maxViews: z.number().int().min(1).max(MAX_VIEWS).nullable().default(null),
+  })
+  .strict()
+
+export type CreateShareLink = z.infer<typeof createShareLinkSchema>
+
+interface SharedRecording {
+  _id: ObjectId
+  workspaceId: ObjectId
+  title: string
+  description?: string
+  duration: number
+  width?: number
+  height?: number
+  filename: string
+  fileId: ObjectId
+  contentType: string
+}
+
+export type ShareLinkStatus = "active" | "revoked" | "expired" | "exhausted"
+
+// Why a link can't be opened, for each status but active
+const STATUS_ERRORS = {
+  revoked: "This link has been revoked",
+  expired: "This link has expired",
+  exhausted: "This link has reached its view limit",
+}
+
+function linkStatus(link: IShareLink): ShareLinkStatus {
+  if (link.revokedAt) return "revoked"
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) return "expired"
+  if (link.maxViews !== null && link.views >= link.maxViews) return "exhausted"
+  return "active"
+}
+
+function serializeShareLink(link: IShareLink) {
+  return {
+    _id: String(link._id),
+    token: link.token,
+    url: `/share/${link.token}`,
+    expiresAt: link.expiresAt,
+    hasPassword: Boolean(link.passwordHash),
+    maxViews: link.maxViews,
+    views: link.views,
+    revokedAt: link.revokedAt,
+    createdAt: link.createdAt,
+    status: linkStatus(link),
+  }
+}
+
+export type ShareLinkSummary = ReturnType<typeof serializeShareLink>
+
+async function requireRecording(workspaceId: string, recordingId: string) {
+  const recording = await Recording.exists({ _id: recordingId, workspaceId, deletedAt: null })
+  if (!recording) throw new RequestError("Recording not found", 404)
+}
+
+export async function listShareLinks(workspaceId: string, recordingId: string) {
+  await requireRecording(workspaceId, recordingId)
+  const links = await ShareLink.find({ workspaceId, recordingId }).select("+passwordHash").sort({ createdAt: -1 })
+  return (links as IShareLink[]).map(serializeShareLink)
+}
+
+export async function createShareLink(access: WorkspaceAccess, recordingId: string, options: CreateShareLink) {
+  await requireRecording(access.workspaceId, recordingId)
+  const link = await ShareLink.create({
+    workspaceId: access.workspaceId,
+    owner: access.userId,
+    recordingId,
+    token: randomBytes(TOKEN_BYTES).toString("base64url"),
+    expiresAt: options.expiresAt,
+    passwordHash: options.password ? await hashPassword(options.password) : undefined,
+    maxViews: options.maxViews,
+  })
+  return serializeShareLink(link as IShareLink)
+}
+
+// Returns false if the workspace has no such link for the recording. Revoking
+// twice keeps the first date.
+export async function revokeShareLink(workspaceId: string, recordingId: string, id: string) {
+  const link = await ShareLink.findOneAndUpdate(
+    { _id: id, workspaceId, recordingId },
+    [{ $set: { revokedAt: { $ifNull: ["$revokedAt", "$$NOW"] } } }],
+    { new: true },
+  )
+  return link !== null
+}
+
+// NEXTAUTH_SECRET also signs stream URLs. Without one (development), a
+// per-process key works until the server restarts.
+const fallbackKey = randomBytes(32)
+
+function sign(token: string, expires: number) {
+  return createHmac("sha256", process.env.NEXTAUTH_SECRET || fallbackKey)
+    .update(`${token}.${expires}`)
+    .digest("base64url")
+}
+
+function accessKey(token: string) {
+  const expires = Date.now() + ACCESS_TTL_MS
+  return `${expires}.${sign(token, expires)}`
+}
+
+function isValidAccessKey(token: string, key: string) {
+  const [expiresText, signature] = key.split(".")
+  const expires = Number(expiresText)
+  if (!Number.isInteger(expires) || expires < Date.now() || !signature) return false
+
+  const expected = Buffer.from(sign(token, expires))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// A link by its token and its recording. Links to recordings in the trash act
+// as if they don't exist.
+async function findLink(token: string) {
+  const link = (await ShareLink.findOne({ token }).select("+passwordHash")) as IShareLink | null
+  if (!link) throw new RequestError("Link not found", 404)
+
+  const recording = await Recording.findOne({ _id: link.recordingId, deletedAt: null })
+    .select("workspaceId title description duration width height filename fileId contentType")
+    .lean<SharedRecording>()
+  if (!recording) throw new RequestError("Link not found", 404)
+
+  return { link, recording, status: linkStatus(link) }
+}
+
+// What the share page shows before the link is opened
+export async function describeShareLink(token: string) {
+  const { link, recording, status } = await findLink(token)
+  if (status !== "active") throw new RequestError(STATUS_ERRORS[status], 410)
+  return { title: recording.title, passwordRequired: Boolean(link.passwordHash) }
+}
+
+// Each guess is counted before it is checked, so parallel requests can't get
+// past the limit either. Enough incorrect ones in a row lock the link for a while.
+async function checkPassword(link: IShareLink, password: string) {
+  const now = new Date()
+  const attempt = (await ShareLink.findOneAndUpdate(
+    { _id: link._id, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] },
+    { $inc: { failedAttempts: 1 } },
+    { new: true },
+  )) as IShareLink | null
+  if (!attempt) throw new RequestError("Too many incorrect passwords. Try again later.", 429)
+
+  if (await verifyPassword(password, link.passwordHash!)) {
+    await ShareLink.updateOne({ _id: link._id }, { $set: { failedAttempts: 0, lockedUntil: null } })
+    return
+  }
+
+  if (attempt.failedAttempts >= MAX_PASSWORD_ATTEMPTS) {
+    await ShareLink.updateOne(
+      { _id: link._id },
+      { $set: { failedAttempts: 0, lockedUntil: new Date(Date.now() + PASSWORD_LOCKOUT_MS) } },
+    )
+  }
+  throw new RequestError("Incorrect password", 401)
+}
+
+// Checks the password and counts a view. The count only goes up while it is
+// under the limit, so concurrent opens can't overshoot it.
+export async function openShareLink(token: string, password: string | null) {
+  const { link, recording, status } = await findLink(token)
+  if (status !== "active") throw new RequestError(STATUS_ERRORS[status], 410)
+
+  if (link.passwordHash) {
+    if (!password) throw new RequestError("This link needs a password", 401)
+    await checkPassword(link, password)
+  }
+
+  const counted = await ShareLink.updateOne(
+    {
+      _id: link._id,
+      revokedAt: null,
+      $or: [{ maxViews: null }, { $expr: { $lt: ["$views", "$maxViews"] } }],
+    },
+    { $inc: { views: 1 } },
+  )
+  if (counted.modifiedCount === 0) throw new RequestError(STATUS_ERRORS.exhausted, 410)
+
+  return {
+    share: {
+      title: recording.title,
+      description: recording.description ?? "",
+      duration: recording.duration,
+      width: recording.width ?? null,
+      height: recording.height ?? null,
+      streamUrl: `/api/share/${token}/stream?access=${accessKey(token)}`,
+    },
+    // For the audit log
+    view: {
+      workspaceId: String(recording.workspaceId),
+      recordingId: String(recording._id),
+      shareId: String(link._id),
+    },
+  }
+}
+
+// The recording behind a stream URL from openShareLink. Revoking or expiring
+// the link cuts off its stream URLs too; the view limit doesn't, since the
+// view was already counted.
+export async function sharedRecording(token: string, access: string) {
+  if (!isValidAccessKey(token, access)) {
+    throw new RequestError("This stream link has expired; reopen the share link", 403)
+  }
+
+  const { recording, status } = await findLink(token)
+  if (status === "revoked" || status === "expired") throw new RequestError(STATUS_ERRORS[status], 410)
+  return recording
+}
@@ -0,0 +1,102 @@
+// WebVTT thumbnails track for storyboard sprites: one cue per tile, pointing at
+// its region of the sprite with a media fragment (sprite.jpg#xywh=x,y,w,h), the
+// format video.js and most other players understand. Shared by the server,
+// which writes the track, and the client, which reads it for scrub previews.
+
+export interface StoryboardLayout {
+  // Seconds between frames
+  interval: number
+  count: number
+  columns: number
+  tileWidth: number
+  tileHeight: number
+}
+
+export interface StoryboardTile {
+  start: number
+  end: number
+  url: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface Storyboard {
+  tiles: StoryboardTile[]
+  // Size of the whole sprite sheet, for scaling tiles with CSS
+  width: number
+  height: number
+}
+
+function formatTimestamp(seconds: number) {
+  const ms = Math.round(seconds * 1000)
+  const hours = Math.floor(ms / 3600000)
+  const minutes = Math.floor((ms % 3600000) / 60000)
+  const secs = Math.floor((ms % 60000) / 1000)
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0")
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms % 1000, 3)}`
+}
+
+function parseTimestamp(value: string) {
+  const parts = value.trim().split(":").map(Number)
+  if (parts.some((part) => !Number.isFinite(part))) return NaN
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+export function formatStoryboardVtt(layout: StoryboardLayout, duration: number, spriteUrl: string) {
+  const lines = ["WEBVTT", ""]
+  for (let index = 0; index < layout.count; index++) {
+    const start = index * layout.interval
+    const end = Math.min(duration, start + layout.interval)
+    if (start >= end) break
+
+    const x = (index % layout.columns) * layout.tileWidth
+    const y = Math.floor(index / layout.columns) * layout.tileHeight
+    lines.push(`${formatTimestamp(start)} --> ${formatTimestamp(end)}`)
+    lines.push(`${spriteUrl}#xywh=${x},${y},${layout.tileWidth},${layout.tileHeight}`)
+    lines.push("")
+  }
+  return lines.join("\n")
+}
+
+// Reads a thumbnails track; cue URLs are resolved against the track's own URL
+export function parseStoryboardVtt(text: string, baseUrl: string): Storyboard {
+  const tiles: StoryboardTile[] = []
+  const blocks = text.replace(/\r\n?/g, "\n").split(/\n{2,}/)
+
+  for (const block of blocks) {
+    const lines = block.split("\n").filter(Boolean)
+    const timingIndex = lines.findIndex((line) => line.includes("-->"))
+    const target = lines[timingIndex + 1]
+    if (timingIndex === -1 || !target) continue
+
+    const [startText, endText] = lines[timingIndex].split("-->")
+    const start = parseTimestamp(startText)
+    const end = parseTimestamp(endText.trim().split(/\s+/)[0])
+    const match = /^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/.exec(target.trim())
+    if (!match || !Number.isFinite(start) || !Number.isFinite(end)) continue
+
+    tiles.push({
+      start,
+      end,
+      url: new URL(match[1], baseUrl).toString(),
+      x: Number(match[2]),
+      y: Number(match[3]),
+      width: Number(match[4]),
+      height: Number(match[5]),
+    })
+  }
+
+  return {
+    tiles,
+    width: Math.max(0, ...tiles.map((tile) => tile.x + tile.width)),
+    height: Math.max(0, ...tiles.map((tile) => tile.y + tile.height)),
+  }
+}
+
+export function tileAt(storyboard: Storyboard, time: number) {
+  const { tiles } = storyboard
+  if (tiles.length === 0) return null
+  return tiles.find((tile) => time >= tile.start && time < tile.end) ?? tiles[tiles.length - 1]
+}
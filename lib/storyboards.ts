@@ -0,0 +1,80 @@
+import { GridFSBucket, type Db } from "mongodb"
+import { isFfmpegAvailable, runFfmpeg } from "@/lib/ffmpeg"
+import { Recording, type IRecording, type IStoryboard } from "@/lib/models/Recording"
+import { THUMBNAIL_BUCKET, saveImage } from "@/lib/thumbnails"
+import type { StoryboardLayout } from "@/lib/storyboard-vtt"
+
+// Storyboard sprites: frames taken every few seconds, letterboxed to a fixed
+// tile size and tiled into one JPEG, stored next to the poster thumbnails.
+// Generated with ffmpeg on first request, which decodes the whole video, so
+// the frame count is capped and the interval grows with the duration.
+
+const TILE_WIDTH = 160
+const TILE_HEIGHT = 90
+const MAX_COLUMNS = 10
+const MAX_TILES = 100
+const MIN_INTERVAL_SECONDS = 2
+const FFMPEG_TIMEOUT_MS = 120000
+
+// Recordings ffmpeg already failed on; see the same set in thumbnails.ts
+const failedRecordings = new Set<string>()
+
+function planLayout(duration: number): StoryboardLayout | null {
+  if (!(duration > 0)) return null
+  const interval = Math.max(MIN_INTERVAL_SECONDS, Math.ceil(duration / MAX_TILES))
+  const count = Math.max(1, Math.ceil(duration / interval))
+  return {
+    interval,
+    count,
+    columns: Math.min(count, MAX_COLUMNS),
+    tileWidth: TILE_WIDTH,
+    tileHeight: TILE_HEIGHT,
+  }
+}
+
+function renderSprite(db: Db, recording: IRecording, layout: StoryboardLayout) {
+  const rows = Math.ceil(layout.count / layout.columns)
+  const filters = [
+    `fps=1/${layout.interval}`,
+    `scale=${layout.tileWidth}:${layout.tileHeight}:force_original_aspect_ratio=decrease`,
+    `pad=${layout.tileWidth}:${layout.tileHeight}:(ow-iw)/2:(oh-ih)/2`,
+    `tile=${layout.columns}x${rows}`,
+  ]
+  return runFfmpeg(
+    db,
+    recording.fileId,
+    ["-an", "-vf", filters.join(","), "-frames:v", "1", "-f", "image2", "-c:v", "mjpeg", "-q:v", "5"],
+    FFMPEG_TIMEOUT_MS,
+  )
+}
+
+// Returns the recording's storyboard, generating it if needed, or null if
+// there is none and none could be made
+export async function ensureStoryboard(db: Db, recording: IRecording): Promise<IStoryboard | null> {
+  if (recording.storyboard) return recording.storyboard
+
+  const key = String(recording._id)
+  const layout = planLayout(recording.duration)
+  if (!layout || !isFfmpegAvailable() || failedRecordings.has(key)) return null
+
+  const sprite = await renderSprite(db, recording, layout)
+  if (!sprite) {
+    if (isFfmpegAvailable()) failedRecordings.add(key)
+    return null
+  }
+
+  const { thumbnailId: fileId } = await saveImage(db, recording, sprite, "image/jpeg", "storyboard")
+  const storyboard: IStoryboard = { fileId, ...layout }
+
+  // Another request may have generated one at the same time; keep the first
+  const claimed = await Recording.updateOne(
+    { _id: recording._id, storyboard: { $exists: false } },
+    { $set: { storyboard } },
+  )
+  if (claimed.modifiedCount === 0) {
+    await new GridFSBucket(db, { bucketName: THUMBNAIL_BUCKET }).delete(fileId).catch(() => {})
+    const current = await Recording.findById(recording._id).select("storyboard").lean<{ storyboard?: IStoryboard }>()
+    return current?.storyboard ?? null
+  }
+  return storyboard
+}
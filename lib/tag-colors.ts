@@ -0,0 +1,26 @@
+// Tag colors, stored by name. Class names are spelled out in full so Tailwind
+// picks them up.
+
+export const TAG_COLORS = ["gray", "red", "orange", "amber", "green", "teal", "blue", "violet", "pink"] as const
+export type TagColor = (typeof TAG_COLORS)[number]
+
+export const TAG_COLOR_CLASSES: Record<TagColor, { badge: string; swatch: string }> = {
+  gray: { badge: "bg-gray-100 text-gray-800 dark:bg-gray-500/20 dark:text-gray-200", swatch: "bg-gray-500" },
+  red: { badge: "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-200", swatch: "bg-red-500" },
+  orange: { badge: "bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-200", swatch: "bg-orange-500" },
+  amber: { badge: "bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-200", swatch: "bg-amber-500" },
+  green: { badge: "bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-200", swatch: "bg-green-500" },
+  teal: { badge: "bg-teal-100 text-teal-800 dark:bg-teal-500/20 dark:text-teal-200", swatch: "bg-teal-500" },
+  blue: { badge: "bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-200", swatch: "bg-blue-500" },
+  violet: { badge: "bg-violet-100 text-violet-800 dark:bg-violet-500/20 dark:text-violet-200", swatch: "bg-violet-500" },
+  pink: { badge: "bg-pink-100 text-pink-800 dark:bg-pink-500/20 dark:text-pink-200", swatch: "bg-pink-500" },
+}
+
+// New tags cycle through the palette so neighbours rarely share a color
+export function defaultTagColor(index: number): TagColor {
+  return TAG_COLORS[((index % TAG_COLORS.length) + TAG_COLORS.length) % TAG_COLORS.length]
+}
+
+export function tagColorClasses(color: string) {
+  return TAG_COLOR_CLASSES[(TAG_COLORS as readonly string[]).includes(color) ? (color as TagColor) : "gray"]
+}
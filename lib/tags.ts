@@ -0,0 +1,122 @@
+import { z } from "zod"
+import { ObjectId } from "mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { Tag, TAG_COLLATION, type ITag } from "@/lib/models/Tag"
+import { RequestError, isDuplicateKeyError } from "@/lib/request-error"
+import { escapeRegExp } from "@/lib/recording-query"
+import { TAG_COLORS, defaultTagColor } from "@/lib/tag-colors"
+
+export const MAX_TAGS_PER_RECORDING = 20
+
+// Commas separate tags in query strings, so they can't appear in names
+export const tagNameSchema = z
+  .string()
+  .transform((name) => name.trim().replace(/\s+/g, " "))
+  .pipe(
+    z
+      .string()
+      .min(1, "Tag name cannot be empty")
+      .max(40, "Tag names must be at most 40 characters")
+      .refine((name) => !name.includes(","), "Tag names cannot contain commas"),
+  )
+
+export const tagColorSchema = z.enum(TAG_COLORS)
+
+export interface TagSummary {
+  _id: string
+  name: string
+  color: string
+  count: number
+}
+
+// Each workspace has its own tags.
+
+// The workspace's tags (or those starting with a prefix, for autocomplete) with
+// how many of its recordings use each
+export async function listTags(workspaceId: string, prefix?: string): Promise<TagSummary[]> {
+  const filter = prefix ? { workspaceId, name: new RegExp(`^${escapeRegExp(prefix)}`, "i") } : { workspaceId }
+  const [tags, counts] = await Promise.all([
+    Tag.find(filter).collation(TAG_COLLATION).sort({ name: 1 }).lean<ITag[]>(),
+    Recording.aggregate<{ _id: string; count: number }>([
+      { $match: { workspaceId: new ObjectId(workspaceId), deletedAt: null } },
+      { $unwind: "$tags" },
+      { $group: { _id: "$tags", count: { $sum: 1 } } },
+    ]),
+  ])
+  const countByName = new Map(counts.map((entry) => [entry._id, entry.count]))
+  return tags.map((tag) => ({
+    _id: String(tag._id),
+    name: tag.name,
+    color: tag.color,
+    count: countByName.get(tag.name) ?? 0,
+  }))
+}
+
+export async function createTag(workspaceId: string, name: string, color?: string) {
+  try {
+    const tagColor = color ?? defaultTagColor(await Tag.countDocuments({ workspaceId }))
+    return await Tag.create({ workspaceId, name, color: tagColor })
+  } catch (error) {
+    if (isDuplicateKeyError(error)) throw new RequestError(`Tag "${name}" already exists`, 409)
+    throw error
+  }
+}
+
+// Maps names typed by a user onto existing tags (case-insensitively) and
+// creates the ones that don't exist yet. Returns the stored names, deduplicated.
+export async function resolveTags(workspaceId: string, names: string[]) {
+  const wanted = new Map<string, string>()
+  for (const name of names) {
+    if (!wanted.has(name.toLowerCase())) wanted.set(name.toLowerCase(), name)
+  }
+
+  const findExisting = () =>
+    Tag.find({ workspaceId, name: { $in: Array.from(wanted.values()) } })
+      .collation(TAG_COLLATION)
+      .lean<ITag[]>()
+
+  const existing = new Map((await findExisting()).map((tag) => [tag.name.toLowerCase(), tag.name]))
+  const missing = Array.from(wanted.entries()).filter(([key]) => !existing.has(key))
+  if (missing.length > 0) {
+    const count = await Tag.countDocuments({ workspaceId })
+    try {
+      await Tag.insertMany(
+        missing.map(([, name], index) => ({ workspaceId, name, color: defaultTagColor(count + index) })),
+        { ordered: false },
+      )
+    } catch (error) {
+      // Someone else created one of them at the same time; theirs is fine
+      if (!isDuplicateKeyError(error)) throw error
+    }
+    for (const tag of await findExisting()) existing.set(tag.name.toLowerCase(), tag.name)
+  }
+
+  return Array.from(wanted.keys()).map((key) => existing.get(key) ?? wanted.get(key)!)
+}
+
+export async function updateTag(tag: ITag, changes: { name?: string; color?: string }) {
+  const previousName = tag.name
+  if (changes.color) tag.color = changes.color as ITag["color"]
+  if (changes.name) tag.name = changes.name
+
+  try {
+    await tag.save()
+  } catch (error) {
+    if (isDuplicateKeyError(error)) throw new RequestError(`Tag "${changes.name}" already exists`, 409)
+    throw error
+  }
+
+  if (tag.name !== previousName) {
+    await Recording.updateMany(
+      { workspaceId: tag.workspaceId, tags: previousName },
+      { $set: { "tags.$[name]": tag.name } },
+      { arrayFilters: [{ name: previousName }] },
+    )
+  }
+  return tag
+}
+
+export async function deleteTag(tag: ITag) {
+  await Recording.updateMany({ workspaceId: tag.workspaceId, tags: tag.name }, { $pull: { tags: tag.name } })
+  await tag.deleteOne()
+}
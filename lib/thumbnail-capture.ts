@@ -0,0 +1,65 @@
+// Browser side of recording thumbnails: grabs a frame from the recorded video
+// with a canvas and uploads it to /api/recordings/[id]/thumbnail.
+
+const THUMBNAIL_WIDTH = 640
+const CAPTURE_TIMEOUT_MS = 10000
+
+// Resolves with a JPEG of the frame about a second in (the very first frame is
+// often black), or null if the browser can't decode the video
+export function captureThumbnail(video: Blob): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(video)
+    const element = document.createElement("video")
+    element.muted = true
+    element.playsInline = true
+    element.preload = "auto"
+
+    const finish = (thumbnail: Blob | null) => {
+      clearTimeout(timer)
+      element.removeAttribute("src")
+      element.load()
+      URL.revokeObjectURL(url)
+      resolve(thumbnail)
+    }
+    const timer = setTimeout(() => finish(null), CAPTURE_TIMEOUT_MS)
+
+    element.onloadedmetadata = () => {
+      const duration = Number.isFinite(element.duration) ? element.duration : 0
+      element.currentTime = Math.min(1, duration / 2)
+    }
+    element.onseeked = () => {
+      if (!element.videoWidth || !element.videoHeight) {
+        finish(null)
+        return
+      }
+      const scale = Math.min(1, THUMBNAIL_WIDTH / element.videoWidth)
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(element.videoWidth * scale)
+      canvas.height = Math.round(element.videoHeight * scale)
+      canvas.getContext("2d")!.drawImage(element, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(finish, "image/jpeg", 0.8)
+    }
+    element.onerror = () => finish(null)
+
+    element.src = url
+  })
+}
+
+// Best effort: without a thumbnail the server falls back to generating one
+export async function attachThumbnail(recordingId: string, video: Blob) {
+  try {
+    const thumbnail = await captureThumbnail(video)
+    if (!thumbnail) return
+
+    const response = await fetch(`/api/recordings/${recordingId}/thumbnail`, {
+      method: "PUT",
+      headers: { "Content-Type": thumbnail.type },
+      body: thumbnail,
+    })
+    if (!response.ok) {
+      console.warn("Thumbnail upload failed:", response.status)
+    }
+  } catch (error) {
+    console.warn("Could not attach thumbnail:", error)
+  }
+}
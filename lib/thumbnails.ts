@@ -0,0 +1,96 @@
+import { GridFSBucket, type Db, type ObjectId } from "mongodb"
+import { isFfmpegAvailable, runFfmpeg } from "@/lib/ffmpeg"
+import { Recording, type IRecording } from "@/lib/models/Recording"
+
+// Poster images live in their own GridFS bucket next to "recordings". The
+// browser normally uploads one captured from the video; for recordings without
+// one the server extracts a frame with ffmpeg, if it is installed.
+export const THUMBNAIL_BUCKET = "thumbnails"
+export const THUMBNAIL_TYPES = ["image/jpeg", "image/png", "image/webp"]
+export const MAX_THUMBNAIL_SIZE = 2 * 1024 * 1024
+
+const FFMPEG_TIMEOUT_MS = 20000
+const THUMBNAIL_WIDTH = 640
+
+// Recordings ffmpeg already failed on, so a broken file isn't retried on every
+// list render. Process-local; a restart gives each one another chance.
+const failedRecordings = new Set<string>()
+
+// Also used for storyboard sprites, which share the bucket
+export async function saveImage(db: Db, recording: IRecording, data: Buffer, contentType: string, kind = "thumbnail") {
+  const bucket = new GridFSBucket(db, { bucketName: THUMBNAIL_BUCKET })
+  const uploadStream = bucket.openUploadStream(`${recording.filename}.${kind}`, {
+    metadata: { contentType, recordingId: recording._id, uploadDate: new Date() },
+  })
+  await new Promise<void>((resolve, reject) => {
+    uploadStream.once("error", reject)
+    uploadStream.end(data, () => resolve())
+  })
+  return { bucket, thumbnailId: uploadStream.id as ObjectId }
+}
+
+// Stores an uploaded thumbnail, replacing any existing one
+export async function storeThumbnail(db: Db, recording: IRecording, data: Buffer, contentType: string) {
+  const { bucket, thumbnailId } = await saveImage(db, recording, data, contentType)
+
+  const previous = await Recording.findOneAndUpdate({ _id: recording._id }, { $set: { thumbnailId } })
+  if (!previous) {
+    await bucket.delete(thumbnailId).catch(() => {})
+    return null
+  }
+  if (previous.thumbnailId) {
+    await bucket.delete(previous.thumbnailId).catch((error) => console.error("Error deleting old thumbnail:", error))
+  }
+  return thumbnailId
+}
+
+// Grabs one JPEG frame about a second in; the very first one is often black
+function extractFrame(db: Db, recording: IRecording) {
+  const seekSeconds = Math.min(1, (recording.duration || 0) / 2)
+  return runFfmpeg(
+    db,
+    recording.fileId,
+    [
+      "-ss",
+      seekSeconds.toFixed(2),
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale='min(${THUMBNAIL_WIDTH},iw)':-2`,
+      "-f",
+      "image2",
+      "-c:v",
+      "mjpeg",
+      "-q:v",
+      "4",
+    ],
+    FFMPEG_TIMEOUT_MS,
+  )
+}
+
+// Fallback for recordings that were uploaded without a thumbnail. Returns null
+// if none could be made.
+export async function generateThumbnail(db: Db, recording: IRecording) {
+  const key = String(recording._id)
+  if (!isFfmpegAvailable() || failedRecordings.has(key)) return null
+
+  const frame = await extractFrame(db, recording)
+  if (!frame) {
+    if (isFfmpegAvailable()) failedRecordings.add(key)
+    return null
+  }
+
+  const { bucket, thumbnailId } = await saveImage(db, recording, frame, "image/jpeg")
+
+  // A thumbnail uploaded by the client in the meantime wins
+  const claimed = await Recording.updateOne(
+    { _id: recording._id, thumbnailId: { $exists: false } },
+    { $set: { thumbnailId } },
+  )
+  if (claimed.modifiedCount === 0) {
+    await bucket.delete(thumbnailId).catch(() => {})
+    const current = await Recording.findById(recording._id).select("thumbnailId").lean<{ thumbnailId?: ObjectId }>()
+    return current?.thumbnailId ?? null
+  }
+  return thumbnailId
+}
@@ -0,0 +1,86 @@
+import { Recording } from "@/lib/models/Recording"
+import { config } from "@/lib/config"
+import { LIST_FIELDS, serializeRecording, type ListedRecording } from "@/lib/recording-query"
+import { recordAudit } from "@/lib/audit"
+
+// Deleting a recording only stamps it with deletedAt, which hides it everywhere
+// but the trash. Its GridFS files stay until it is deleted forever or the
+// retention period runs out; the Recording model's findOneAndDelete hook
+// removes them then. Everything but the purge only touches the given
+// workspace's recordings.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface TrashedRecording extends ListedRecording {
+  deletedAt: Date
+}
+
+// When a recording deleted at the given time gets purged
+export function purgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + config.trashRetentionDays * DAY_MS)
+}
+
+// Returns false if the recording doesn't exist or is already in the trash
+export async function moveToTrash(workspaceId: string, id: string) {
+  const result = await Recording.updateOne(
+    { _id: id, workspaceId, deletedAt: null },
+    { $set: { deletedAt: new Date() } },
+  )
+  return result.modifiedCount > 0
+}
+
+// Returns false if the recording doesn't exist or isn't in the trash
+export async function restoreFromTrash(workspaceId: string, id: string) {
+  const result = await Recording.updateOne(
+    { _id: id, workspaceId, deletedAt: { $ne: null } },
+    { $set: { deletedAt: null } },
+  )
+  return result.modifiedCount > 0
+}
+
+// Permanently deletes a trashed recording and its files
+export async function deleteForever(workspaceId: string, id: string) {
+  const deleted = await Recording.findOneAndDelete({ _id: id, workspaceId, deletedAt: { $ne: null } })
+  return deleted !== null
+}
+
+export async function listTrash(workspaceId: string) {
+  const recordings = await Recording.find({ workspaceId, deletedAt: { $ne: null } })
+    .select(`${LIST_FIELDS} deletedAt`)
+    .sort({ deletedAt: -1 })
+    .lean<TrashedRecording[]>()
+  return recordings.map((recording) => ({
+    ...serializeRecording(recording),
+    purgeAt: purgeDate(recording.deletedAt),
+  }))
+}
+
+// Deletes everything in a workspace's trash, or only what has outlived the
+// retention period in every workspace. One at a time, so each goes through the
+// model's file cleanup. Returns the IDs of the deleted recordings; the audit
+// log gets the expired ones here, and emptying the trash is logged by its route.
+export async function purgeTrash(options: { expiredOnly: true } | { expiredOnly: false; workspaceId: string }) {
+  const filter = options.expiredOnly
+    ? { deletedAt: { $lt: new Date(Date.now() - config.trashRetentionDays * DAY_MS) } }
+    : { workspaceId: options.workspaceId, deletedAt: { $ne: null } }
+  const expired = await Recording.find(filter)
+    .select("_id workspaceId")
+    .lean<{ _id: unknown; workspaceId: unknown }[]>()
+
+  const purged: string[] = []
+  for (const recording of expired) {
+    const deleted = await Recording.findOneAndDelete({ _id: recording._id, deletedAt: { $ne: null } })
+    if (!deleted) continue
+    purged.push(String(recording._id))
+    // Recordings from before workspaces have nowhere to log to
+    if (options.expiredOnly && recording.workspaceId) {
+      await recordAudit({
+        access: { workspaceId: String(recording.workspaceId) },
+        action: "recording.purge",
+        targets: { type: "recording", id: String(recording._id) },
+        details: { reason: "retention" },
+      })
+    }
+  }
+  return purged
+}
@@ -0,0 +1,202 @@
+import { Readable } from "stream"
+import type { ReadableStream as WebReadableStream } from "stream/web"
+import { GridFSBucket, type Db } from "mongodb"
+import { Recording } from "@/lib/models/Recording"
+import { UploadSession, type IUploadSession } from "@/lib/models/UploadSession"
+import { RequestError } from "@/lib/request-error"
+import { inspectStoredRecording, remuxStoredRecording } from "@/lib/recording-processing"
+
+// Resumable uploads write straight into the "recordings" GridFS bucket: every
+// PATCH is cut into GridFS-sized chunk documents keyed by (files_id, n), and the
+// files document is only inserted on finalize. Until then the file is invisible
+// to GridFS readers, and an abandoned session is just a set of orphaned chunks.
+export const GRIDFS_CHUNK_SIZE = 255 * 1024
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000 // Sessions expire a day after their last PATCH
+
+const FILES_COLLECTION = "recordings.files"
+const CHUNKS_COLLECTION = "recordings.chunks"
+
+let indexesReady: Promise<unknown> | null = null
+
+function ensureChunkIndex(db: Db) {
+  if (!indexesReady) {
+    indexesReady = db
+      .collection(CHUNKS_COLLECTION)
+      .createIndex({ files_id: 1, n: 1 }, { unique: true })
+      .catch((error) => {
+        indexesReady = null
+        throw error
+      })
+  }
+  return indexesReady
+}
+
+export function isExpired(session: IUploadSession) {
+  return session.status === "active" && session.expiresAt.getTime() < Date.now()
+}
+
+// Appends the request body to the session starting at its current offset.
+// Only whole GridFS chunks are persisted (plus the final short chunk), so if the
+// client disconnects mid-request the session resumes from the last full chunk.
+// Returns the new offset.
+export async function appendToSession(db: Db, session: IUploadSession, body: ReadableStream<Uint8Array>) {
+  await ensureChunkIndex(db)
+
+  const chunks = db.collection(CHUNKS_COLLECTION)
+  const { chunkSize, size } = session
+  let offset = session.offset
+  let pending: Buffer[] = []
+  let pendingLength = 0
+
+  const writeChunk = async (data: Buffer) => {
+    // Upsert keeps a retried PATCH from duplicating chunks
+    await chunks.updateOne(
+      { files_id: session.fileId, n: offset / chunkSize },
+      { $set: { data } },
+      { upsert: true },
+    )
+    offset += data.length
+    await UploadSession.updateOne(
+      { _id: session._id },
+      { $set: { offset, expiresAt: new Date(Date.now() + SESSION_TTL_MS) } },
+    )
+  }
+
+  try {
+    for await (const part of Readable.fromWeb(body as WebReadableStream<Uint8Array>)) {
+      const buffer = Buffer.from(part as Uint8Array)
+      if (offset + pendingLength + buffer.length > size) {
+        throw new RequestError("Chunk exceeds the declared upload length", 413)
+      }
+
+      pending.push(buffer)
+      pendingLength += buffer.length
+
+      while (pendingLength >= chunkSize) {
+        const joined = Buffer.concat(pending)
+        await writeChunk(joined.subarray(0, chunkSize))
+        const rest = joined.subarray(chunkSize)
+        pending = rest.length > 0 ? [rest] : []
+        pendingLength = rest.length
+      }
+    }
+  } catch (error) {
+    if (error instanceof RequestError) throw error
+    // Client went away mid-request; keep the chunks that made it
+    console.warn("Resumable upload interrupted:", error)
+    return offset
+  }
+
+  if (pendingLength > 0 && offset + pendingLength === size) {
+    await writeChunk(Buffer.concat(pending))
+  }
+
+  return offset
+}
+
+// Turns a fully uploaded session into a GridFS file and a Recording document.
+// Safe to call more than once.
+export async function finalizeSession(db: Db, session: IUploadSession) {
+  if (session.status === "complete" && session.recordingId) {
+    return session.recordingId.toString()
+  }
+
+  if (session.offset !== session.size) {
+    throw new RequestError("Upload is incomplete", 409)
+  }
+
+  // Claim the session so a retried or concurrent finalize cannot remux it or
+  // create its recording a second time
+  const claimed = await UploadSession.updateOne(
+    { _id: session._id, status: "active" },
+    { $set: { status: "finalizing" } },
+  )
+  if (claimed.modifiedCount === 0) {
+    throw new RequestError("Upload is already being finalized", 409)
+  }
+
+  try {
+    return await assembleSession(db, session)
+  } catch (error) {
+    // Sessions whose file can never become a recording are deleted instead
+    await UploadSession.updateOne({ _id: session._id, status: "finalizing" }, { $set: { status: "active" } })
+    throw error
+  }
+}
+
+async function assembleSession(db: Db, session: IUploadSession) {
+  await db.collection(FILES_COLLECTION).updateOne(
+    { _id: session.fileId },
+    {
+      $setOnInsert: {
+        length: session.size,
+        chunkSize: session.chunkSize,
+        uploadDate: new Date(),
+        filename: session.filename,
+        metadata: {
+          contentType: session.contentType,
+          uploadDate: new Date(),
+        },
+      },
+    },
+    { upsert: true },
+  )
+
+  const bucket = new GridFSBucket(db, { bucketName: "recordings" })
+  const stored = await remuxStoredRecording(bucket, { fileId: session.fileId, size: session.size })
+  if (!stored.fileId.equals(session.fileId)) {
+    // The original file is gone; point the session at the remuxed one so a
+    // retried finalize doesn't recreate a files document for deleted chunks
+    session.fileId = stored.fileId
+    session.size = session.offset = stored.size
+    await session.save()
+  }
+
+  let recording
+  try {
+    const media = await inspectStoredRecording(bucket, session.fileId, session.size)
+    recording = new Recording({
+      workspaceId: session.workspaceId,
+      owner: session.owner,
+      title: session.title,
+      filename: session.filename,
+      fileId: session.fileId,
+      size: session.size,
+      ...media,
+      contentType: session.contentType,
+      createdAt: new Date(),
+    })
+    await recording.save()
+  } catch (error) {
+    if (error instanceof RequestError) {
+      // The file will never become a recording; free its chunks and the session
+      await bucket.delete(session.fileId).catch(() => {})
+      await UploadSession.deleteOne({ _id: session._id })
+    }
+    throw error
+  }
+
+  session.status = "complete"
+  session.recordingId = recording._id
+  await session.save()
+
+  return recording._id.toString()
+}
+
+// Deletes the partial chunks of sessions that were never finalized, plus the
+// bookkeeping of completed sessions once they age out.
+export async function purgeExpiredSessions(db: Db) {
+  const now = new Date()
+  const expired = await UploadSession.find({ status: "active", expiresAt: { $lt: now } })
+    .select("fileId")
+    .lean<{ _id: unknown; fileId: unknown }[]>()
+
+  for (const session of expired) {
+    await db.collection(CHUNKS_COLLECTION).deleteMany({ files_id: session.fileId })
+    await UploadSession.deleteOne({ _id: session._id })
+  }
+
+  await UploadSession.deleteMany({ status: "complete", expiresAt: { $lt: now } })
+
+  return expired.length
+}
@@ -0,0 +1,34 @@
+import { z } from "zod"
+import { User } from "@/lib/models/User"
+import { config } from "@/lib/config"
+import { hashPassword } from "@/lib/passwords"
+import { RequestError, isDuplicateKeyError } from "@/lib/request-error"
+import { personalWorkspace } from "@/lib/workspaces"
+
+export const registrationSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email("Enter a valid email address").max(254),
+    password: z
+      .string()
+      .min(8, "Passwords must be at least 8 characters")
+      .max(200, "Passwords must be at most 200 characters"),
+    name: z.string().trim().max(100, "Names must be at most 100 characters").optional(),
+  })
+  .strict()
+
+export type Registration = z.infer<typeof registrationSchema>
+
+export async function registerUser({ email, password, name }: Registration) {
+  let user
+  try {
+    user = await User.create({ email, name, passwordHash: await hashPassword(password) })
+  } catch (error) {
+    if (isDuplicateKeyError(error)) throw new RequestError("An account with that email already exists", 409)
+    throw error
+  }
+
+  // Recordings, tags and folders created before there were accounts have no
+  // owner. The configured owner account takes them over so they don't disappear.
+  await personalWorkspace(String(user._id), { claimUnowned: user.email === config.ownerEmail })
+  return { _id: String(user._id), email: user.email, name: user.name }
+}
@@ -4,3 +4,12 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// File extension for a video MIME type such as "video/mp4;codecs=avc1"
+export function videoExtension(mimeType: string) {
+  const type = mimeType.split(';')[0].trim().toLowerCase()
+  if (type === 'video/mp4') return 'mp4'
+  if (type === 'video/quicktime') return 'mov'
+  if (type === 'video/x-msvideo' || type === 'video/avi') return 'avi'
+  return 'webm'
+}
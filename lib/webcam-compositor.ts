@@ -0,0 +1,156 @@
+// Composites a webcam feed into a corner of the screen capture by drawing both
+// onto a canvas and recording the canvas's captured stream. Overlay settings can
+// be changed while recording; the next frame picks them up.
+
+export type OverlayPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right"
+export type OverlaySize = "small" | "medium" | "large"
+export type OverlayShape = "circle" | "rounded"
+
+export interface OverlaySettings {
+  position: OverlayPosition
+  size: OverlaySize
+  shape: OverlayShape
+}
+
+export interface WebcamCompositor {
+  stream: MediaStream
+  update: (settings: OverlaySettings) => void
+  stop: () => void
+}
+
+// Overlay width as a fraction of the frame width
+const SIZE_RATIOS: Record<OverlaySize, number> = {
+  small: 0.15,
+  medium: 0.22,
+  large: 0.3,
+}
+
+const MARGIN_RATIO = 0.02
+
+// Timers in a worker keep ticking when the recording tab is in the background,
+// unlike requestAnimationFrame (paused) or window timers (throttled to 1Hz)
+function createTicker(frameRate: number, onTick: () => void) {
+  const interval = Math.round(1000 / frameRate)
+  try {
+    const source = `setInterval(() => postMessage(0), ${interval})`
+    const url = URL.createObjectURL(new Blob([source], { type: "text/javascript" }))
+    const worker = new Worker(url)
+    worker.onmessage = onTick
+    return () => {
+      worker.terminate()
+      URL.revokeObjectURL(url)
+    }
+  } catch {
+    const timer = setInterval(onTick, interval)
+    return () => clearInterval(timer)
+  }
+}
+
+function playStream(stream: MediaStream) {
+  const video = document.createElement("video")
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = stream
+  video.play().catch((error) => console.warn("Could not play compositor source:", error))
+  return video
+}
+
+function overlayRect(settings: OverlaySettings, width: number, height: number, camera: HTMLVideoElement) {
+  const overlayWidth = Math.round(width * SIZE_RATIOS[settings.size])
+  const cameraAspect = camera.videoWidth && camera.videoHeight ? camera.videoHeight / camera.videoWidth : 0.75
+  const overlayHeight = settings.shape === "circle" ? overlayWidth : Math.round(overlayWidth * cameraAspect)
+  const margin = Math.round(width * MARGIN_RATIO)
+
+  const x = settings.position.endsWith("left") ? margin : width - overlayWidth - margin
+  const y = settings.position.startsWith("top") ? margin : height - overlayHeight - margin
+
+  return { x, y, width: overlayWidth, height: overlayHeight }
+}
+
+function drawOverlay(ctx: CanvasRenderingContext2D, camera: HTMLVideoElement, settings: OverlaySettings) {
+  const { width, height } = ctx.canvas
+  const rect = overlayRect(settings, width, height, camera)
+
+  ctx.save()
+  ctx.beginPath()
+  if (settings.shape === "circle") {
+    ctx.arc(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / 2, 0, Math.PI * 2)
+  } else {
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, rect.width * 0.08)
+  }
+  ctx.clip()
+
+  // Crop the camera frame to the overlay's aspect ratio, keeping it centred
+  const sourceWidth = camera.videoWidth || rect.width
+  const sourceHeight = camera.videoHeight || rect.height
+  const scale = Math.max(rect.width / sourceWidth, rect.height / sourceHeight)
+  const cropWidth = rect.width / scale
+  const cropHeight = rect.height / scale
+  ctx.drawImage(
+    camera,
+    (sourceWidth - cropWidth) / 2,
+    (sourceHeight - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+  )
+  ctx.restore()
+
+  // Thin outline so the overlay stands out against any background
+  ctx.save()
+  ctx.lineWidth = Math.max(2, Math.round(width / 640))
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.85)"
+  ctx.stroke()
+  ctx.restore()
+}
+
+export function createWebcamCompositor(
+  displayStream: MediaStream,
+  webcamStream: MediaStream,
+  initialSettings: OverlaySettings,
+  frameRate = 30,
+): WebcamCompositor {
+  const screen = playStream(displayStream)
+  const camera = playStream(webcamStream)
+  const canvas = document.createElement("canvas")
+  const ctx = canvas.getContext("2d")!
+  let settings = initialSettings
+
+  // Start at the capture's advertised size so the first frames are not 300x150
+  const { width = 1920, height = 1080 } = displayStream.getVideoTracks()[0]?.getSettings() ?? {}
+  canvas.width = width
+  canvas.height = height
+
+  const draw = () => {
+    if (screen.videoWidth && screen.videoHeight) {
+      // Follow the capture size, which changes if the shared window is resized
+      if (canvas.width !== screen.videoWidth || canvas.height !== screen.videoHeight) {
+        canvas.width = screen.videoWidth
+        canvas.height = screen.videoHeight
+      }
+      ctx.drawImage(screen, 0, 0, canvas.width, canvas.height)
+    }
+    if (camera.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      drawOverlay(ctx, camera, settings)
+    }
+  }
+
+  const stopTicker = createTicker(frameRate, draw)
+  const stream = canvas.captureStream(frameRate)
+
+  return {
+    stream,
+    update: (next) => {
+      settings = next
+    },
+    stop: () => {
+      stopTicker()
+      stream.getTracks().forEach((track) => track.stop())
+      screen.srcObject = null
+      camera.srcObject = null
+    },
+  }
+}
@@ -0,0 +1,242 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { Readable, Writable } from "stream"
+import { ObjectId, type GridFSBucket } from "mongodb"
+import type { ByteSource } from "@/lib/byte-source"
+import {
+  EBML_ID,
+  concatBytes,
+  ebmlChildren,
+  ebmlFloat,
+  ebmlUint,
+  encodeElement,
+  encodeId,
+  encodeUint,
+  parseEbmlHeader,
+} from "@/lib/ebml"
+import { remuxWebM, remuxWebMBlob, type RemuxPart } from "@/lib/webm-remux"
+import { remuxStoredRecording } from "@/lib/recording-processing"
+
+const UNKNOWN_SIZE = Uint8Array.of(0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff)
+
+function bufferSource(data: Uint8Array): ByteSource {
+  return { size: data.length, read: async (offset, length) => data.subarray(offset, offset + length) }
+}
+
+function assemble(source: Uint8Array, parts: RemuxPart[]) {
+  return concatBytes(parts.map((part) => (part instanceof Uint8Array ? part : source.subarray(part.start, part.end))))
+}
+
+function simpleBlock(track: number, timecode: number, keyframe: boolean) {
+  return encodeElement(EBML_ID.SimpleBlock, Uint8Array.of(0x80 | track, 0, timecode, keyframe ? 0x80 : 0, 0xaa))
+}
+
+function cluster(timecode: number, ...blocks: Uint8Array[]) {
+  const timecodeElement = encodeElement(EBML_ID.Timecode, encodeUint(timecode))
+  return concatBytes([encodeId(EBML_ID.Cluster), UNKNOWN_SIZE, timecodeElement, ...blocks])
+}
+
+function trackEntry(number: number, type: number) {
+  return encodeElement(
+    EBML_ID.TrackEntry,
+    concatBytes([
+      encodeElement(EBML_ID.TrackNumber, encodeUint(number)),
+      encodeElement(EBML_ID.TrackType, encodeUint(type)),
+    ]),
+  )
+}
+
+// What MediaRecorder streams: an unknown-size Segment and Clusters, no
+// Duration and no Cues. Track 1 is audio, track 2 video, so cues must follow
+// the video keyframes.
+function recorderWebM() {
+  return concatBytes([
+    encodeElement(EBML_ID.Header, encodeElement(0x4282, new TextEncoder().encode("webm"))),
+    encodeId(EBML_ID.Segment),
+    UNKNOWN_SIZE,
+    encodeElement(EBML_ID.Info, encodeElement(EBML_ID.TimecodeScale, encodeUint(1000000))),
+    encodeElement(EBML_ID.Tracks, concatBytes([trackEntry(1, 2), trackEntry(2, 1)])),
+    cluster(0, simpleBlock(1, 0, true), simpleBlock(2, 0, true), simpleBlock(2, 40, false)),
+    cluster(1000, simpleBlock(1, 0, true), simpleBlock(2, 20, false), simpleBlock(2, 60, true)),
+    cluster(2000, simpleBlock(2, 30, true)),
+  ])
+}
+
+// The Segment's children, by ID and position relative to the Segment's data
+function segmentChildren(file: Uint8Array) {
+  const ebml = parseEbmlHeader(file, 0, 0)!
+  const segment = parseEbmlHeader(file, ebml.dataStart + ebml.size!, ebml.dataStart + ebml.size!)!
+  assert.equal(segment.id, EBML_ID.Segment)
+  assert.equal(segment.dataStart + segment.size!, file.length)
+
+  const children: { id: number; position: number; data: Uint8Array }[] = []
+  let offset = segment.dataStart
+  while (offset < file.length) {
+    const child = parseEbmlHeader(file, offset, offset)!
+    assert.notEqual(child.size, null, "every element has a known size")
+    const data = file.subarray(child.dataStart, child.dataStart + child.size!)
+    children.push({ id: child.id, position: offset - segment.dataStart, data })
+    offset = child.dataStart + child.size!
+  }
+  return children
+}
+
+test("remuxing adds a Duration, sized Clusters and Cues on video keyframes", async () => {
+  const source = recorderWebM()
+  const remuxed = assemble(source, (await remuxWebM(bufferSource(source)))!)
+  const children = segmentChildren(remuxed)
+
+  assert.deepEqual(
+    children.map((child) => child.id),
+    [EBML_ID.SeekHead, EBML_ID.Info, EBML_ID.Tracks, EBML_ID.Cluster, EBML_ID.Cluster, EBML_ID.Cluster, EBML_ID.Cues],
+  )
+
+  const info = new Map([...ebmlChildren(children[1].data)].map((child) => [child.id, child.data]))
+  assert.equal(ebmlUint(info.get(EBML_ID.TimecodeScale)!), 1000000)
+  assert.equal(ebmlFloat(info.get(EBML_ID.Duration)!), 2030)
+
+  // Every SeekHead entry points at the element it names
+  for (const seek of ebmlChildren(children[0].data)) {
+    const fields = new Map([...ebmlChildren(seek.data)].map((field) => [field.id, ebmlUint(field.data)]))
+    const target = children.find((child) => child.position === fields.get(EBML_ID.SeekPosition))
+    assert.equal(target?.id, fields.get(EBML_ID.SeekID))
+  }
+
+  // One cue per cluster that has a video keyframe, at that keyframe's time
+  const clusterPositions = children.filter((child) => child.id === EBML_ID.Cluster).map((child) => child.position)
+  const cues = [...ebmlChildren(children[6].data)].map((point) => {
+    const fields = new Map([...ebmlChildren(point.data)].map((field) => [field.id, field.data]))
+    const positions = new Map(
+      [...ebmlChildren(fields.get(EBML_ID.CueTrackPositions)!)].map((field) => [field.id, ebmlUint(field.data)]),
+    )
+    return {
+      time: ebmlUint(fields.get(EBML_ID.CueTime)!),
+      track: positions.get(EBML_ID.CueTrack),
+      position: positions.get(EBML_ID.CueClusterPosition),
+    }
+  })
+  assert.deepEqual(cues, [
+    { time: 0, track: 2, position: clusterPositions[0] },
+    { time: 1060, track: 2, position: clusterPositions[1] },
+    { time: 2030, track: 2, position: clusterPositions[2] },
+  ])
+
+  // Frame data is copied unchanged
+  const blocks = (data: Uint8Array) => Buffer.from(data).toString("hex").match(/a385[0-9a-f]{6}(?:80|00)aa/g)
+  assert.equal(blocks(source)?.length, 7)
+  assert.deepEqual(blocks(remuxed), blocks(source))
+})
+
+test("a remuxed file is left as it is by a second pass", async () => {
+  const source = recorderWebM()
+  const remuxed = assemble(source, (await remuxWebM(bufferSource(source)))!)
+  assert.equal(await remuxWebM(bufferSource(remuxed)), null)
+
+  const blob = new Blob([remuxed], { type: "video/webm" })
+  assert.equal(await remuxWebMBlob(blob), blob)
+})
+
+test("the blob helper produces the same bytes as the parts", async () => {
+  const source = recorderWebM()
+  const remuxed = assemble(source, (await remuxWebM(bufferSource(source)))!)
+  const blob = await remuxWebMBlob(new Blob([source], { type: "video/webm" }))
+  assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), remuxed)
+  assert.equal(blob.type, "video/webm")
+})
+
+test("an element cut off at the end of the file is dropped", async () => {
+  const source = recorderWebM()
+  const truncated = source.subarray(0, source.length - 2)
+  const remuxed = assemble(truncated, (await remuxWebM(bufferSource(truncated)))!)
+  const children = segmentChildren(remuxed)
+  const info = new Map([...ebmlChildren(children[1].data)].map((child) => [child.id, child.data]))
+  assert.equal(ebmlFloat(info.get(EBML_ID.Duration)!), 1060)
+})
+
+test("files that aren't WebM are not remuxed", async () => {
+  assert.equal(await remuxWebM(bufferSource(Buffer.from("\0\0\0\x18ftypisom", "latin1"))), null)
+  assert.equal(await remuxWebM(bufferSource(recorderWebM().subarray(0, 30))), null)
+})
+
+// --- Stored recordings ---------------------------------------------------------
+
+// Just enough of GridFSBucket for remuxStoredRecording, over in-memory files
+function memoryBucket({ failReads = false } = {}) {
+  const files = new Map<string, { data: Buffer; filename: string; metadata: Record<string, unknown> }>()
+  const deleted: string[] = []
+  const bucket = {
+    find: ({ _id }: { _id: ObjectId }) => ({
+      next: async () => {
+        const file = files.get(String(_id))
+        return file ? { _id, filename: file.filename, metadata: file.metadata, length: file.data.length } : null
+      },
+    }),
+    openDownloadStream: (id: ObjectId, { start = 0, end }: { start?: number; end?: number } = {}) => {
+      if (failReads) {
+        return new Readable({
+          read() {
+            this.destroy(new Error("Connection lost"))
+          },
+        })
+      }
+      return Readable.from([files.get(String(id))!.data.subarray(start, end)])
+    },
+    openUploadStream: (filename: string, { metadata }: { metadata: Record<string, unknown> }) => {
+      const id = new ObjectId()
+      const chunks: Buffer[] = []
+      const stream = new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk)
+          callback()
+        },
+        final(callback) {
+          files.set(String(id), { data: Buffer.concat(chunks), filename, metadata })
+          callback()
+        },
+      })
+      return Object.assign(stream, { id, abort: async () => {} })
+    },
+    delete: async (id: ObjectId) => {
+      deleted.push(String(id))
+      files.delete(String(id))
+    },
+  }
+
+  const add = (data: Uint8Array, contentType = "video/webm") => {
+    const fileId = new ObjectId()
+    files.set(String(fileId), { data: Buffer.from(data), filename: "recording.webm", metadata: { contentType } })
+    return { fileId, size: data.length }
+  }
+  return { bucket: bucket as unknown as GridFSBucket, files, deleted, add }
+}
+
+test("a stored recording is replaced by its remuxed copy", async () => {
+  const { bucket, files, deleted, add } = memoryBucket()
+  const source = recorderWebM()
+  const original = add(source)
+
+  const stored = await remuxStoredRecording(bucket, original)
+  assert.notEqual(String(stored.fileId), String(original.fileId))
+  assert.deepEqual(deleted, [String(original.fileId)])
+  const expected = assemble(source, (await remuxWebM(bufferSource(source)))!)
+  assert.deepEqual(new Uint8Array(files.get(String(stored.fileId))!.data), expected)
+  assert.equal(stored.size, files.get(String(stored.fileId))!.data.length)
+})
+
+test("malformed or unreadable recordings are kept as they are", async () => {
+  const garbage = memoryBucket()
+  const notWebM = garbage.add(Buffer.from("this is not a video at all"))
+  assert.deepEqual(await remuxStoredRecording(garbage.bucket, notWebM), notWebM)
+  assert.deepEqual(garbage.deleted, [])
+
+  const truncated = memoryBucket()
+  const cut = truncated.add(recorderWebM().subarray(0, 30))
+  assert.deepEqual(await remuxStoredRecording(truncated.bucket, cut), cut)
+  assert.deepEqual(truncated.deleted, [])
+
+  const unreadable = memoryBucket({ failReads: true })
+  const file = unreadable.add(recorderWebM())
+  assert.deepEqual(await remuxStoredRecording(unreadable.bucket, file), file)
+  assert.deepEqual(unreadable.deleted, [])
+  assert.equal(unreadable.files.size, 1)
+})
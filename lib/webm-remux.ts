@@ -0,0 +1,228 @@
+import { ByteReader, blobByteSource, type ByteSource } from "@/lib/byte-source"
+import {
+  EBML_ID,
+  SEGMENT_CHILD_IDS,
+  concatBytes,
+  ebmlChildren,
+  ebmlUint,
+  encodeElement,
+  encodeElementHeader,
+  encodeFloat,
+  encodeId,
+  encodeUint,
+  parseBlockHeader,
+  readEbmlHeader,
+  type EbmlHeader,
+} from "@/lib/ebml"
+
+// MediaRecorder writes WebM as a live stream: the Segment and Clusters have
+// unknown sizes, Info has no Duration and there is no Cues index, so players
+// show an infinite duration and cannot seek. Remuxing rebuilds the header with
+// a Duration and a SeekHead, gives every Cluster an explicit size and appends
+// Cues. Frame data is copied as-is, never re-encoded.
+
+// A piece of the remuxed file: new bytes, or a range copied from the source
+export type RemuxPart = Uint8Array<ArrayBuffer> | { start: number; end: number }
+
+interface ScannedCluster {
+  dataStart: number
+  end: number
+  cueTime: number | null // timecode of the first keyframe on the cue track
+}
+
+// Sizes and positions written as 8 bytes so the layout can be computed up front
+const FIXED_LENGTH = 8
+
+function buildSeekHead(positions: [number, number][]) {
+  const seeks = positions.map(([id, position]) =>
+    encodeElement(
+      EBML_ID.Seek,
+      concatBytes([
+        encodeElement(EBML_ID.SeekID, encodeId(id)),
+        encodeElement(EBML_ID.SeekPosition, encodeUint(position, FIXED_LENGTH)),
+      ]),
+    ),
+  )
+  return encodeElement(EBML_ID.SeekHead, concatBytes(seeks))
+}
+
+function buildCues(track: number, cues: { time: number; position: number }[]) {
+  const points = cues.map(({ time, position }) =>
+    encodeElement(
+      EBML_ID.CuePoint,
+      concatBytes([
+        encodeElement(EBML_ID.CueTime, encodeUint(time)),
+        encodeElement(
+          EBML_ID.CueTrackPositions,
+          concatBytes([
+            encodeElement(EBML_ID.CueTrack, encodeUint(track)),
+            encodeElement(EBML_ID.CueClusterPosition, encodeUint(position)),
+          ]),
+        ),
+      ]),
+    ),
+  )
+  return encodeElement(EBML_ID.Cues, concatBytes(points))
+}
+
+// Returns the parts of the rewritten file, or null if the source is not WebM or
+// already has a duration and an index
+export async function remuxWebM(source: ByteSource): Promise<RemuxPart[] | null> {
+  const reader = new ByteReader(source)
+
+  const ebml = await readEbmlHeader(reader, 0)
+  if (!ebml || ebml.id !== EBML_ID.Header || ebml.size === null) return null
+  const ebmlEnd = ebml.dataStart + ebml.size
+
+  const segment = await readEbmlHeader(reader, ebmlEnd)
+  if (!segment || segment.id !== EBML_ID.Segment) return null
+  const segmentEnd = segment.size === null ? reader.size : Math.min(segment.dataStart + segment.size, reader.size)
+
+  let info: Uint8Array | null = null
+  let tracks: { start: number; end: number } | null = null
+  const extras: { start: number; end: number }[] = [] // Tags, Chapters, Attachments
+  const clusters: ScannedCluster[] = []
+  let hasDuration = false
+  let hasCues = false
+  let cueTrack = 0
+  let lastTimecode = 0
+
+  const scanCluster = async (cluster: EbmlHeader): Promise<ScannedCluster> => {
+    const limit = cluster.size === null ? segmentEnd : Math.min(cluster.dataStart + cluster.size, segmentEnd)
+    let position = cluster.dataStart
+    let clusterTimecode = 0
+    let cueTime: number | null = null
+
+    while (position < limit) {
+      const child = await readEbmlHeader(reader, position)
+      if (!child || child.size === null) break
+      // An unknown-size cluster ends where the next top-level element starts
+      if (cluster.size === null && SEGMENT_CHILD_IDS.has(child.id)) break
+      const end = child.dataStart + child.size
+      // Drop a trailing element cut short by a crash or a stopped tab
+      if (end > limit) break
+
+      let block = null
+      if (child.id === EBML_ID.Timecode) {
+        clusterTimecode = ebmlUint(await reader.bytes(child.dataStart, child.size))
+      } else if (child.id === EBML_ID.SimpleBlock) {
+        block = parseBlockHeader(await reader.bytes(child.dataStart, 12))
+      } else if (child.id === EBML_ID.BlockGroup) {
+        // A Block is a keyframe unless it references another frame
+        const group = [...ebmlChildren(await reader.bytes(child.dataStart, child.size))]
+        const data = group.find((element) => element.id === EBML_ID.Block)?.data
+        const header = data && parseBlockHeader(data)
+        if (header) {
+          block = { ...header, keyframe: !group.some((element) => element.id === EBML_ID.ReferenceBlock) }
+        }
+      }
+
+      if (block) {
+        const timecode = clusterTimecode + block.timecode
+        lastTimecode = Math.max(lastTimecode, timecode)
+        if (cueTime === null && block.track === cueTrack && block.keyframe) cueTime = timecode
+      }
+      position = end
+    }
+
+    return { dataStart: cluster.dataStart, end: position, cueTime }
+  }
+
+  let offset = segment.dataStart
+  while (offset < segmentEnd) {
+    const element = await readEbmlHeader(reader, offset)
+    if (!element) break
+
+    if (element.id === EBML_ID.Cluster) {
+      const cluster = await scanCluster(element)
+      clusters.push(cluster)
+      offset = cluster.end
+      continue
+    }
+    if (element.size === null) break
+    const end = element.dataStart + element.size
+    if (end > segmentEnd) break
+
+    if (element.id === EBML_ID.Info) {
+      info = await reader.bytes(element.dataStart, element.size)
+      hasDuration = [...ebmlChildren(info)].some((child) => child.id === EBML_ID.Duration)
+    } else if (element.id === EBML_ID.Tracks) {
+      tracks = { start: offset, end }
+      // Cue on the video track, or the first track of an audio-only file
+      const entries = [...ebmlChildren(await reader.bytes(element.dataStart, element.size))].map((entry) => {
+        const fields = new Map([...ebmlChildren(entry.data)].map((field) => [field.id, ebmlUint(field.data)]))
+        return { number: fields.get(EBML_ID.TrackNumber) ?? 0, type: fields.get(EBML_ID.TrackType) ?? 0 }
+      })
+      cueTrack = (entries.find((entry) => entry.type === 1) ?? entries[0])?.number ?? 0
+    } else if (element.id === EBML_ID.Cues) {
+      hasCues = true
+    } else if (SEGMENT_CHILD_IDS.has(element.id) && element.id !== EBML_ID.SeekHead) {
+      extras.push({ start: offset, end })
+    }
+    // SeekHead and Void are dropped; a new SeekHead is written below
+    offset = end
+  }
+
+  if ((hasDuration && hasCues) || !info || !tracks || clusters.length === 0) return null
+
+  // Info keeps its other fields; Duration is in TimecodeScale units, like block timecodes
+  const newInfo = encodeElement(
+    EBML_ID.Info,
+    concatBytes([
+      ...[...ebmlChildren(info)]
+        .filter((child) => child.id !== EBML_ID.Duration)
+        .map((child) => encodeElement(child.id, child.data)),
+      encodeElement(EBML_ID.Duration, encodeFloat(lastTimecode)),
+    ]),
+  )
+
+  // Positions are relative to the start of the Segment's data
+  const seekHeadLength = buildSeekHead([
+    [EBML_ID.Info, 0],
+    [EBML_ID.Tracks, 0],
+    [EBML_ID.Cues, 0],
+  ]).length
+  const infoPosition = seekHeadLength
+  const tracksPosition = infoPosition + newInfo.length
+  let position = tracksPosition + (tracks.end - tracks.start)
+  position += extras.reduce((total, extra) => total + (extra.end - extra.start), 0)
+
+  const clusterParts: RemuxPart[] = []
+  const cues: { time: number; position: number }[] = []
+  for (const cluster of clusters) {
+    const header = encodeElementHeader(EBML_ID.Cluster, cluster.end - cluster.dataStart, FIXED_LENGTH)
+    if (cluster.cueTime !== null) cues.push({ time: cluster.cueTime, position })
+    clusterParts.push(header, { start: cluster.dataStart, end: cluster.end })
+    position += header.length + (cluster.end - cluster.dataStart)
+  }
+
+  const cuesElement = buildCues(cueTrack, cues)
+  const seekHead = buildSeekHead([
+    [EBML_ID.Info, infoPosition],
+    [EBML_ID.Tracks, tracksPosition],
+    [EBML_ID.Cues, position],
+  ])
+  const segmentSize = position + cuesElement.length
+
+  return [
+    { start: 0, end: ebmlEnd },
+    encodeElementHeader(EBML_ID.Segment, segmentSize, FIXED_LENGTH),
+    seekHead,
+    newInfo,
+    tracks,
+    ...extras,
+    ...clusterParts,
+    cuesElement,
+  ]
+}
+
+// Browser helper: returns a seekable copy of a MediaRecorder WebM blob, or the
+// blob itself if it needs no remuxing. Only the headers are read into memory.
+export async function remuxWebMBlob(blob: Blob) {
+  const parts = await remuxWebM(blobByteSource(blob))
+  if (!parts) return blob
+  return new Blob(
+    parts.map((part) => (part instanceof Uint8Array ? part : blob.slice(part.start, part.end))),
+    { type: blob.type },
+  )
+}
@@ -0,0 +1,272 @@
+import { createHash, randomBytes } from "crypto"
+import { z } from "zod"
+import { ObjectId } from "mongodb"
+import { Workspace, type IWorkspace, type WorkspaceRole } from "@/lib/models/Workspace"
+import type { ApiKeyScope } from "@/lib/models/ApiKey"
+import { WorkspaceInvite, type IWorkspaceInvite } from "@/lib/models/WorkspaceInvite"
+import { User, type IUser } from "@/lib/models/User"
+import { Recording } from "@/lib/models/Recording"
+import { Tag } from "@/lib/models/Tag"
+import { Folder } from "@/lib/models/Folder"
+import { RequestError, isDuplicateKeyError } from "@/lib/request-error"
+
+// Who may do what in a workspace. Viewers can watch, search and download;
+// editors can also upload, edit, organize, share and delete recordings; owners
+// can also rename the workspace and manage its members and invites. The
+// current workspace is kept in a cookie, so it applies to every request,
+// including <video> and <img> loads.
+
+export { WORKSPACE_ROLES, type WorkspaceRole } from "@/lib/models/Workspace"
+
+export const WORKSPACE_COOKIE = "workspace"
+export const WORKSPACE_COOKIE_OPTIONS = {
+  path: "/",
+  httpOnly: true,
+  sameSite: "lax" as const,
+  maxAge: 365 * 24 * 60 * 60,
+}
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000 // Invites work for a week
+const INVITE_TOKEN_BYTES = 24
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 }
+
+export const workspaceNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Workspace name cannot be empty")
+  .max(100, "Workspace names must be at most 100 characters")
+
+export const inviteRoleSchema = z.enum(["viewer", "editor"])
+
+// The signed-in user and the workspace their request applies to
+export interface WorkspaceAccess {
+  userId: string
+  workspaceId: string
+  role: WorkspaceRole
+  // Set when the request came with an API key, which is limited to its scopes
+  apiKeyId?: string
+  scopes?: ApiKeyScope[]
+}
+
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum]
+}
+
+// Why someone in the role can't do something that needs the minimum role, if
+// they can't; routes answer with it as a 403
+export function roleError(role: WorkspaceRole, minimum: WorkspaceRole) {
+  if (hasRole(role, minimum)) return null
+  return minimum === "owner"
+    ? "Only workspace owners can do that"
+    : "Viewers can't make changes in this workspace"
+}
+
+function memberRole(workspace: IWorkspace, userId: string) {
+  return workspace.members.find((member) => String(member.userId) === userId)?.role ?? null
+}
+
+// Data from before workspaces existed only has an owner (and from before
+// accounts, not even that); it moves into its owner's personal workspace. The
+// OWNER_EMAIL account also takes the data nobody owns.
+async function adoptLegacyData(userId: string, workspaceId: unknown, includeUnowned: boolean) {
+  // Tags and folders no longer have an owner field, so the ID isn't cast for them
+  const owner = new ObjectId(userId)
+  const owners = includeUnowned ? [{ owner }, { owner: { $exists: false } }] : [{ owner }]
+  const legacy = { workspaceId: { $exists: false }, $or: owners }
+  await Promise.all([
+    Recording.updateMany(legacy, { $set: { workspaceId, owner: userId } }),
+    Tag.updateMany(legacy, { $set: { workspaceId } }),
+    Folder.updateMany(legacy, { $set: { workspaceId } }),
+  ])
+}
+
+// The user's personal workspace, created the first time it is needed
+export async function personalWorkspace(userId: string, { claimUnowned = false } = {}) {
+  const existing = await Workspace.findOne({ personalFor: userId })
+  if (existing) return existing as IWorkspace
+
+  let workspace: IWorkspace
+  try {
+    workspace = await Workspace.create({
+      name: "Personal",
+      personalFor: userId,
+      members: [{ userId, role: "owner" }],
+    })
+  } catch (error) {
+    // Two requests created it at the same time; use the one that won
+    if (!isDuplicateKeyError(error)) throw error
+    return (await Workspace.findOne({ personalFor: userId })) as IWorkspace
+  }
+  await adoptLegacyData(userId, workspace._id, claimUnowned)
+  return workspace
+}
+
+// The user's access to a workspace, or null if they aren't a member
+export async function workspaceAccess(userId: string, workspaceId: string): Promise<WorkspaceAccess | null> {
+  const workspace = (await Workspace.findOne({ _id: workspaceId, "members.userId": userId })) as IWorkspace | null
+  const role = workspace && memberRole(workspace, userId)
+  return role ? { userId, workspaceId: String(workspace._id), role } : null
+}
+
+// The workspace a request applies to: the one asked for (from the cookie) if
+// the user is a member, their personal workspace otherwise
+export async function resolveAccess(userId: string, requestedId?: string): Promise<WorkspaceAccess> {
+  if (requestedId && ObjectId.isValid(requestedId)) {
+    const access = await workspaceAccess(userId, requestedId)
+    if (access) return access
+  }
+  const workspace = await personalWorkspace(userId)
+  return { userId, workspaceId: String(workspace._id), role: "owner" }
+}
+
+export async function listWorkspaces(userId: string) {
+  await personalWorkspace(userId)
+  const workspaces = (await Workspace.find({ "members.userId": userId }).sort({ createdAt: 1 })) as IWorkspace[]
+  return workspaces.map((workspace) => ({
+    _id: String(workspace._id),
+    name: workspace.name,
+    personal: String(workspace.personalFor) === userId,
+    role: memberRole(workspace, userId)!,
+    memberCount: workspace.members.length,
+  }))
+}
+
+export async function createWorkspace(userId: string, name: string) {
+  return (await Workspace.create({ name, members: [{ userId, role: "owner" }] })) as IWorkspace
+}
+
+// A workspace the user is a member of, with their role in it. Other
+// workspaces act as if they don't exist.
+export async function requireMembership(workspaceId: string, userId: string) {
+  const workspace = (await Workspace.findOne({ _id: workspaceId, "members.userId": userId })) as IWorkspace | null
+  const role = workspace && memberRole(workspace, userId)
+  if (!role) throw new RequestError("Workspace not found", 404)
+  return { workspace, role }
+}
+
+export async function listMembers(workspace: IWorkspace) {
+  const users = await User.find({ _id: { $in: workspace.members.map((member) => member.userId) } })
+    .select("email name")
+    .lean<Pick<IUser, "_id" | "email" | "name">[]>()
+  const byId = new Map(users.map((user) => [String(user._id), user]))
+  return workspace.members.map((member) => ({
+    userId: String(member.userId),
+    email: byId.get(String(member.userId))?.email ?? null,
+    name: byId.get(String(member.userId))?.name ?? "",
+    role: member.role,
+    joinedAt: member.joinedAt,
+  }))
+}
+
+// A workspace always keeps at least one owner
+function requireAnotherOwner(workspace: IWorkspace, userId: string) {
+  const owners = workspace.members.filter((member) => member.role === "owner")
+  if (owners.length === 1 && String(owners[0].userId) === userId) {
+    throw new RequestError("A workspace needs at least one owner; make someone else an owner first", 409)
+  }
+}
+
+export async function setMemberRole(workspace: IWorkspace, userId: string, role: WorkspaceRole) {
+  const member = workspace.members.find((entry) => String(entry.userId) === userId)
+  if (!member) throw new RequestError("Member not found", 404)
+  if (role !== "owner") requireAnotherOwner(workspace, userId)
+
+  member.role = role
+  await workspace.save()
+}
+
+export async function removeMember(workspace: IWorkspace, userId: string) {
+  if (!memberRole(workspace, userId)) throw new RequestError("Member not found", 404)
+  requireAnotherOwner(workspace, userId)
+
+  await Workspace.updateOne({ _id: workspace._id }, { $pull: { members: { userId: new ObjectId(userId) } } })
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+function serializeInvite(invite: IWorkspaceInvite) {
+  return {
+    _id: String(invite._id),
+    role: invite.role,
+    expiresAt: invite.expiresAt,
+    createdAt: invite.createdAt,
+  }
+}
+
+// The link is only returned here; afterwards only its hash is known
+export async function createInvite(workspace: IWorkspace, createdBy: string, role: "viewer" | "editor") {
+  if (workspace.personalFor) {
+    throw new RequestError("Personal workspaces can't be shared; create a team workspace to invite people")
+  }
+
+  const token = randomBytes(INVITE_TOKEN_BYTES).toString("base64url")
+  const invite = (await WorkspaceInvite.create({
+    workspaceId: workspace._id,
+    role,
+    tokenHash: hashToken(token),
+    createdBy,
+    expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+  })) as IWorkspaceInvite
+  return { ...serializeInvite(invite), url: `/invite/${token}` }
+}
+
+// Invites that haven't been used or expired
+export async function listInvites(workspaceId: string) {
+  const invites = await WorkspaceInvite.find({ workspaceId, usedAt: null, expiresAt: { $gt: new Date() } }).sort({
+    createdAt: -1,
+  })
+  return (invites as IWorkspaceInvite[]).map(serializeInvite)
+}
+
+// Returns false if the workspace has no such unused invite
+export async function revokeInvite(workspaceId: string, inviteId: string) {
+  const result = await WorkspaceInvite.deleteOne({ _id: inviteId, workspaceId, usedAt: null })
+  return result.deletedCount > 0
+}
+
+async function findInvite(token: string) {
+  const invite = (await WorkspaceInvite.findOne({ tokenHash: hashToken(token) })) as IWorkspaceInvite | null
+  if (!invite) throw new RequestError("Invite not found", 404)
+  if (invite.usedAt) throw new RequestError("This invite has already been used", 410)
+  if (invite.expiresAt.getTime() <= Date.now()) throw new RequestError("This invite has expired", 410)
+
+  const workspace = (await Workspace.findById(invite.workspaceId)) as IWorkspace | null
+  if (!workspace) throw new RequestError("Invite not found", 404)
+  return { invite, workspace }
+}
+
+// What the invite page shows before it is accepted
+export async function describeInvite(token: string, userId: string) {
+  const { invite, workspace } = await findInvite(token)
+  const inviter = await User.findById(invite.createdBy).select("email name").lean<Pick<IUser, "email" | "name">>()
+  return {
+    workspace: workspace.name,
+    role: invite.role,
+    invitedBy: inviter ? inviter.name || inviter.email : null,
+    alreadyMember: memberRole(workspace, userId) !== null,
+    expiresAt: invite.expiresAt,
+  }
+}
+
+// Adds the user to the invite's workspace. The invite is marked used in the
+// same update that checks it is unused, so it can't let in two people. Members
+// keep their current role and the invite stays unused; `joined` is null then.
+export async function acceptInvite(token: string, userId: string) {
+  const { invite, workspace } = await findInvite(token)
+  const workspaceId = String(workspace._id)
+  if (memberRole(workspace, userId)) return { workspaceId, joined: null }
+
+  const claimed = await WorkspaceInvite.updateOne(
+    { _id: invite._id, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date(), usedBy: userId } },
+  )
+  if (claimed.modifiedCount === 0) throw new RequestError("This invite has already been used", 410)
+
+  await Workspace.updateOne(
+    { _id: workspace._id, "members.userId": { $ne: new ObjectId(userId) } },
+    { $push: { members: { userId, role: invite.role, joinedAt: new Date() } } },
+  )
+  return { workspaceId, joined: { inviteId: String(invite._id), role: invite.role } }
+}
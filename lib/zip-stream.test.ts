@@ -0,0 +1,160 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { crc32 } from "node:zlib"
+import { zipEntries, zipLength, type ZipEntry } from "@/lib/zip-stream"
+
+const MAX_32 = 0xffffffff
+const modified = new Date(2024, 4, 17, 13, 45, 30)
+
+// An entry whose data arrives in the given chunks
+function entry(name: string, chunks: Uint8Array[]): ZipEntry {
+  return {
+    name,
+    size: chunks.reduce((total, chunk) => total + chunk.length, 0),
+    modified,
+    async *open() {
+      yield* chunks
+    },
+  }
+}
+
+async function collect(entries: ZipEntry[]) {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of zipEntries(entries)) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+// Reads the end of central directory record, following the ZIP64 locator when
+// the classic fields are saturated
+function readEnd(zip: Buffer) {
+  const end = zip.length - 22
+  assert.equal(zip.readUInt32LE(end), 0x06054b50)
+  const count = zip.readUInt16LE(end + 10)
+  const size = zip.readUInt32LE(end + 12)
+  const offset = zip.readUInt32LE(end + 16)
+  if (offset !== MAX_32) return { count, size, offset, zip64: false }
+
+  const locator = end - 20
+  assert.equal(zip.readUInt32LE(locator), 0x07064b50)
+  const record = Number(zip.readBigUInt64LE(locator + 8))
+  assert.equal(record, locator - 56)
+  assert.equal(zip.readUInt32LE(record), 0x06064b50)
+  return {
+    count: Number(zip.readBigUInt64LE(record + 32)),
+    size: Number(zip.readBigUInt64LE(record + 40)),
+    offset: Number(zip.readBigUInt64LE(record + 48)),
+    zip64: true,
+  }
+}
+
+// Walks the central directory, then each local header, its data and the data
+// descriptor behind it
+function readArchive(zip: Buffer) {
+  const end = readEnd(zip)
+  const files: { name: string; data: Buffer; crc: number }[] = []
+  let position = end.offset
+  for (let i = 0; i < end.count; i++) {
+    assert.equal(zip.readUInt32LE(position), 0x02014b50)
+    const crc = zip.readUInt32LE(position + 16)
+    const size = zip.readUInt32LE(position + 24)
+    const nameLength = zip.readUInt16LE(position + 28)
+    const extraLength = zip.readUInt16LE(position + 30)
+    const offset = zip.readUInt32LE(position + 42)
+    const name = zip.subarray(position + 46, position + 46 + nameLength).toString("utf8")
+    position += 46 + nameLength + extraLength
+
+    assert.equal(zip.readUInt32LE(offset), 0x04034b50)
+    assert.equal(zip.readUInt16LE(offset + 6), 0x0808)
+    assert.equal(zip.readUInt32LE(offset + 14), 0)
+    const localName = zip.subarray(offset + 30, offset + 30 + zip.readUInt16LE(offset + 26)).toString("utf8")
+    assert.equal(localName, name)
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26) + zip.readUInt16LE(offset + 28)
+    const data = zip.subarray(dataStart, dataStart + size)
+
+    const descriptor = dataStart + size
+    assert.equal(zip.readUInt32LE(descriptor), 0x08074b50)
+    assert.equal(zip.readUInt32LE(descriptor + 4), crc)
+    assert.equal(zip.readUInt32LE(descriptor + 8), size)
+    assert.equal(zip.readUInt32LE(descriptor + 12), size)
+    files.push({ name, data, crc })
+  }
+  assert.equal(position, end.offset + end.size)
+  return { end, files }
+}
+
+test("zipLength matches the bytes zipEntries writes", async () => {
+  const entries = [
+    entry("recording.webm", [Buffer.from("first chunk "), Buffer.from("second chunk")]),
+    entry("empty.txt", []),
+    entry("Démo vidéo/é.mp4", [Buffer.alloc(70_000, 7)]),
+  ]
+  const zip = await collect(entries)
+  assert.equal(zip.length, zipLength(entries))
+  assert.equal(zipLength([]), 22)
+  assert.equal((await collect([])).length, 22)
+})
+
+test("data descriptors carry each entry's CRC and size", async () => {
+  const random = Buffer.from(Array.from({ length: 5000 }, (_, i) => (i * 31 + 7) % 251))
+  const entries = [
+    entry("a.txt", [Buffer.from("hello "), Buffer.from("world")]),
+    entry("empty.txt", []),
+    entry("nested/b.bin", [random.subarray(0, 1234), random.subarray(1234)]),
+  ]
+  const { end, files } = readArchive(await collect(entries))
+
+  assert.equal(end.zip64, false)
+  assert.deepEqual(
+    files.map(file => file.name),
+    ["a.txt", "empty.txt", "nested/b.bin"]
+  )
+  assert.equal(files[0].data.toString(), "hello world")
+  assert.equal(files[0].crc, crc32("hello world"))
+  assert.equal(files[1].data.length, 0)
+  assert.equal(files[1].crc, 0)
+  assert.deepEqual(files[2].data, random)
+  assert.equal(files[2].crc, crc32(random))
+})
+
+test("an entry of 4 GiB or more is sized and headed as ZIP64", async () => {
+  const big: ZipEntry = { name: "big.webm", size: MAX_32, modified, open: async function* () {} }
+  const small = entry("small.txt", [Buffer.from("x")])
+
+  // Local header with the ZIP64 extra field, the data, a 24-byte descriptor,
+  // then a central header whose extra field holds both sizes
+  const bigEntry = 30 + 8 + 20 + MAX_32 + 24
+  const smallEntry = 30 + 9 + 1 + 16
+  const directory = 46 + 8 + 20 + (46 + 9 + 12)
+  // The second entry starts past 4 GiB, so its offset moves to the extra field
+  // and the archive ends with ZIP64 end records
+  assert.equal(zipLength([big, small]), bigEntry + smallEntry + directory + 56 + 20 + 22)
+  assert.equal(zipLength([small]), smallEntry + 46 + 9 + 22)
+
+  const chunks = zipEntries([big])
+  const header = Buffer.from((await chunks.next()).value!)
+  assert.equal(header.readUInt16LE(4), 45)
+  assert.equal(header.readUInt32LE(18), MAX_32)
+  assert.equal(header.readUInt32LE(22), MAX_32)
+  assert.equal(header.readUInt16LE(28), 20)
+  assert.equal(header.readUInt16LE(30 + 8), 0x0001)
+
+  // open() yields nothing, so the writer refuses to continue
+  await assert.rejects(chunks.next(), /was 0 bytes, expected 4294967295/)
+})
+
+test("archives with 65535 or more entries end with ZIP64 records", async () => {
+  const entries = Array.from({ length: 0xffff }, (_, i) => entry(`${i}.txt`, []))
+  const zip = await collect(entries)
+  assert.equal(zip.length, zipLength(entries))
+
+  assert.equal(zip.readUInt16LE(zip.length - 22 + 10), 0xffff)
+  const end = readEnd(zip)
+  assert.equal(end.zip64, true)
+  assert.equal(end.count, 0xffff)
+  assert.equal(end.offset + end.size, zip.length - 22 - 20 - 56)
+})
+
+test("zipEntries rejects an entry whose data does not match its size", async () => {
+  const entries = [{ ...entry("short.txt", [Buffer.from("abc")]), size: 4 }]
+  await assert.rejects(collect(entries), /"short.txt" was 3 bytes, expected 4/)
+})
@@ -0,0 +1,239 @@
+// Minimal streaming ZIP writer. Entries are stored uncompressed (recordings are
+// already compressed video) and each one's CRC is computed while its data
+// streams through, so the CRC goes in a data descriptor after the data and only
+// the central directory is kept in memory. ZIP64 records are written when an
+// entry or the archive outgrows the 4 GiB limits of the classic format.
+
+export interface ZipEntry {
+  // Path inside the archive, UTF-8
+  name: string
+  // Exact byte length of what open() yields
+  size: number
+  modified: Date
+  open: () => AsyncIterable<Uint8Array>
+}
+
+interface CentralRecord {
+  name: Buffer
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+  zip64: boolean
+}
+
+const MAX_32 = 0xffffffff
+const MAX_16 = 0xffff
+// Bit 3: sizes and CRC follow the data; bit 11: the name is UTF-8
+const FLAGS = 0x0808
+const VERSION = 20
+const VERSION_ZIP64 = 45
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array, crc = 0) {
+  let c = ~crc >>> 0
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return ~c >>> 0
+}
+
+// MS-DOS date and time fields, in local time like other zip tools write them
+function dosDateTime(date: Date) {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+function localHeader(record: CentralRecord) {
+  // With bit 3 set the CRC and sizes here are zero; ZIP64 entries flag their
+  // sizes as stored in the extra field
+  const extra = record.zip64 ? Buffer.alloc(20) : Buffer.alloc(0)
+  if (record.zip64) {
+    extra.writeUInt16LE(0x0001, 0)
+    extra.writeUInt16LE(16, 2)
+  }
+
+  const header = Buffer.alloc(30)
+  header.writeUInt32LE(0x04034b50, 0)
+  header.writeUInt16LE(record.zip64 ? VERSION_ZIP64 : VERSION, 4)
+  header.writeUInt16LE(FLAGS, 6)
+  header.writeUInt16LE(0, 8) // stored
+  header.writeUInt16LE(record.time, 10)
+  header.writeUInt16LE(record.date, 12)
+  header.writeUInt32LE(0, 14)
+  header.writeUInt32LE(record.zip64 ? MAX_32 : 0, 18)
+  header.writeUInt32LE(record.zip64 ? MAX_32 : 0, 22)
+  header.writeUInt16LE(record.name.length, 26)
+  header.writeUInt16LE(extra.length, 28)
+  return Buffer.concat([header, record.name, extra])
+}
+
+function dataDescriptor(record: CentralRecord) {
+  if (record.zip64) {
+    const descriptor = Buffer.alloc(24)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(record.crc, 4)
+    descriptor.writeBigUInt64LE(BigInt(record.size), 8)
+    descriptor.writeBigUInt64LE(BigInt(record.size), 16)
+    return descriptor
+  }
+  const descriptor = Buffer.alloc(16)
+  descriptor.writeUInt32LE(0x08074b50, 0)
+  descriptor.writeUInt32LE(record.crc, 4)
+  descriptor.writeUInt32LE(record.size, 8)
+  descriptor.writeUInt32LE(record.size, 12)
+  return descriptor
+}
+
+function centralHeader(record: CentralRecord) {
+  const bigSize = record.size >= MAX_32
+  const bigOffset = record.offset >= MAX_32
+  // The ZIP64 extra field holds, in this order, whichever values overflowed
+  const values = [...(bigSize ? [record.size, record.size] : []), ...(bigOffset ? [record.offset] : [])]
+  const extra = Buffer.alloc(values.length > 0 ? 4 + values.length * 8 : 0)
+  if (values.length > 0) {
+    extra.writeUInt16LE(0x0001, 0)
+    extra.writeUInt16LE(values.length * 8, 2)
+    values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8))
+  }
+  const version = record.zip64 || bigOffset ? VERSION_ZIP64 : VERSION
+
+  const header = Buffer.alloc(46)
+  header.writeUInt32LE(0x02014b50, 0)
+  header.writeUInt16LE(version, 4)
+  header.writeUInt16LE(version, 6)
+  header.writeUInt16LE(FLAGS, 8)
+  header.writeUInt16LE(0, 10)
+  header.writeUInt16LE(record.time, 12)
+  header.writeUInt16LE(record.date, 14)
+  header.writeUInt32LE(record.crc, 16)
+  header.writeUInt32LE(bigSize ? MAX_32 : record.size, 20)
+  header.writeUInt32LE(bigSize ? MAX_32 : record.size, 24)
+  header.writeUInt16LE(record.name.length, 28)
+  header.writeUInt16LE(extra.length, 30)
+  // Comment length, disk number, internal and external attributes stay zero
+  header.writeUInt32LE(bigOffset ? MAX_32 : record.offset, 42)
+  return Buffer.concat([header, record.name, extra])
+}
+
+function endOfArchive(count: number, directoryOffset: number, directorySize: number) {
+  const zip64 = count >= MAX_16 || directoryOffset >= MAX_32 || directorySize >= MAX_32
+  const parts: Buffer[] = []
+
+  if (zip64) {
+    const record = Buffer.alloc(56)
+    record.writeUInt32LE(0x06064b50, 0)
+    record.writeBigUInt64LE(BigInt(44), 4)
+    record.writeUInt16LE(VERSION_ZIP64, 12)
+    record.writeUInt16LE(VERSION_ZIP64, 14)
+    record.writeBigUInt64LE(BigInt(count), 24)
+    record.writeBigUInt64LE(BigInt(count), 32)
+    record.writeBigUInt64LE(BigInt(directorySize), 40)
+    record.writeBigUInt64LE(BigInt(directoryOffset), 48)
+
+    const locator = Buffer.alloc(20)
+    locator.writeUInt32LE(0x07064b50, 0)
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8)
+    locator.writeUInt32LE(1, 16)
+    parts.push(record, locator)
+  }
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Math.min(count, MAX_16), 8)
+  end.writeUInt16LE(Math.min(count, MAX_16), 10)
+  end.writeUInt32LE(zip64 ? MAX_32 : directorySize, 12)
+  end.writeUInt32LE(zip64 ? MAX_32 : directoryOffset, 16)
+  parts.push(end)
+  return Buffer.concat(parts)
+}
+
+function recordFor(entry: ZipEntry, offset: number): CentralRecord {
+  return {
+    name: Buffer.from(entry.name, "utf8"),
+    crc: 0,
+    size: entry.size,
+    offset,
+    ...dosDateTime(entry.modified),
+    zip64: entry.size >= MAX_32,
+  }
+}
+
+// Exact byte length of what zipEntries() yields for the same entries, for a
+// Content-Length header. Sizes are known up front and nothing is compressed,
+// so this only depends on the names and sizes.
+export function zipLength(entries: ZipEntry[]) {
+  let offset = 0
+  let directorySize = 0
+  for (const entry of entries) {
+    const record = recordFor(entry, offset)
+    offset += localHeader(record).length + entry.size + dataDescriptor(record).length
+    directorySize += centralHeader(record).length
+  }
+  return offset + directorySize + endOfArchive(entries.length, offset, directorySize).length
+}
+
+// Yields the archive a piece at a time; entries are opened one after another
+export async function* zipEntries(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>) {
+  const records: CentralRecord[] = []
+  let offset = 0
+
+  for await (const entry of entries) {
+    const record = recordFor(entry, offset)
+
+    const header = localHeader(record)
+    yield header
+    offset += header.length
+
+    let written = 0
+    for await (const chunk of entry.open()) {
+      record.crc = crc32(chunk, record.crc)
+      written += chunk.length
+      yield chunk
+    }
+    if (written !== entry.size) {
+      throw new Error(`ZIP entry "${entry.name}" was ${written} bytes, expected ${entry.size}`)
+    }
+    offset += written
+
+    const descriptor = dataDescriptor(record)
+    yield descriptor
+    offset += descriptor.length
+    records.push(record)
+  }
+
+  const directoryOffset = offset
+  let directorySize = 0
+  for (const record of records) {
+    const header = centralHeader(record)
+    yield header
+    directorySize += header.length
+  }
+  yield endOfArchive(records.length, directoryOffset, directorySize)
+}
+
+// A web stream for a Response body that pulls from the generator as the client
+// reads, so a slow download never buffers more than one chunk
+export function toReadableStream(chunks: AsyncGenerator<Uint8Array>) {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
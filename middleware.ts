@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getToken } from "next-auth/jwt"
+
+const API_KEY_PATHS = ["/api/recordings", "/api/archives/"]
+
+// Everything needs a signed-in user except the sign-in page, the NextAuth and
+// registration endpoints, the trash purge cron (which checks CRON_SECRET) and
+// share links, which carry their own access checks. The recordings and archive
+// routes also take API keys as bearer tokens, which they check themselves.
+// API requests get a 401; pages redirect to the sign-in page and back.
+export async function middleware(request: NextRequest) {
+  const token = await getToken({ req: request })
+  if (token) return NextResponse.next()
+
+  const { pathname, search } = request.nextUrl
+  if (API_KEY_PATHS.some((path) => pathname.startsWith(path)) && request.headers.has("authorization")) {
+    return NextResponse.next()
+  }
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+  }
+
+  const login = new URL("/login", request.url)
+  login.searchParams.set("callbackUrl", `${pathname}${search}`)
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  matcher: ["/((?!api/auth|api/trash/purge|api/share/|share/|login|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|svg)$).*)"],
+}
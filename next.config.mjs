@@ -33,7 +33,7 @@ const nextConfig = {
           },
           {
             key: "Access-Control-Allow-Methods",
-            value: "GET, POST, DELETE, OPTIONS",
+            value: "GET, POST, PUT, PATCH, DELETE, OPTIONS",
           },
           {
             key: "Access-Control-Allow-Headers",
@@ -41,6 +41,27 @@ const nextConfig = {
           },
         ],
       },
+      {
+        source: "/api/uploads/:path*",
+        headers: [
+          {
+            key: "Access-Control-Allow-Origin",
+            value: "*",
+          },
+          {
+            key: "Access-Control-Allow-Methods",
+            value: "GET, POST, PATCH, HEAD, OPTIONS",
+          },
+          {
+            key: "Access-Control-Allow-Headers",
+            value: "Content-Type, Authorization, Upload-Offset",
+          },
+          {
+            key: "Access-Control-Expose-Headers",
+            value: "Location, Upload-Offset, Upload-Length, Upload-Expires",
+          },
+        ],
+      },
     ];
   },
 